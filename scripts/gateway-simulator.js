@@ -0,0 +1,154 @@
+// Local stand-in for the insole gateway, for testing the WebSocket transport
+// without hardware. Serves one synthetic insole per path (/left, /right) and
+// answers the same commands as the ESP32 firmware.
+//
+//   npm run gateway -- [--port 8765] [--channels 8] [--rate 50]
+//
+// Built on the `ws` package (a dev dependency), which handles the WebSocket
+// framing, fragmentation, ping/pong and the close handshake.
+
+import { createServer } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = option('port', 8765);
+const CHANNELS = option('channels', 8);
+const DEFAULT_RATE_HZ = option('rate', 50);
+const MAX_RATE_HZ = 200;
+const FULL_SCALE = 255; // raw ADC range of the firmware frames
+const FIRMWARE_VERSION = 'gateway-sim-1.0.0';
+
+// Quiet standing with slow sway - heel channels carry more load than the toes
+const generateValues = (timeSec, side) => {
+  const sway = Math.sin(timeSec * 2 * Math.PI * 0.25) * (side === 'left' ? 1 : -1);
+  return Array.from({ length: CHANNELS }, (_, channel) => {
+    const heelShare = channel / Math.max(1, CHANNELS - 1);
+    const base = 60 + 120 * heelShare;
+    const value = base * (1 + 0.2 * sway * (heelShare - 0.5)) + (Math.random() - 0.5) * 6;
+    return Math.max(0, Math.min(FULL_SCALE, Math.round(value)));
+  });
+};
+
+class InsoleSession {
+  constructor(socket, side) {
+    this.socket = socket;
+    this.side = side;
+    this.rateHz = DEFAULT_RATE_HZ;
+    this.timer = null;
+    this.sequence = 0;
+    this.startedAt = Date.now();
+  }
+
+  send(text) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(text);
+    }
+  }
+
+  startStreaming() {
+    this.stopStreaming();
+    this.timer = setInterval(() => {
+      const elapsedMs = Date.now() - this.startedAt;
+      const values = generateValues(elapsedMs / 1000, this.side);
+      this.send(`PRESSURE_${this.side.toUpperCase()}:${values.join(',')};SEQ=${this.sequence};TS=${elapsedMs}`);
+      this.sequence = (this.sequence + 1) % 65536;
+    }, 1000 / this.rateHz);
+  }
+
+  stopStreaming() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  handleCommand(text) {
+    // Bare START / STOP is what the original firmware protocol sends: run it, never answer
+    const legacy = text.trim();
+    if (legacy === 'START' || legacy === 'STOP') {
+      console.log(`[${this.side}] ${legacy}`);
+      if (legacy === 'START') this.startStreaming();
+      else this.stopStreaming();
+      return;
+    }
+
+    const match = text.trim().match(/^(\S+)(?: (\S+))? #(\d+)$/);
+    if (!match) {
+      console.log(`[${this.side}] ignored: ${text}`);
+      return;
+    }
+
+    const [, verb, argument, id] = match;
+    console.log(`[${this.side}] ${text}`);
+    const ack = (value) => this.send(`ACK #${id}${value !== undefined ? ` ${value}` : ''}`);
+    const nak = (reason) => this.send(`NAK #${id} ${reason}`);
+
+    switch (verb) {
+      case 'START':
+        this.startStreaming();
+        return ack();
+      case 'STOP':
+        this.stopStreaming();
+        return ack();
+      case 'RATE': {
+        const rateHz = Number(argument);
+        if (!Number.isFinite(rateHz) || rateHz <= 0 || rateHz > MAX_RATE_HZ) return nak(`rate must be 1-${MAX_RATE_HZ} Hz`);
+        this.rateHz = rateHz;
+        if (this.timer) this.startStreaming();
+        return ack();
+      }
+      case 'TARE':
+        return ack();
+      case 'VERSION?':
+        return ack(FIRMWARE_VERSION);
+      case 'BATTERY?':
+        return ack(Math.max(5, 100 - Math.floor((Date.now() - this.startedAt) / 60000)));
+      case 'SIDE':
+        return (argument === 'L' ? 'left' : 'right') === this.side ? ack() : nak(`this is the ${this.side} insole`);
+      default:
+        return nak('unknown command');
+    }
+  }
+}
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('WebSocket gateway - connect to ws://localhost:' + PORT + '/left or /right\n');
+});
+
+const sockets = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (request, socket, head) => {
+  const path = new URL(request.url || '/', 'http://localhost').pathname.replace(/\/+$/, '');
+  const side = path === '/right' ? 'right' : path === '/left' || path === '' ? 'left' : null;
+  if (!side) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  sockets.handleUpgrade(request, socket, head, (client) => sockets.emit('connection', client, request, side));
+});
+
+sockets.on('connection', (client, request, side) => {
+  const session = new InsoleSession(client, side);
+  console.log(`🌐 ${side} insole client connected from ${request.socket.remoteAddress}`);
+
+  client.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    data.toString().split('\n').filter(line => line.trim()).forEach(line => session.handleCommand(line));
+  });
+  client.on('close', () => {
+    session.stopStreaming();
+    console.log(`🔌 ${side} insole client disconnected`);
+  });
+  client.on('error', (error) => console.warn(`[${side}] socket error:`, error.message));
+});
+
+server.listen(PORT, () => {
+  console.log(`🦶 Gateway simulator on ws://localhost:${PORT}/left and /right - ${CHANNELS} channels at ${DEFAULT_RATE_HZ} Hz`);
+  console.log('   Press Ctrl+C to stop');
+});
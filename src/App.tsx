@@ -2,6 +2,13 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import LeftSoleScreen from './components/LeftSoleScreen';
 import RightSoleScreen from './components/RightSoleScreen';
+import BilateralScreen from './components/BilateralScreen';
+import SessionHistoryScreen from './components/SessionHistoryScreen';
+import SessionViewerScreen from './components/SessionViewerScreen';
+import SessionComparisonScreen from './components/SessionComparisonScreen';
+import PatientsScreen from './components/PatientsScreen';
+import CalibrationScreen from './components/CalibrationScreen';
+import AlertRulesScreen from './components/AlertRulesScreen';
 
 function App() {
   return (
@@ -11,6 +18,13 @@ function App() {
           <Route path="/" element={<Navigate to="/left-sole" replace />} />
           <Route path="/left-sole" element={<LeftSoleScreen />} />
           <Route path="/right-sole" element={<RightSoleScreen />} />
+          <Route path="/bilateral" element={<BilateralScreen />} />
+          <Route path="/history" element={<SessionHistoryScreen />} />
+          <Route path="/history/:sessionId" element={<SessionViewerScreen />} />
+          <Route path="/compare" element={<SessionComparisonScreen />} />
+          <Route path="/patients" element={<PatientsScreen />} />
+          <Route path="/calibration" element={<CalibrationScreen />} />
+          <Route path="/alerts" element={<AlertRulesScreen />} />
         </Routes>
       </div>
     </Router>
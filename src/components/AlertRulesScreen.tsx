@@ -0,0 +1,523 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { BellRing, Plus, Pencil, Trash2, Save, RotateCcw, Loader2 } from 'lucide-react';
+import AlertRuleStore from '../utils/AlertRuleStore';
+import {
+  ALERT_METRICS,
+  ALERT_SEVERITIES,
+  AlertMetric,
+  AlertRule,
+  AlertRuleOverride,
+  AlertScope,
+  AlertSeverity,
+  createAlertRuleId,
+  describeAlertRule,
+  getMetricUnitLabel,
+  getSeverityLabel,
+  isPressureMetric
+} from '../utils/AlertRules';
+import { FOOT_REGIONS } from '../utils/ClinicalMetrics';
+import { SENSOR_LAYOUTS, getChannelLabels } from '../utils/SensorLayouts';
+import { PressureUnit } from '../utils/Calibration';
+import PatientStore, { Patient, formatPatientLabel, getActivePatientId } from '../utils/PatientStore';
+
+// Form fields are kept as strings until the rule is saved
+interface RuleForm {
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  scope: AlertScope;
+  target: string;
+  threshold: string;
+  pressureUnit: PressureUnit | null;
+  severity: AlertSeverity;
+  message: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  enabled: true,
+  metric: 'peak',
+  scope: 'sensor',
+  target: '',
+  threshold: '',
+  pressureUnit: 'kPa',
+  severity: 'warning',
+  message: ''
+};
+
+const toForm = (rule: AlertRule): RuleForm => ({ ...rule, threshold: String(rule.threshold) });
+
+// Sensor targets cover the densest layout; rules on channels a layout lacks never fire
+const SENSOR_TARGETS = getChannelLabels(
+  SENSOR_LAYOUTS.reduce((largest, layout) => (layout.channelCount > largest.channelCount ? layout : largest))
+);
+
+const SEVERITY_BADGES: Record<AlertSeverity, string> = {
+  info: 'bg-blue-900 text-blue-100',
+  warning: 'bg-yellow-900 text-yellow-100',
+  critical: 'bg-red-900 text-red-100'
+};
+
+const AlertRulesScreen: React.FC = () => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientId, setPatientId] = useState(getActivePatientId() || '');
+  const [overrides, setOverrides] = useState<AlertRuleOverride[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+
+  const alertRuleStore = useRef(new AlertRuleStore());
+  const patientStore = useRef(new PatientStore());
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        setRules(await alertRuleStore.current.list());
+        setPatients(await patientStore.current.list());
+      } catch (loadError) {
+        console.error('Failed to load alert rules:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load alert rules');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRules();
+  }, []);
+
+  useEffect(() => {
+    if (!patientId) {
+      setOverrides([]);
+      return;
+    }
+
+    alertRuleStore.current.getOverrides(patientId)
+      .then(setOverrides)
+      .catch(loadError => console.error('Failed to load patient overrides:', loadError));
+  }, [patientId]);
+
+  const updateField = <K extends keyof RuleForm>(field: K, value: RuleForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Keeps the scope valid for the chosen metric
+  const changeMetric = (metric: AlertMetric) => {
+    const scopes = ALERT_METRICS.find(option => option.id === metric)?.scopes || ['foot'];
+    setForm(prev => ({
+      ...prev,
+      metric,
+      scope: scopes.includes(prev.scope) ? prev.scope : scopes[0],
+      target: scopes.includes(prev.scope) ? prev.target : ''
+    }));
+  };
+
+  const startNewRule = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setStatus('');
+    setError('');
+  };
+
+  const editRule = (rule: AlertRule) => {
+    setEditing(rule);
+    setForm(toForm(rule));
+    setStatus('');
+    setError('');
+  };
+
+  const saveRule = async () => {
+    if (!form.threshold.trim() || isNaN(Number(form.threshold))) {
+      setError('Threshold must be a number');
+      return;
+    }
+
+    try {
+      const saved = await alertRuleStore.current.save({
+        ...form,
+        id: editing?.id || createAlertRuleId(),
+        threshold: Number(form.threshold)
+      });
+      setRules(await alertRuleStore.current.list());
+      setEditing(saved);
+      setForm(toForm(saved));
+      setStatus(editing ? 'Rule updated' : 'Rule created');
+      setError('');
+    } catch (saveError) {
+      console.error('Failed to save rule:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save rule');
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule) => {
+    try {
+      await alertRuleStore.current.save({ ...rule, enabled: !rule.enabled });
+      setRules(await alertRuleStore.current.list());
+    } catch (saveError) {
+      console.error('Failed to update rule:', saveError);
+      setError('Failed to update rule');
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Saved sessions keep the alerts it raised.`)) return;
+
+    try {
+      await alertRuleStore.current.delete(rule.id);
+      setRules(prev => prev.filter(item => item.id !== rule.id));
+      if (editing?.id === rule.id) startNewRule();
+    } catch (deleteError) {
+      console.error('Failed to delete rule:', deleteError);
+      setError('Failed to delete rule');
+    }
+  };
+
+  const restoreDefaults = async () => {
+    if (!confirm('Restore the default rules? Your changes to them are lost; rules you added are kept.')) return;
+
+    try {
+      setRules(await alertRuleStore.current.restoreDefaults());
+      startNewRule();
+      setStatus('Default rules restored');
+    } catch (restoreError) {
+      console.error('Failed to restore default rules:', restoreError);
+      setError('Failed to restore default rules');
+    }
+  };
+
+  const updateOverride = (ruleId: string, changes: Partial<AlertRuleOverride>) => {
+    setOverrides(prev => {
+      const existing = prev.find(override => override.ruleId === ruleId) || { ruleId };
+      return [...prev.filter(override => override.ruleId !== ruleId), { ...existing, ...changes }];
+    });
+  };
+
+  const saveOverrides = async () => {
+    try {
+      await alertRuleStore.current.saveOverrides(patientId, overrides);
+      const patient = patients.find(item => item.id === patientId);
+      setStatus(`Overrides saved for ${patient ? formatPatientLabel(patient) : 'the patient'}`);
+      setError('');
+    } catch (saveError) {
+      console.error('Failed to save overrides:', saveError);
+      setError('Failed to save overrides');
+    }
+  };
+
+  const metricScopes = ALERT_METRICS.find(option => option.id === form.metric)?.scopes || [];
+  const inputClass = 'w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white';
+  const cellInputClass = 'bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm';
+
+  return (
+    <div className="min-h-screen bg-[#1e1e1e] text-white p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <header className="flex items-center justify-between border-b border-gray-700 pb-6">
+          <h1 className="text-3xl font-light flex items-center space-x-3">
+            <BellRing size={28} className="text-[#d32f2f]" />
+            <span>Clinical Alert Rules</span>
+          </h1>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={restoreDefaults}
+              className="flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded transition-colors"
+            >
+              <RotateCcw size={16} />
+              <span>Restore Defaults</span>
+            </button>
+            <button
+              onClick={startNewRule}
+              className="flex items-center space-x-2 bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-4 rounded transition-colors"
+            >
+              <Plus size={16} />
+              <span>New Rule</span>
+            </button>
+          </div>
+        </header>
+
+        {(status || error) && (
+          <div className={`text-sm p-3 rounded border ${
+            error ? 'text-red-400 bg-red-900 bg-opacity-30 border-red-700' : 'text-green-400 bg-green-900 bg-opacity-30 border-green-700'
+          }`}>
+            {error || status}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+          <div className="xl:col-span-2 space-y-8">
+            {/* Rule list */}
+            <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-hidden">
+              {isLoading ? (
+                <div className="p-8 text-center text-gray-400 flex items-center justify-center space-x-2">
+                  <Loader2 className="animate-spin" size={16} />
+                  <span>Loading rules...</span>
+                </div>
+              ) : rules.length === 0 ? (
+                <div className="p-8 text-center text-gray-500">
+                  <BellRing className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p>No alert rules - measurements will not raise any alerts</p>
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-800 text-gray-300">
+                    <tr>
+                      <th className="text-left px-4 py-3 font-medium">On</th>
+                      <th className="text-left px-4 py-3 font-medium">Rule</th>
+                      <th className="text-left px-4 py-3 font-medium">Condition</th>
+                      <th className="text-left px-4 py-3 font-medium">Severity</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rules.map(rule => (
+                      <tr
+                        key={rule.id}
+                        className={`border-t border-gray-800 hover:bg-gray-800/50 ${editing?.id === rule.id ? 'bg-gray-800/70' : ''} ${rule.enabled ? '' : 'text-gray-500'}`}
+                      >
+                        <td className="px-4 py-3">
+                          <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule)} />
+                        </td>
+                        <td className="px-4 py-3">
+                          <div>{rule.name}</div>
+                          <div className="text-xs text-gray-500">{rule.message}</div>
+                        </td>
+                        <td className="px-4 py-3">{describeAlertRule(rule)}</td>
+                        <td className="px-4 py-3">
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${SEVERITY_BADGES[rule.severity]}`}>
+                            {getSeverityLabel(rule.severity)}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => editRule(rule)}
+                              className="p-1.5 text-gray-400 hover:text-white"
+                              title="Edit rule"
+                            >
+                              <Pencil size={16} />
+                            </button>
+                            <button
+                              onClick={() => deleteRule(rule)}
+                              className="p-1.5 text-gray-400 hover:text-red-400"
+                              title="Delete rule"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Per-patient overrides */}
+            <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
+              <h2 className="text-xl font-medium mb-2">👤 Patient Overrides</h2>
+              <p className="text-xs text-gray-500 mb-4">
+                Stricter or looser limits for one patient, e.g. lower peak pressure limits for diabetic foot. Empty fields keep the rule's own setting.
+              </p>
+              <select
+                className={`${inputClass} mb-4`}
+                value={patientId}
+                onChange={(e) => setPatientId(e.target.value)}
+              >
+                <option value="">Select a patient...</option>
+                {patients.map(patient => (
+                  <option key={patient.id} value={patient.id}>{formatPatientLabel(patient)}</option>
+                ))}
+              </select>
+
+              {patientId && rules.length > 0 && (
+                <>
+                  <table className="w-full text-sm mb-4">
+                    <thead className="text-gray-400">
+                      <tr>
+                        <th className="text-left font-normal py-1">Rule</th>
+                        <th className="text-left font-normal py-1">Enabled</th>
+                        <th className="text-left font-normal py-1">Threshold</th>
+                        <th className="text-left font-normal py-1">Severity</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rules.map(rule => {
+                        const override = overrides.find(item => item.ruleId === rule.id);
+                        return (
+                          <tr key={rule.id} className="border-t border-gray-800">
+                            <td className="py-2 pr-2">{rule.name}</td>
+                            <td className="py-2 pr-2">
+                              <select
+                                className={cellInputClass}
+                                value={override?.enabled === undefined ? '' : String(override.enabled)}
+                                onChange={(e) => updateOverride(rule.id, { enabled: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                              >
+                                <option value="">Rule default ({rule.enabled ? 'on' : 'off'})</option>
+                                <option value="true">On</option>
+                                <option value="false">Off</option>
+                              </select>
+                            </td>
+                            <td className="py-2 pr-2">
+                              <input
+                                type="number"
+                                className={`${cellInputClass} w-24`}
+                                value={override?.threshold ?? ''}
+                                placeholder={String(rule.threshold)}
+                                onChange={(e) => updateOverride(rule.id, { threshold: e.target.value === '' ? undefined : Number(e.target.value) })}
+                              />
+                              <span className="ml-1 text-xs text-gray-400">{getMetricUnitLabel(rule.metric, rule.pressureUnit)}</span>
+                            </td>
+                            <td className="py-2">
+                              <select
+                                className={cellInputClass}
+                                value={override?.severity ?? ''}
+                                onChange={(e) => updateOverride(rule.id, { severity: (e.target.value || undefined) as AlertSeverity | undefined })}
+                              >
+                                <option value="">Rule default ({getSeverityLabel(rule.severity)})</option>
+                                {ALERT_SEVERITIES.map(option => (
+                                  <option key={option.id} value={option.id}>{option.label}</option>
+                                ))}
+                              </select>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <button
+                    onClick={saveOverrides}
+                    className="bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded transition-colors flex items-center space-x-2"
+                  >
+                    <Save size={16} />
+                    <span>Save Overrides</span>
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Create / edit form */}
+          <div className="bg-gray-900 rounded-lg p-6 border border-gray-700 h-fit">
+            <h2 className="text-xl font-medium mb-4">{editing ? '✏️ Edit Rule' : '➕ New Rule'}</h2>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Name *</label>
+                <input className={inputClass} value={form.name} onChange={(e) => updateField('name', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Metric</label>
+                <select className={inputClass} value={form.metric} onChange={(e) => changeMetric(e.target.value as AlertMetric)}>
+                  {ALERT_METRICS.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Applies To</label>
+                  <select
+                    className={inputClass}
+                    value={form.scope}
+                    onChange={(e) => setForm(prev => ({ ...prev, scope: e.target.value as AlertScope, target: '' }))}
+                  >
+                    {metricScopes.map(scope => (
+                      <option key={scope} value={scope}>{scope === 'foot' ? 'Whole foot' : scope === 'sensor' ? 'Sensor' : 'Region'}</option>
+                    ))}
+                  </select>
+                </div>
+                {form.scope !== 'foot' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">{form.scope === 'sensor' ? 'Sensor' : 'Region'}</label>
+                    <select className={inputClass} value={form.target} onChange={(e) => updateField('target', e.target.value)}>
+                      <option value="">Any</option>
+                      {form.scope === 'sensor'
+                        ? SENSOR_TARGETS.map(label => <option key={label} value={label}>{label}</option>)
+                        : FOOT_REGIONS.map(region => <option key={region.id} value={region.id}>{region.label}</option>)}
+                    </select>
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Above ({getMetricUnitLabel(form.metric, form.pressureUnit)}) *
+                  </label>
+                  <input type="number" min="0" className={inputClass} value={form.threshold} onChange={(e) => updateField('threshold', e.target.value)} />
+                </div>
+                {isPressureMetric(form.metric) && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Unit</label>
+                    <select className={inputClass} value={form.pressureUnit ?? ''} onChange={(e) => updateField('pressureUnit', (e.target.value || null) as PressureUnit | null)}>
+                      <option value="">Any unit</option>
+                      <option value="kPa">kPa (calibrated)</option>
+                      <option value="raw">Raw ADC counts</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Severity</label>
+                <select className={inputClass} value={form.severity} onChange={(e) => updateField('severity', e.target.value as AlertSeverity)}>
+                  {ALERT_SEVERITIES.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Message *</label>
+                <input
+                  className={inputClass}
+                  value={form.message}
+                  onChange={(e) => updateField('message', e.target.value)}
+                  placeholder="Shown to the clinician when the rule fires"
+                />
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <input type="checkbox" checked={form.enabled} onChange={(e) => updateField('enabled', e.target.checked)} />
+                <span>Enabled</span>
+              </label>
+              <p className="text-xs text-gray-500">
+                Peak rules are checked live while recording; mean, sway and asymmetry rules once the measurement is complete. Asymmetry needs both feet.
+              </p>
+
+              <button
+                onClick={saveRule}
+                className="w-full bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+              >
+                <Save size={16} />
+                <span>{editing ? 'Save Changes' : 'Create Rule'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-center space-x-4 pt-6 border-t border-gray-700">
+          <Link
+            to="/left-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            ← Left Sole
+          </Link>
+          <Link
+            to="/right-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            → Right Sole
+          </Link>
+          <Link
+            to="/patients"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            👤 Patients
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesScreen;
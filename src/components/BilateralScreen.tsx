@@ -0,0 +1,697 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Play, Square, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import { getBLEManager, releaseBLEManager } from '../utils/BLEConnectionPool';
+import { SoleSide } from '../utils/FrameDecoderRegistry';
+import {
+  SENSOR_LAYOUTS,
+  SensorLayout,
+  createEmptyFrame,
+  getSensorLayout
+} from '../utils/SensorLayouts';
+import { AlignedSample, TimedSample, alignSampleStreams, sharedClockNow } from '../utils/SampleAlignment';
+import {
+  DEFAULT_PROTOCOL,
+  MEASUREMENT_PROTOCOLS,
+  MeasurementProtocol,
+  ProtocolState,
+  ProtocolSummary,
+  describeProtocol,
+  getMeasurementProtocol,
+  getProtocolDurationSec,
+  getProtocolPhaseLabel,
+  summarizeProtocol
+} from '../utils/MeasurementProtocols';
+import MeasurementSession, { MeasurementResult } from '../utils/MeasurementSession';
+import { DataGap, describeDataGaps, formatDataGap, getMissingRecordingSec } from '../utils/DataGaps';
+import HeatmapVisualization from './HeatmapVisualization';
+import ConsoleViewer from './ConsoleViewer';
+import DeviceConnectionCard from './DeviceConnectionCard';
+import LinkQualityPanel from './LinkQualityPanel';
+import DeviceInfoPanel from './DeviceInfoPanel';
+import DeviceProfilePanel from './DeviceProfilePanel';
+import { DeviceMetadata, isBatteryLow } from '../utils/DeviceInformation';
+import { LinkQualityStats } from '../utils/LinkQuality';
+import PatientSelector from './PatientSelector';
+import { Patient, formatPatientLabel } from '../utils/PatientStore';
+import { PressureUnit } from '../utils/Calibration';
+import AlertRuleStore from '../utils/AlertRuleStore';
+import { AlertContext, AlertRule, TriggeredAlert, evaluateAlertRules, formatAlert, mergeAlerts } from '../utils/AlertRules';
+import { compareChannelMeans, getAsymmetryThreshold } from '../utils/Symmetry';
+import ClinicalAlertsPanel from './ClinicalAlertsPanel';
+
+interface TrialSample extends TimedSample {
+  trial: number;
+}
+
+interface BilateralResult {
+  patient: Patient | null;
+  protocol: ProtocolSummary;
+  elapsedSec: number; // after the countdown
+  recordedSec: number;
+  stoppedEarly: boolean;
+  gaps: Record<SoleSide, DataGap[]>;
+  pressureUnits: Record<SoleSide, PressureUnit>;
+  leftAverages: number[];
+  rightAverages: number[];
+  leftSampleCount: number;
+  rightSampleCount: number;
+  alignedSampleCount: number;
+  alignedDurationMs: number;
+  leftLoadShare: number; // % of total load carried by the left foot
+  alerts: TriggeredAlert[];
+}
+
+const averageFrames = (frames: number[][], channelCount: number): number[] => {
+  const sums = Array(channelCount).fill(0);
+  frames.forEach(values => {
+    values.forEach((value, index) => {
+      sums[index] += value;
+    });
+  });
+  return sums.map(sum => Math.round(sum / frames.length));
+};
+
+// Both sessions are started back to back on the shared clock, so their elapsed times share one origin
+const getRecordingSamples = (result: MeasurementResult): TrialSample[] =>
+  result.pressureData.flatMap(data => data.phase === 'recording' && data.elapsedMs !== null
+    ? [{ time: data.elapsedMs, values: data.values, trial: data.trial }]
+    : []);
+
+const NO_ALERT_VALUES: Omit<AlertContext, 'sensorLayout' | 'pressureUnit'> = { peaks: null, means: null, sway: null, symmetry: null };
+
+// Single-foot alerts with the side in front of each subject ("L P3"), so both feet share one list
+const evaluateSideAlerts = (rules: AlertRule[], side: SoleSide, context: AlertContext): TriggeredAlert[] =>
+  evaluateAlertRules(rules, context).map(alert => ({
+    ...alert,
+    subjects: alert.subjects.map(subject => `${side === 'left' ? 'L' : 'R'} ${subject}`)
+  }));
+
+const BilateralScreen: React.FC = () => {
+  const leftManager = useRef(getBLEManager('left'));
+  const rightManager = useRef(getBLEManager('right'));
+  const [leftConnected, setLeftConnected] = useState(leftManager.current.isConnected());
+  const [rightConnected, setRightConnected] = useState(rightManager.current.isConnected());
+  const [sensorLayout, setSensorLayout] = useState<SensorLayout>(leftManager.current.getSensorLayout());
+  const [leftPressures, setLeftPressures] = useState<number[]>(createEmptyFrame(sensorLayout));
+  const [rightPressures, setRightPressures] = useState<number[]>(createEmptyFrame(sensorLayout));
+  const [isRecording, setIsRecording] = useState(false);
+  const [protocol, setProtocol] = useState<MeasurementProtocol>(DEFAULT_PROTOCOL);
+  const [protocolState, setProtocolState] = useState<ProtocolState | null>(null);
+  const [result, setResult] = useState<BilateralResult | null>(null);
+  const [consoleLog, setConsoleLog] = useState<string[]>([]);
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [pressureUnits, setPressureUnits] = useState<Record<SoleSide, PressureUnit>>({
+    left: leftManager.current.getPressureUnit(),
+    right: rightManager.current.getPressureUnit()
+  });
+  const [linkQuality, setLinkQuality] = useState<Record<SoleSide, LinkQualityStats | null>>({ left: null, right: null });
+  const [deviceMetadata, setDeviceMetadata] = useState<Record<SoleSide, DeviceMetadata>>({
+    left: leftManager.current.getDeviceMetadata(),
+    right: rightManager.current.getDeviceMetadata()
+  });
+  const [sideWarnings, setSideWarnings] = useState<Record<SoleSide, string | null>>({
+    left: leftManager.current.getSideWarning(),
+    right: rightManager.current.getSideWarning()
+  });
+  const [liveAlerts, setLiveAlerts] = useState<TriggeredAlert[]>([]);
+
+  // One session per foot, run on the same protocol; null when no measurement is running
+  const measurementsRef = useRef<Record<SoleSide, MeasurementSession> | null>(null);
+  const measurementPatient = useRef<Patient | null>(null);
+  const measurementUnits = useRef<Record<SoleSide, PressureUnit>>({ left: 'raw', right: 'raw' });
+  const alertRuleStore = useRef(new AlertRuleStore());
+  const alertRules = useRef<AlertRule[]>([]);
+  const liveAlertsRef = useRef<TriggeredAlert[]>([]);
+
+  useEffect(() => {
+    alertRuleStore.current.getEffectiveRules(patient?.id ?? null)
+      .then(rules => {
+        alertRules.current = rules;
+      })
+      .catch(error => console.error('Failed to load alert rules:', error));
+  }, [patient]);
+
+  useEffect(() => {
+    const attach = (
+      side: SoleSide,
+      manager: BLEManager,
+      setConnected: (connected: boolean) => void,
+      setPressures: (values: number[]) => void
+    ) => {
+      const prefix = side === 'left' ? 'PRESSURE_LEFT' : 'PRESSURE_RIGHT';
+
+      manager.onDataReceived = (data, receivedAt, frame) => {
+        // Only the recording phase is compared; countdown, settle and rest samples are just displayed
+        const measurement = measurementsRef.current?.[side];
+        measurement?.addSample(data, receivedAt, frame);
+        if (measurement?.getState()?.phase === 'recording') {
+          const alerts = evaluateSideAlerts(alertRules.current, side, {
+            ...NO_ALERT_VALUES,
+            sensorLayout: manager.getSensorLayout(),
+            pressureUnit: manager.getPressureUnit(),
+            peaks: data,
+            means: measurement.getRunningAverages()
+          });
+          if (alerts.length > 0) {
+            alerts
+              .filter(alert => !liveAlertsRef.current.some(existing => existing.ruleId === alert.ruleId))
+              .forEach(alert => setConsoleLog(prev => [...prev, `[WARNING] Alert: ${formatAlert(alert)}`]));
+            liveAlertsRef.current = mergeAlerts(liveAlertsRef.current, alerts);
+            setLiveAlerts(liveAlertsRef.current);
+          }
+        }
+        setPressures(data);
+        setLinkQuality(prev => ({ ...prev, [side]: manager.getLinkQuality() }));
+        setConsoleLog(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${prefix}: ${data.join(',')}`]);
+      };
+      manager.onRawDataReceived = (rawData) => {
+        setConsoleLog(prev => [...prev, `[${new Date().toLocaleTimeString()}] [${side.toUpperCase()}] ${rawData}`]);
+      };
+      manager.onConnectionChange = (connected) => {
+        setConnected(connected);
+        const deviceInfo = manager.getDeviceInfo();
+        setConsoleLog(prev => [
+          ...prev,
+          connected && deviceInfo
+            ? `[INFO] ${side} insole connected to ${deviceInfo.name} (${deviceInfo.id})`
+            : `[INFO] ${side} insole disconnected`
+        ]);
+        // Only reported once reconnecting gave up - one foot alone cannot be compared
+        if (!connected && measurementsRef.current) {
+          setConsoleLog(prev => [...prev, `[WARNING] Could not reconnect the ${side} insole - ending the measurement early`]);
+          measurementsRef.current[side].stop();
+        }
+      };
+      manager.onConnectionStateChange = (state) => {
+        if (state === 'reconnecting' && measurementsRef.current) {
+          setConsoleLog(prev => [...prev, `[WARNING] ${side} insole link lost - reconnecting`]);
+          measurementsRef.current[side].markLinkLost();
+        }
+      };
+      manager.onCalibrationChange = () => {
+        setPressureUnits(prev => ({ ...prev, [side]: manager.getPressureUnit() }));
+      };
+      manager.onDeviceMetadataChange = (metadata) => {
+        setDeviceMetadata(prev => ({ ...prev, [side]: metadata }));
+      };
+      manager.onSideWarningChange = (warning) => {
+        setSideWarnings(prev => ({ ...prev, [side]: warning }));
+      };
+    };
+
+    attach('left', leftManager.current, setLeftConnected, setLeftPressures);
+    attach('right', rightManager.current, setRightConnected, setRightPressures);
+
+    setConsoleLog(['[INFO] Bilateral capture ready - connect both insoles to begin']);
+
+    return () => {
+      measurementsRef.current?.left.dispose();
+      measurementsRef.current?.right.dispose();
+      releaseBLEManager('left');
+      releaseBLEManager('right');
+    };
+  }, []);
+
+  const changeSensorLayout = (layoutId: string) => {
+    const layout = getSensorLayout(layoutId);
+    leftManager.current.setSensorLayout(layout);
+    rightManager.current.setSensorLayout(layout);
+    setSensorLayout(layout);
+    setPressureUnits({ left: leftManager.current.getPressureUnit(), right: rightManager.current.getPressureUnit() });
+    setLeftPressures(createEmptyFrame(layout));
+    setRightPressures(createEmptyFrame(layout));
+    setResult(null);
+    setConsoleLog(prev => [...prev, `[INFO] Sensor layout set to ${layout.name} for both insoles`]);
+  };
+
+  const startMeasurement = () => {
+    if (!leftConnected || !rightConnected) {
+      alert('Please connect both the left and right insole first.');
+      return;
+    }
+
+    if (!patient) {
+      alert('Please select a patient before starting the measurement.');
+      return;
+    }
+
+    const lowSides = (['left', 'right'] as SoleSide[]).filter(side => isBatteryLow(deviceMetadata[side].batteryLevel));
+    if (lowSides.length > 0) {
+      setConsoleLog(prev => [...prev, `[ERROR] Battery low on the ${lowSides.join(' and ')} insole - measurement not started`]);
+      alert(`The ${lowSides.join(' and ')} insole battery is low. Please charge it before starting a measurement.`);
+      return;
+    }
+
+    measurementPatient.current = patient;
+    measurementUnits.current = pressureUnits;
+    liveAlertsRef.current = [];
+    setLiveAlerts([]);
+    setResult(null);
+    setIsRecording(true);
+    setConsoleLog(prev => [...prev, `[INFO] Patient: ${formatPatientLabel(patient)}`]);
+    if (pressureUnits.left !== pressureUnits.right) {
+      setConsoleLog(prev => [...prev, '[WARNING] Only one insole is calibrated - left/right load distribution mixes kPa with raw counts']);
+    } else if (pressureUnits.left === 'raw') {
+      setConsoleLog(prev => [...prev, '[WARNING] Neither insole is calibrated - recording raw ADC counts, not kPa']);
+    }
+    setConsoleLog(prev => [...prev, `[INFO] Starting synchronized bilateral protocol "${protocol.name}" (${describeProtocol(protocol)})`]);
+
+    // The left session drives the countdown display; either one finishing ends both
+    const measurements = {
+      left: new MeasurementSession({ protocol, sensorLayout }),
+      right: new MeasurementSession({ protocol, sensorLayout })
+    };
+    measurements.left.on('tick', setProtocolState);
+    measurements.left.on('phase', state => {
+      setConsoleLog(prev => [...prev, `[INFO] ${getProtocolPhaseLabel(state, protocol)}`]);
+    });
+    (['left', 'right'] as SoleSide[]).forEach(side => {
+      measurements[side].on('gap', gap => {
+        setConsoleLog(prev => [...prev, `[WARNING] ${side} data gap at ${formatDataGap(gap)}`]);
+      });
+      measurements[side].on('complete', finishMeasurement);
+    });
+    measurementsRef.current = measurements;
+
+    leftManager.current.resetLinkQuality();
+    rightManager.current.resetLinkQuality();
+    setLinkQuality({ left: null, right: null });
+
+    // Start both insoles back to back so their streams open on the same shared-clock instant
+    measurements.left.start();
+    measurements.right.start();
+    leftManager.current.startDataCollection();
+    rightManager.current.startDataCollection();
+    setConsoleLog(prev => [...prev, `[INFO] Both insoles started at t=${Math.round(sharedClockNow())} ms`]);
+  };
+
+  const stopMeasurement = () => {
+    measurementsRef.current?.left.stop();
+  };
+
+  // Runs from a session's 'complete' event and stops the other foot's session, whose own
+  // 'complete' then finds the ref cleared; only results and refs are read, never recording state
+  const finishMeasurement = () => {
+    const measurements = measurementsRef.current;
+    if (!measurements) return;
+    measurementsRef.current = null;
+
+    const leftResult = measurements.left.stop();
+    const rightResult = measurements.right.stop();
+    setProtocolState(null);
+    leftManager.current.stopDataCollection();
+    rightManager.current.stopDataCollection();
+    setIsRecording(false);
+    if (leftResult && rightResult) {
+      completeTest(leftResult, rightResult);
+    }
+  };
+
+  const completeTest = (leftResult: MeasurementResult, rightResult: MeasurementResult) => {
+    const left = getRecordingSamples(leftResult);
+    const right = getRecordingSamples(rightResult);
+
+    // Align each trial on its own so interpolation never bridges a rest period
+    const trials = Array.from(new Set(left.map(sample => sample.trial)));
+    let aligned: AlignedSample[] = [];
+    let alignedDurationMs = 0;
+    trials.forEach(trial => {
+      const trialAligned = alignSampleStreams(
+        left.filter(sample => sample.trial === trial),
+        right.filter(sample => sample.trial === trial)
+      );
+      if (trialAligned.length > 0) {
+        aligned = aligned.concat(trialAligned);
+        alignedDurationMs += trialAligned[trialAligned.length - 1].time;
+      }
+    });
+
+    if (aligned.length === 0) {
+      setConsoleLog(prev => [...prev, '[WARNING] No overlapping data from both insoles - nothing to compare']);
+      return;
+    }
+
+    const channelCount = sensorLayout.channelCount;
+    const leftAverages = averageFrames(aligned.map(sample => sample.left), channelCount);
+    const rightAverages = averageFrames(aligned.map(sample => sample.right), channelCount);
+    const leftTotal = leftAverages.reduce((sum, val) => sum + val, 0);
+    const rightTotal = rightAverages.reduce((sum, val) => sum + val, 0);
+    const totalLoad = leftTotal + rightTotal;
+
+    // Peaks and running means were checked live; the final means and asymmetry use the aligned averages
+    const units = measurementUnits.current;
+    const averageAlerts = [
+      ...evaluateSideAlerts(alertRules.current, 'left', { ...NO_ALERT_VALUES, sensorLayout, pressureUnit: units.left, means: leftAverages }),
+      ...evaluateSideAlerts(alertRules.current, 'right', { ...NO_ALERT_VALUES, sensorLayout, pressureUnit: units.right, means: rightAverages })
+    ];
+    const symmetryAlerts = units.left === units.right
+      ? evaluateAlertRules(alertRules.current, {
+        ...NO_ALERT_VALUES,
+        sensorLayout,
+        pressureUnit: units.left,
+        symmetry: compareChannelMeans(leftAverages, rightAverages, sensorLayout, getAsymmetryThreshold(), true)
+      })
+      : [];
+    const alerts = mergeAlerts(mergeAlerts(liveAlertsRef.current, averageAlerts), symmetryAlerts);
+
+    const bilateralResult: BilateralResult = {
+      patient: measurementPatient.current,
+      protocol: summarizeProtocol(leftResult.protocol),
+      elapsedSec: Math.max(leftResult.elapsedSec, rightResult.elapsedSec),
+      recordedSec: Math.max(leftResult.recordedSec, rightResult.recordedSec),
+      stoppedEarly: leftResult.stoppedEarly && rightResult.stoppedEarly, // the other foot is always stopped by the first to finish
+      gaps: { left: leftResult.gaps, right: rightResult.gaps },
+      pressureUnits: measurementUnits.current,
+      leftAverages,
+      rightAverages,
+      leftSampleCount: left.length,
+      rightSampleCount: right.length,
+      alignedSampleCount: aligned.length,
+      alignedDurationMs,
+      leftLoadShare: totalLoad > 0 ? Math.round((leftTotal / totalLoad) * 1000) / 10 : 50,
+      alerts
+    };
+    setResult(bilateralResult);
+    alerts.forEach(alert => {
+      setConsoleLog(prev => [...prev, `[WARNING] ${alert.severity.toUpperCase()}: ${formatAlert(alert)}`]);
+    });
+
+    setConsoleLog(prev => [
+      ...prev,
+      `[INFO] Received ${left.length} left and ${right.length} right samples`,
+      `[INFO] Aligned ${aligned.length} sample pairs over ${(bilateralResult.alignedDurationMs / 1000).toFixed(1)} s`,
+      `[INFO] Load distribution: ${bilateralResult.leftLoadShare}% left / ${Math.round((100 - bilateralResult.leftLoadShare) * 10) / 10}% right`
+    ]);
+    (['left', 'right'] as SoleSide[])
+      .filter(side => bilateralResult.gaps[side].length > 0)
+      .forEach(side => {
+        setConsoleLog(prev => [...prev, `[WARNING] ${side} averages cover incomplete data: ${describeDataGaps(bilateralResult.gaps[side], bilateralResult.recordedSec)}`]);
+      });
+  };
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const getHeatmapPressureValues = (side: SoleSide) => {
+    if (result) {
+      return side === 'left' ? result.leftAverages : result.rightAverages;
+    } else if (isRecording) {
+      return side === 'left' ? leftPressures : rightPressures;
+    } else {
+      return createEmptyFrame(sensorLayout);
+    }
+  };
+
+  const renderStatus = (label: string, connected: boolean) => (
+    connected ? (
+      <span className="flex items-center space-x-2 bg-green-900 text-green-100 px-3 py-1 rounded-full text-sm">
+        <CheckCircle size={16} />
+        <span>{label} Connected</span>
+      </span>
+    ) : (
+      <span className="flex items-center space-x-2 bg-red-900 text-red-100 px-3 py-1 rounded-full text-sm">
+        <XCircle size={16} />
+        <span>{label} Disconnected</span>
+      </span>
+    )
+  );
+
+  return (
+    <div className="min-h-screen bg-[#1e1e1e] text-white p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <header className="flex items-center justify-between border-b border-gray-700 pb-6">
+          <h1 className="text-3xl font-light">🦶🦶 Foot Pressure Heatmap – Bilateral Capture</h1>
+          <div className="flex items-center space-x-4">
+            {renderStatus('Left', leftConnected)}
+            {renderStatus('Right', rightConnected)}
+          </div>
+        </header>
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+          {/* Left Column - Connections & Controls */}
+          <div className="space-y-6">
+            <DeviceConnectionCard
+              side="left"
+              bleManager={leftManager.current}
+              connected={leftConnected}
+              disabled={isRecording}
+              sideWarning={sideWarnings.left}
+              onLog={(message) => setConsoleLog(prev => [...prev, message])}
+            />
+            {leftConnected && <DeviceInfoPanel metadata={deviceMetadata.left} />}
+            {leftConnected && <LinkQualityPanel stats={linkQuality.left} />}
+            <DeviceConnectionCard
+              side="right"
+              bleManager={rightManager.current}
+              connected={rightConnected}
+              disabled={isRecording}
+              sideWarning={sideWarnings.right}
+              onLog={(message) => setConsoleLog(prev => [...prev, message])}
+            />
+            {rightConnected && <DeviceInfoPanel metadata={deviceMetadata.right} />}
+            {rightConnected && <LinkQualityPanel stats={linkQuality.right} />}
+
+            <div className="bg-gray-900 rounded-lg p-6 border border-gray-700 space-y-4">
+              <h2 className="text-xl font-medium">⏱️ Synchronized {protocol.name} Test</h2>
+
+              <PatientSelector patient={patient} onChange={setPatient} disabled={isRecording} />
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-300">Protocol</label>
+                <select
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+                  onChange={(e) => setProtocol(getMeasurementProtocol(e.target.value))}
+                  disabled={isRecording}
+                  value={protocol.id}
+                >
+                  {MEASUREMENT_PROTOCOLS.map(option => (
+                    <option key={option.id} value={option.id}>
+                      {option.name} ({describeProtocol(option)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <DeviceProfilePanel
+                managers={[leftManager.current, rightManager.current]}
+                disabled={leftConnected || rightConnected || isRecording}
+                onLog={(message) => setConsoleLog(prev => [...prev, message])}
+              />
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-300">Sensor Layout</label>
+                <select
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+                  onChange={(e) => changeSensorLayout(e.target.value)}
+                  disabled={isRecording}
+                  value={sensorLayout.id}
+                >
+                  {SENSOR_LAYOUTS.map(layout => (
+                    <option key={layout.id} value={layout.id}>
+                      {layout.name} ({layout.channelCount} channels)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="text-center">
+                <div className="text-4xl font-mono font-bold text-[#d32f2f]">
+                  {formatTime(Math.ceil(protocolState ? protocolState.phaseRemainingSec : getProtocolDurationSec(protocol)))}
+                </div>
+                {protocolState && (
+                  <div className={`text-sm mt-2 ${protocolState.phase === 'recording' ? 'text-yellow-400' : 'text-blue-300'}`}>
+                    {getProtocolPhaseLabel(protocolState, protocol)}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex space-x-2">
+                <button
+                  onClick={startMeasurement}
+                  disabled={!leftConnected || !rightConnected || !patient || isRecording || isBatteryLow(deviceMetadata.left.batteryLevel) || isBatteryLow(deviceMetadata.right.batteryLevel)}
+                  className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Play size={16} />
+                  <span>Start Measurement</span>
+                </button>
+
+                <button
+                  onClick={stopMeasurement}
+                  disabled={!isRecording}
+                  className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Square size={16} />
+                  <span>Stop Early</span>
+                </button>
+              </div>
+
+              {(!leftConnected || !rightConnected) && (
+                <div className="text-sm text-yellow-400 flex items-center space-x-2">
+                  <AlertTriangle size={16} />
+                  <span>Connect both insoles to begin a bilateral measurement.</span>
+                </div>
+              )}
+
+              {isRecording && <ClinicalAlertsPanel alerts={liveAlerts} title="Live Alerts" />}
+            </div>
+
+            {result && (
+              <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
+                <h2 className="text-xl font-medium mb-4">📊 Bilateral Summary</h2>
+                <div className="space-y-3">
+                  {result.patient && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Patient:</span>
+                      <span className="font-medium">{formatPatientLabel(result.patient)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Protocol:</span>
+                    <span className="font-medium">{result.protocol.name}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Duration:</span>
+                    <span className="font-medium">
+                      {result.elapsedSec} s{result.stoppedEarly && ' (stopped early)'}
+                    </span>
+                  </div>
+                  {(['left', 'right'] as SoleSide[]).map(side => (
+                    <div key={side} className="flex justify-between">
+                      <span className="text-gray-300">Data Gaps ({side === 'left' ? 'L' : 'R'}):</span>
+                      <span className={`font-medium ${result.gaps[side].length > 0 ? 'text-yellow-400' : ''}`}>
+                        {describeDataGaps(result.gaps[side], result.recordedSec)}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Samples (L / R):</span>
+                    <span className="font-medium">{result.leftSampleCount} / {result.rightSampleCount}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Aligned Pairs:</span>
+                    <span className="font-medium">
+                      {result.alignedSampleCount} over {(result.alignedDurationMs / 1000).toFixed(1)} s
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Load Distribution:</span>
+                    <span className="font-medium">
+                      {result.leftLoadShare}% L / {Math.round((100 - result.leftLoadShare) * 10) / 10}% R
+                    </span>
+                  </div>
+                  <div className="w-full h-3 bg-gray-700 rounded-full overflow-hidden flex">
+                    <div className="bg-red-500 h-full" style={{ width: `${result.leftLoadShare}%` }}></div>
+                    <div className="bg-green-500 h-full flex-1"></div>
+                  </div>
+                  {result.pressureUnits.left !== result.pressureUnits.right && (
+                    <div className="text-yellow-400 text-sm flex items-center space-x-2">
+                      <AlertTriangle size={16} />
+                      <span>Only one insole was calibrated - load distribution is not comparable</span>
+                    </div>
+                  )}
+                  {result.gaps.left.length + result.gaps.right.length > 0 && (
+                    <div className="text-yellow-400 text-sm flex items-center space-x-2">
+                      <AlertTriangle size={16} />
+                      <span>
+                        {getMissingRecordingSec(result.gaps.left)} s (L) / {getMissingRecordingSec(result.gaps.right)} s (R) of recording had no data - interpret the averages with care
+                      </span>
+                    </div>
+                  )}
+                </div>
+                <div className="mt-4 pt-3 border-t border-gray-700">
+                  <ClinicalAlertsPanel alerts={result.alerts} title="Clinical Alerts" emptyText="No alert rule was triggered" />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Center & Right Columns - Heatmaps */}
+          <div className="xl:col-span-2 space-y-6">
+            <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
+              <h2 className="text-xl font-medium mb-4 flex items-center justify-between">
+                <span>🦶 Left &amp; Right Sole Heatmaps</span>
+                {result && (
+                  <span className="text-sm bg-green-900 text-green-100 px-2 py-1 rounded-full">
+                    Aligned Averages
+                  </span>
+                )}
+                {isRecording && (
+                  <span className="text-sm bg-yellow-900 text-yellow-100 px-2 py-1 rounded-full animate-pulse">
+                    Live Data
+                  </span>
+                )}
+              </h2>
+              <div id="bilateral-heatmap-container" className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {(['left', 'right'] as SoleSide[]).map(side => (
+                  <div key={side}>
+                    <div className="text-center text-sm text-gray-300 mb-2">
+                      {side === 'left' ? 'Left Sole' : 'Right Sole'}
+                    </div>
+                    <HeatmapVisualization
+                      pressureValues={getHeatmapPressureValues(side)}
+                      soleType={side}
+                      isRecording={isRecording}
+                      sensorLayout={sensorLayout}
+                      pressureUnit={result ? result.pressureUnits[side] : pressureUnits[side]}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <ConsoleViewer
+              logs={consoleLog}
+              isConnected={leftConnected && rightConnected}
+              channelCount={sensorLayout.channelCount}
+              onAddLog={(message) => {
+                setConsoleLog(prev => [...prev, message]);
+              }}
+            />
+          </div>
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-center space-x-4 pt-6 border-t border-gray-700">
+          <Link
+            to="/left-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            ← View Left Sole
+          </Link>
+          <Link
+            to="/right-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            → View Right Sole
+          </Link>
+          <Link
+            to="/history"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            🗂️ Session History
+          </Link>
+          <Link
+            to="/patients"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            👤 Patients
+          </Link>
+          <Link
+            to="/calibration"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            📐 Calibration
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BilateralScreen;
@@ -0,0 +1,496 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Gauge, Crosshair, Weight, Save, Trash2, RotateCcw, Loader2, AlertTriangle } from 'lucide-react';
+import { getBLEManager, releaseBLEManager } from '../utils/BLEConnectionPool';
+import { SoleSide } from '../utils/FrameDecoderRegistry';
+import { SENSOR_LAYOUTS, SensorLayout, getChannelLabels, getSensorLayout } from '../utils/SensorLayouts';
+import {
+  CalibrationModel,
+  CalibrationPoint,
+  CalibrationProfile,
+  ChannelCurve,
+  fitCalibrationCurves,
+  getRequiredReferencePoints
+} from '../utils/Calibration';
+import CalibrationStore from '../utils/CalibrationStore';
+import DeviceConnectionCard from './DeviceConnectionCard';
+import ConsoleViewer from './ConsoleViewer';
+
+// Readings are averaged over this window to smooth out sensor noise
+const CAPTURE_SECONDS = 3;
+
+const averageRawFrames = (frames: number[][], channelCount: number): number[] => {
+  const sums = Array(channelCount).fill(0);
+  frames.forEach(values => {
+    values.forEach((value, index) => {
+      sums[index] += value;
+    });
+  });
+  return sums.map(sum => Math.round((sum / frames.length) * 10) / 10);
+};
+
+const emptyReferencePoints = (channelCount: number): CalibrationPoint[][] =>
+  Array.from({ length: channelCount }, () => []);
+
+interface CalibrationDraft {
+  model: CalibrationModel;
+  zeroOffsets: number[] | null;
+  referencePoints: CalibrationPoint[][];
+}
+
+// Starts from the saved profile when it was fitted for the same channel count
+const createDraft = (layout: SensorLayout, profile: CalibrationProfile | null): CalibrationDraft =>
+  profile && profile.channelCount === layout.channelCount
+    ? { model: profile.model, zeroOffsets: profile.zeroOffsets, referencePoints: profile.referencePoints }
+    : { model: 'linear', zeroOffsets: null, referencePoints: emptyReferencePoints(layout.channelCount) };
+
+const formatCoefficients = (curve: ChannelCurve): string =>
+  curve.coefficients.map(coefficient => coefficient.toPrecision(4)).join(' / ');
+
+const CalibrationScreen: React.FC = () => {
+  const [side, setSide] = useState<SoleSide>('left');
+  const bleManager = getBLEManager(side);
+  const [connected, setConnected] = useState(bleManager.isConnected());
+  const [sensorLayout, setSensorLayout] = useState<SensorLayout>(bleManager.getSensorLayout());
+  const [savedProfile, setSavedProfile] = useState<CalibrationProfile | null>(bleManager.getCalibrationProfile());
+  const [draft, setDraft] = useState<CalibrationDraft>(createDraft(sensorLayout, savedProfile));
+  const [referenceLoad, setReferenceLoad] = useState('');
+  const [targetChannel, setTargetChannel] = useState<'all' | number>('all');
+  const [capturing, setCapturing] = useState<'zero' | 'reference' | null>(null);
+  const [consoleLog, setConsoleLog] = useState<string[]>([]);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+
+  const calibrationStore = useRef(new CalibrationStore());
+
+  useEffect(() => {
+    const manager = getBLEManager(side);
+    const layout = manager.getSensorLayout();
+    const profile = manager.getCalibrationProfile();
+
+    setConnected(manager.isConnected());
+    setSensorLayout(layout);
+    setSavedProfile(profile);
+    setDraft(createDraft(layout, profile));
+    setTargetChannel('all');
+
+    manager.onRawDataReceived = (rawData) => {
+      setConsoleLog(prev => [...prev, `[${new Date().toLocaleTimeString()}] [${side.toUpperCase()}] ${rawData}`]);
+    };
+    manager.onConnectionChange = (isConnected) => {
+      setConnected(isConnected);
+      const deviceInfo = manager.getDeviceInfo();
+      setConsoleLog(prev => [
+        ...prev,
+        isConnected && deviceInfo
+          ? `[INFO] ${side} insole connected to ${deviceInfo.name} (${deviceInfo.id})`
+          : `[INFO] ${side} insole disconnected`
+      ]);
+    };
+    manager.onCalibrationChange = (loadedProfile) => {
+      setSavedProfile(loadedProfile);
+      setDraft(createDraft(manager.getSensorLayout(), loadedProfile));
+    };
+
+    setConsoleLog(prev => [...prev, `[INFO] Calibrating ${side} insole`]);
+
+    return () => {
+      releaseBLEManager(side);
+    };
+  }, [side]);
+
+  // Streams raw frames for CAPTURE_SECONDS and returns the per-channel mean
+  const captureRawFrame = (): Promise<number[]> => new Promise((resolve, reject) => {
+    const frames: number[][] = [];
+    bleManager.onFrameReceived = (frame) => {
+      frames.push(frame.values);
+    };
+    bleManager.startDataCollection();
+
+    setTimeout(() => {
+      bleManager.stopDataCollection();
+      bleManager.onFrameReceived = null;
+      if (frames.length === 0) {
+        reject(new Error('No frames received from the insole during capture'));
+      } else {
+        setConsoleLog(prev => [...prev, `[INFO] Averaged ${frames.length} raw frames`]);
+        resolve(averageRawFrames(frames, sensorLayout.channelCount));
+      }
+    }, CAPTURE_SECONDS * 1000);
+  });
+
+  const captureZero = async () => {
+    setCapturing('zero');
+    setError('');
+    setConsoleLog(prev => [...prev, '[INFO] Capturing zero-load offsets - keep the insole unloaded']);
+
+    try {
+      const offsets = await captureRawFrame();
+      setDraft(prev => ({ ...prev, zeroOffsets: offsets }));
+      setConsoleLog(prev => [...prev, `[INFO] Zero offsets: ${offsets.join(', ')}`]);
+    } catch (captureError) {
+      setError(captureError instanceof Error ? captureError.message : 'Zero capture failed');
+      setConsoleLog(prev => [...prev, `[ERROR] Zero capture failed: ${captureError}`]);
+    } finally {
+      setCapturing(null);
+    }
+  };
+
+  const captureReference = async () => {
+    const load = Number(referenceLoad);
+    if (!referenceLoad.trim() || isNaN(load) || load <= 0) {
+      setError('Enter the applied reference pressure in kPa');
+      return;
+    }
+
+    const channels = targetChannel === 'all'
+      ? Array.from({ length: sensorLayout.channelCount }, (_, index) => index)
+      : [targetChannel];
+    const targetLabel = targetChannel === 'all' ? 'all sensors' : `P${targetChannel + 1}`;
+
+    setCapturing('reference');
+    setError('');
+    setConsoleLog(prev => [...prev, `[INFO] Capturing ${load} kPa reference on ${targetLabel}`]);
+
+    try {
+      const readings = await captureRawFrame();
+      setDraft(prev => ({
+        ...prev,
+        referencePoints: prev.referencePoints.map((points, channel) =>
+          channels.includes(channel) ? [...points, { raw: readings[channel], load }] : points
+        )
+      }));
+      setConsoleLog(prev => [...prev, `[INFO] Reference point stored for ${targetLabel}`]);
+    } catch (captureError) {
+      setError(captureError instanceof Error ? captureError.message : 'Reference capture failed');
+      setConsoleLog(prev => [...prev, `[ERROR] Reference capture failed: ${captureError}`]);
+    } finally {
+      setCapturing(null);
+    }
+  };
+
+  const changeSensorLayout = (layoutId: string) => {
+    const layout = getSensorLayout(layoutId);
+    bleManager.setSensorLayout(layout);
+    setSensorLayout(layout);
+    setDraft(createDraft(layout, savedProfile));
+    setTargetChannel('all');
+    setConsoleLog(prev => [...prev, `[INFO] Sensor layout set to ${layout.name} (${layout.channelCount} channels)`]);
+  };
+
+  const clearDraft = () => {
+    setDraft(prev => ({ ...prev, zeroOffsets: null, referencePoints: emptyReferencePoints(sensorLayout.channelCount) }));
+    setStatus('');
+    setError('');
+  };
+
+  const { model, zeroOffsets, referencePoints } = draft;
+  let fittedCurves: ChannelCurve[] | null = null;
+  let fitError = '';
+  if (zeroOffsets) {
+    try {
+      fittedCurves = fitCalibrationCurves(zeroOffsets, referencePoints, model);
+    } catch (fitFailure) {
+      fitError = fitFailure instanceof Error ? fitFailure.message : 'Curve fit failed';
+    }
+  }
+
+  const saveProfile = async () => {
+    const deviceInfo = bleManager.getDeviceInfo();
+    if (!deviceInfo || !zeroOffsets || !fittedCurves) return;
+
+    const now = new Date().toISOString();
+    try {
+      const profile = await calibrationStore.current.save({
+        deviceId: deviceInfo.id,
+        deviceName: deviceInfo.name,
+        sensorLayoutId: sensorLayout.id,
+        channelCount: sensorLayout.channelCount,
+        model,
+        zeroOffsets,
+        referencePoints,
+        curves: fittedCurves,
+        createdAt: savedProfile?.deviceId === deviceInfo.id ? savedProfile.createdAt : now,
+        updatedAt: now
+      });
+      bleManager.setCalibrationProfile(profile);
+      setStatus(`Calibration saved for ${deviceInfo.name} - measurements are now reported in kPa`);
+      setConsoleLog(prev => [...prev, `[INFO] Calibration profile saved for ${deviceInfo.id}`]);
+    } catch (saveError) {
+      console.error('Failed to save calibration:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save calibration');
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!savedProfile || !confirm(`Delete the calibration for ${savedProfile.deviceName}? Its data will be reported in raw units.`)) return;
+
+    try {
+      await calibrationStore.current.delete(savedProfile.deviceId);
+      bleManager.setCalibrationProfile(null);
+      setStatus('Calibration deleted');
+      setConsoleLog(prev => [...prev, `[INFO] Calibration profile deleted for ${savedProfile.deviceId}`]);
+    } catch (deleteError) {
+      console.error('Failed to delete calibration:', deleteError);
+      setError('Failed to delete calibration');
+    }
+  };
+
+  const channelLabels = getChannelLabels(sensorLayout);
+  const requiredPoints = getRequiredReferencePoints(model);
+  const isBusy = capturing !== null;
+
+  return (
+    <div className="min-h-screen bg-[#1e1e1e] text-white p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <header className="flex items-center justify-between border-b border-gray-700 pb-6">
+          <h1 className="text-3xl font-light flex items-center space-x-3">
+            <Gauge size={28} className="text-[#d32f2f]" />
+            <span>Sensor Calibration</span>
+          </h1>
+          <div className="inline-flex rounded overflow-hidden border border-gray-600 text-sm">
+            {(['left', 'right'] as SoleSide[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setSide(option)}
+                disabled={isBusy}
+                className={`px-4 py-1 capitalize transition-colors ${
+                  side === option ? 'bg-[#d32f2f] text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {option} insole
+              </button>
+            ))}
+          </div>
+        </header>
+
+        {(status || error) && (
+          <div className={`text-sm p-3 rounded border ${
+            error ? 'text-red-400 bg-red-900 bg-opacity-30 border-red-700' : 'text-green-400 bg-green-900 bg-opacity-30 border-green-700'
+          }`}>
+            {error || status}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+          {/* Connection & capture */}
+          <div className="space-y-6">
+            <DeviceConnectionCard
+              key={side}
+              side={side}
+              bleManager={bleManager}
+              connected={connected}
+              disabled={isBusy}
+              onLog={(message) => setConsoleLog(prev => [...prev, message])}
+            />
+
+            <div className="bg-gray-900 rounded-lg p-6 border border-gray-700 space-y-4">
+              <h2 className="text-xl font-medium">🎚️ Capture</h2>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-300">Sensor Layout</label>
+                <select
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+                  onChange={(e) => changeSensorLayout(e.target.value)}
+                  disabled={isBusy}
+                  value={sensorLayout.id}
+                >
+                  {SENSOR_LAYOUTS.map(layout => (
+                    <option key={layout.id} value={layout.id}>
+                      {layout.name} ({layout.channelCount} channels)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm text-gray-300">1. Remove all load from the insole</div>
+                <button
+                  onClick={captureZero}
+                  disabled={!connected || isBusy}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                >
+                  {capturing === 'zero' ? <Loader2 className="animate-spin" size={16} /> : <Crosshair size={16} />}
+                  <span>{capturing === 'zero' ? `Capturing (${CAPTURE_SECONDS} s)...` : 'Capture Zero Offsets'}</span>
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm text-gray-300">2. Apply a known load and capture it</div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={referenceLoad}
+                    onChange={(e) => setReferenceLoad(e.target.value)}
+                    placeholder="Load (kPa)"
+                    className="bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white text-sm"
+                  />
+                  <select
+                    className="bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white text-sm"
+                    value={targetChannel}
+                    onChange={(e) => setTargetChannel(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+                  >
+                    <option value="all">All sensors (uniform load)</option>
+                    {channelLabels.map((label, index) => (
+                      <option key={label} value={index}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={captureReference}
+                  disabled={!connected || !zeroOffsets || isBusy}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                >
+                  {capturing === 'reference' ? <Loader2 className="animate-spin" size={16} /> : <Weight size={16} />}
+                  <span>{capturing === 'reference' ? `Capturing (${CAPTURE_SECONDS} s)...` : 'Capture Reference Point'}</span>
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-300">3. Curve Model</label>
+                <select
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+                  onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value as CalibrationModel }))}
+                  disabled={isBusy}
+                  value={model}
+                >
+                  <option value="linear">Linear (1+ reference load per sensor)</option>
+                  <option value="polynomial">Quadratic polynomial (2+ reference loads per sensor)</option>
+                </select>
+              </div>
+
+              {!connected && (
+                <div className="text-sm text-yellow-400 flex items-center space-x-2">
+                  <AlertTriangle size={16} />
+                  <span>Connect the {side} insole to capture calibration data.</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Fit preview */}
+          <div className="xl:col-span-2 space-y-6">
+            <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
+              <h2 className="text-xl font-medium mb-4 flex items-center justify-between">
+                <span>📐 Per-Sensor Curves</span>
+                <span className={`text-sm px-2 py-1 rounded-full ${
+                  savedProfile ? 'bg-green-900 text-green-100' : 'bg-yellow-900 text-yellow-100'
+                }`}>
+                  {savedProfile
+                    ? `Saved ${new Date(savedProfile.updatedAt).toLocaleString()}`
+                    : 'Uncalibrated - raw units'}
+                </span>
+              </h2>
+
+              {!zeroOffsets ? (
+                <div className="p-8 text-center text-gray-500">
+                  <Gauge className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p>Start by capturing the zero-load offsets</p>
+                  <p className="text-xs mt-1">Then add {requiredPoints} or more reference loads per sensor</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto max-h-96">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-800 text-gray-300 sticky top-0">
+                      <tr>
+                        <th className="text-left px-3 py-2 font-medium">Sensor</th>
+                        <th className="text-right px-3 py-2 font-medium">Zero (raw)</th>
+                        <th className="text-left px-3 py-2 font-medium">Reference points (raw → kPa)</th>
+                        <th className="text-left px-3 py-2 font-medium">Coefficients</th>
+                        <th className="text-right px-3 py-2 font-medium">R²</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {channelLabels.map((label, channel) => (
+                        <tr key={label} className="border-t border-gray-800">
+                          <td className="px-3 py-2 font-medium">{label}</td>
+                          <td className="px-3 py-2 text-right">{zeroOffsets[channel]}</td>
+                          <td className={`px-3 py-2 ${referencePoints[channel].length < requiredPoints ? 'text-yellow-400' : 'text-gray-300'}`}>
+                            {referencePoints[channel].length > 0
+                              ? referencePoints[channel].map(point => `${point.raw} → ${point.load}`).join(', ')
+                              : 'none'}
+                          </td>
+                          <td className="px-3 py-2 font-mono text-xs text-gray-400">
+                            {fittedCurves ? formatCoefficients(fittedCurves[channel]) : '—'}
+                          </td>
+                          <td className="px-3 py-2 text-right">{fittedCurves ? fittedCurves[channel].rSquared : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {fitError && (
+                <div className="mt-4 text-sm text-yellow-400 flex items-center space-x-2">
+                  <AlertTriangle size={16} />
+                  <span>{fitError}</span>
+                </div>
+              )}
+
+              <div className="mt-4 flex space-x-2">
+                <button
+                  onClick={saveProfile}
+                  disabled={!connected || !fittedCurves || isBusy}
+                  className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Save size={16} />
+                  <span>Save Calibration</span>
+                </button>
+                <button
+                  onClick={clearDraft}
+                  disabled={isBusy}
+                  className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                >
+                  <RotateCcw size={16} />
+                  <span>Start Over</span>
+                </button>
+                <button
+                  onClick={deleteProfile}
+                  disabled={!savedProfile || isBusy}
+                  className="bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Trash2 size={16} />
+                  <span>Delete</span>
+                </button>
+              </div>
+            </div>
+
+            <ConsoleViewer
+              logs={consoleLog}
+              isConnected={connected}
+              channelCount={sensorLayout.channelCount}
+            />
+          </div>
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-center space-x-4 pt-6 border-t border-gray-700">
+          <Link
+            to="/left-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            ← Left Sole
+          </Link>
+          <Link
+            to="/right-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            → Right Sole
+          </Link>
+          <Link
+            to="/bilateral"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            ⇄ Bilateral Capture
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationScreen;
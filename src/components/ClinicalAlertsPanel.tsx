@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertOctagon, AlertTriangle, Info } from 'lucide-react';
+import { AlertSeverity, TriggeredAlert, getSeverityLabel } from '../utils/AlertRules';
+
+interface ClinicalAlertsPanelProps {
+  alerts: TriggeredAlert[];
+  title: string;
+  emptyText?: string; // shown when nothing fired; the panel is hidden without it
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: 'text-blue-300 bg-blue-900 border-blue-700',
+  warning: 'text-yellow-400 bg-yellow-900 border-yellow-700',
+  critical: 'text-red-400 bg-red-900 border-red-700'
+};
+
+const SEVERITY_ICONS: Record<AlertSeverity, React.ElementType> = {
+  info: Info,
+  warning: AlertTriangle,
+  critical: AlertOctagon
+};
+
+// Alerts raised by the clinical rules, most severe first
+const ClinicalAlertsPanel: React.FC<ClinicalAlertsPanelProps> = ({ alerts, title, emptyText }) => {
+  if (alerts.length === 0 && !emptyText) return null;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="font-medium text-gray-300">🚨 {title}</div>
+      {alerts.length === 0 ? (
+        <div className="text-green-400 text-xs">{emptyText}</div>
+      ) : (
+        alerts.map(alert => {
+          const Icon = SEVERITY_ICONS[alert.severity];
+          return (
+            <div key={alert.ruleId} className={`p-2 rounded border bg-opacity-30 flex items-start space-x-2 ${SEVERITY_STYLES[alert.severity]}`}>
+              <Icon size={16} className="mt-0.5 flex-shrink-0" />
+              <div>
+                <div>
+                  <span className="font-medium">{getSeverityLabel(alert.severity)}:</span> {alert.message}
+                </div>
+                <div className="text-xs opacity-80">
+                  {alert.subjects.join(', ')} · {alert.value} {alert.unitLabel} (limit {alert.threshold})
+                </div>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default ClinicalAlertsPanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ClinicalMetrics } from '../utils/ClinicalMetrics';
+
+interface ClinicalMetricsPanelProps {
+  metrics: ClinicalMetrics;
+  unitLabel: string;
+}
+
+const formatValue = (value: number | null, suffix = '') => (value !== null ? `${value}${suffix}` : '—');
+
+// Regional loading and per-sensor statistics of a finished measurement
+const ClinicalMetricsPanel: React.FC<ClinicalMetricsPanelProps> = ({ metrics, unitLabel }) => (
+  <div className="space-y-2 mb-4 pt-3 border-t border-gray-700 text-sm">
+    <div className="font-medium text-gray-300">🩺 Clinical Metrics</div>
+    <div className="flex justify-between">
+      <span className="text-gray-400">Peak Pressure:</span>
+      <span>{metrics.peakPressure ? `${metrics.peakPressure.channel} – ${metrics.peakPressure.value} ${unitLabel}` : '—'}</span>
+    </div>
+    <div className="flex justify-between">
+      <span className="text-gray-400">Forefoot / Rearfoot Ratio:</span>
+      <span>{formatValue(metrics.forefootRearfootRatio)}</span>
+    </div>
+
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-400">
+          <th className="text-left font-normal">Region</th>
+          <th className="text-right font-normal">Load</th>
+          <th className="text-right font-normal">Mean</th>
+          <th className="text-right font-normal">Peak</th>
+        </tr>
+      </thead>
+      <tbody>
+        {metrics.regions.map(region => (
+          <tr key={region.region} title={region.channels.join(', ')}>
+            <td>{region.label}</td>
+            <td className="text-right">{formatValue(region.loadPercent, '%')}</td>
+            <td className="text-right">{formatValue(region.mean)}</td>
+            <td className="text-right">{formatValue(region.peak)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <details className="text-xs">
+      <summary className="cursor-pointer text-gray-400 hover:text-gray-200">Per-sensor statistics</summary>
+      <table className="w-full mt-2">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left font-normal">Point</th>
+            <th className="text-right font-normal">Peak</th>
+            <th className="text-right font-normal">PTI</th>
+            <th className="text-right font-normal">SD</th>
+            <th className="text-right font-normal">CV</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.sensors.map(sensor => (
+            <tr key={sensor.channel}>
+              <td>{sensor.channel}</td>
+              <td className="text-right">{sensor.peak}</td>
+              <td className="text-right">{formatValue(sensor.pti)}</td>
+              <td className="text-right">{sensor.sd}</td>
+              <td className="text-right">{formatValue(sensor.cv, '%')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+
+    <div className="text-xs text-gray-500">
+      Values in {unitLabel}; PTI = pressure-time integral ({unitLabel}·s)
+      {metrics.durationSec !== null ? ` over ${metrics.durationSec} s` : ' - not available without a recorded duration'}
+    </div>
+  </div>
+);
+
+export default ClinicalMetricsPanel;
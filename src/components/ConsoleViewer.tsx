@@ -10,12 +10,14 @@ interface LogEntry {
 interface ConsoleViewerProps {
   logs: string[];
   isConnected?: boolean;
+  channelCount?: number;
   onAddLog?: (message: string, type?: LogEntry['type']) => void;
 }
 
 const ConsoleViewer: React.FC<ConsoleViewerProps> = ({ 
   logs, 
   isConnected = false,
+  channelCount = 8,
   onAddLog 
 }) => {
   const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
@@ -131,8 +133,8 @@ const ConsoleViewer: React.FC<ConsoleViewerProps> = ({
       const match = log.match(/PRESSURE_(?:LEFT|RIGHT):(.+)/);
       if (!match) return false;
       const values = match[1].split(',');
-      // Only check if we have 8 comma-separated values, don't validate individual numbers
-      return values.length === 8 && values.every(val => !isNaN(Number(val.trim())));
+      // Only check if we have one value per channel, don't validate individual numbers
+      return values.length === channelCount && values.every(val => !isNaN(Number(val.trim())));
     }
     return true; // All other logs are considered valid
   };
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import { SAMPLE_RATES_HZ } from '../utils/DeviceCommands';
+import { SoleSide } from '../utils/FrameDecoderRegistry';
+
+interface DeviceCommandsPanelProps {
+  bleManager: BLEManager;
+  side: SoleSide;
+  disabled: boolean;
+}
+
+// Manual device commands. Requests, acknowledgements and failures are all
+// logged to the console by the manager, so only the answers are shown here.
+const DeviceCommandsPanel: React.FC<DeviceCommandsPanelProps> = ({ bleManager, side, disabled }) => {
+  const [pending, setPending] = useState<string | null>(null);
+  const [sampleRate, setSampleRate] = useState(SAMPLE_RATES_HZ[0]);
+  const [firmwareVersion, setFirmwareVersion] = useState<string | null>(null);
+  const [batteryLevel, setBatteryLevel] = useState<number | null>(null);
+
+  const run = async (label: string, command: () => Promise<void>) => {
+    setPending(label);
+    try {
+      await command();
+    } catch {
+      // Reported on the console by the command channel
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded text-xs flex items-center space-x-1';
+  const isDisabled = disabled || pending !== null;
+
+  const renderButton = (label: string, command: () => Promise<void>) => (
+    <button onClick={() => run(label, command)} disabled={isDisabled} className={buttonClass}>
+      {pending === label && <Loader2 className="animate-spin" size={12} />}
+      <span>{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="space-y-2 bg-gray-800 p-3 rounded border border-gray-700 text-sm">
+      <div className="font-medium text-gray-300">🎛️ Device Commands</div>
+
+      <div className="flex flex-wrap gap-2">
+        {renderButton('Tare', () => bleManager.tare())}
+        {renderButton('Firmware Version', async () => setFirmwareVersion(await bleManager.getFirmwareVersion()))}
+        {renderButton('Battery', async () => setBatteryLevel(await bleManager.getBatteryLevel()))}
+        {renderButton(`Set Side ${side === 'left' ? 'L' : 'R'}`, () => bleManager.setDeviceSide(side))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <select
+          className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white text-xs"
+          onChange={(e) => setSampleRate(Number(e.target.value))}
+          disabled={isDisabled}
+          value={sampleRate}
+        >
+          {SAMPLE_RATES_HZ.map(rate => (
+            <option key={rate} value={rate}>{rate} Hz</option>
+          ))}
+        </select>
+        {renderButton('Set Sample Rate', () => bleManager.setSampleRate(sampleRate))}
+      </div>
+
+      {(firmwareVersion || batteryLevel !== null) && (
+        <div className="text-xs text-gray-400 flex space-x-4">
+          {firmwareVersion && <span>Firmware: <span className="text-white font-mono">{firmwareVersion}</span></span>}
+          {batteryLevel !== null && <span>Battery: <span className="text-white font-mono">{batteryLevel}%</span></span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeviceCommandsPanel;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Bluetooth, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import { SoleSide } from '../utils/FrameDecoderRegistry';
+import SimulatorControls from './SimulatorControls';
+import SerialConnectControls from './SerialConnectControls';
+import GatewayConnectControls from './GatewayConnectControls';
+import DeviceRegistryPanel from './DeviceRegistryPanel';
+
+interface DeviceConnectionCardProps {
+  side: SoleSide;
+  bleManager: BLEManager;
+  connected: boolean;
+  disabled: boolean;
+  sideWarning?: string | null;
+  onLog: (message: string) => void;
+}
+
+// Compact scan/connect panel for one insole, used where several connections share a screen
+const DeviceConnectionCard: React.FC<DeviceConnectionCardProps> = ({
+  side,
+  bleManager,
+  connected,
+  disabled,
+  sideWarning,
+  onLog
+}) => {
+  const [availableDevices, setAvailableDevices] = useState<BluetoothDevice[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [connectionError, setConnectionError] = useState('');
+
+  const sideLabel = side === 'left' ? 'Left' : 'Right';
+  const deviceInfo = bleManager.getDeviceInfo();
+
+  const scanForDevices = async () => {
+    setIsScanning(true);
+    setConnectionError('');
+    onLog(`[INFO] Scanning for ${sideLabel.toLowerCase()} insole...`);
+
+    try {
+      const devices = await bleManager.scanForDevices();
+      setAvailableDevices(devices);
+      onLog(`[INFO] Found ${devices.length} device(s) for ${sideLabel.toLowerCase()} insole`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      setConnectionError(errorMessage);
+      onLog(`[ERROR] ${sideLabel} insole scan failed: ${errorMessage}`);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const connectToDevice = async (device: BluetoothDevice) => {
+    setConnectionError('');
+    onLog(`[INFO] Connecting ${sideLabel.toLowerCase()} insole: ${device.name || 'Unknown Device'}...`);
+
+    try {
+      await bleManager.connect(device);
+      setAvailableDevices([]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Connection failed';
+      setConnectionError(errorMessage);
+      onLog(`[ERROR] ${sideLabel} insole connection failed: ${errorMessage}`);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-6 border border-gray-700 space-y-4">
+      <h2 className="text-xl font-medium flex items-center space-x-2">
+        <Bluetooth className="text-[#d32f2f]" size={20} />
+        <span>{sideLabel} Insole</span>
+      </h2>
+
+      {connected && deviceInfo ? (
+        <div className="flex items-center space-x-3 px-4 py-2 bg-green-900 bg-opacity-30 border border-green-700 rounded-lg">
+          <CheckCircle className="h-5 w-5 text-green-400" />
+          <div>
+            <span className="text-sm font-medium text-green-300">Connected</span>
+            <p className="text-xs text-green-400">{deviceInfo.name}</p>
+          </div>
+          <button
+            onClick={() => bleManager.disconnect()}
+            disabled={disabled}
+            className="ml-auto px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Disconnect
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={scanForDevices}
+          disabled={disabled || isScanning}
+          className="w-full bg-[#d32f2f] hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+        >
+          {isScanning ? (
+            <>
+              <Loader2 className="animate-spin" size={16} />
+              <span>Scanning...</span>
+            </>
+          ) : (
+            <>
+              <Bluetooth size={16} />
+              <span>Connect {sideLabel} Insole</span>
+            </>
+          )}
+        </button>
+      )}
+
+      {connected && sideWarning && (
+        <div className="text-sm text-yellow-400 bg-yellow-900 bg-opacity-30 p-3 rounded border border-yellow-700 flex items-center space-x-2">
+          <AlertTriangle size={16} />
+          <span>{sideWarning}</span>
+        </div>
+      )}
+
+      {connectionError && (
+        <div className="text-sm text-red-400 bg-red-900 bg-opacity-30 p-3 rounded border border-red-700">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle size={16} />
+            <span className="font-medium">Connection Error</span>
+          </div>
+          <div>{connectionError}</div>
+        </div>
+      )}
+
+      {availableDevices.length > 0 && !connected && (
+        <select
+          className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+          onChange={(e) => {
+            const device = availableDevices.find(d => d.id === e.target.value);
+            if (device) connectToDevice(device);
+          }}
+          disabled={disabled}
+          value=""
+        >
+          <option value="">Select a device...</option>
+          {availableDevices.map(device => (
+            <option key={device.id} value={device.id}>
+              {device.name || 'Unknown Device'} ({device.id.substring(0, 8)}...)
+            </option>
+          ))}
+        </select>
+      )}
+
+      <DeviceRegistryPanel
+        bleManager={bleManager}
+        side={side}
+        connected={connected}
+        disabled={disabled || isScanning}
+        onLog={onLog}
+      />
+
+      {!connected && <SerialConnectControls bleManager={bleManager} disabled={disabled || isScanning} onLog={onLog} />}
+
+      {!connected && <GatewayConnectControls bleManager={bleManager} side={side} disabled={disabled || isScanning} onLog={onLog} />}
+
+      {!connected && <SimulatorControls bleManager={bleManager} disabled={disabled} onLog={onLog} />}
+    </div>
+  );
+};
+
+export default DeviceConnectionCard;
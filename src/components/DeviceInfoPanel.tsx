@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertTriangle, BatteryFull, BatteryLow, BatteryMedium } from 'lucide-react';
+import { DeviceMetadata, LOW_BATTERY_PERCENT, getDeviceMetadataRows, isBatteryLow } from '../utils/DeviceInformation';
+
+interface DeviceInfoPanelProps {
+  metadata: DeviceMetadata;
+}
+
+// Battery and Device Information for one connected insole
+const DeviceInfoPanel: React.FC<DeviceInfoPanelProps> = ({ metadata }) => {
+  const { batteryLevel } = metadata;
+  const low = isBatteryLow(batteryLevel);
+  const BatteryIcon = batteryLevel === null || batteryLevel >= 60 ? BatteryFull : low ? BatteryLow : BatteryMedium;
+  const infoRows = getDeviceMetadataRows(metadata).filter(([label]) => label !== 'Battery');
+
+  return (
+    <div className="text-xs bg-gray-800 p-3 rounded space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-300">Device</span>
+        <span className={`flex items-center space-x-1 ${low ? 'text-red-400' : batteryLevel === null ? 'text-gray-500' : 'text-green-400'}`}>
+          <BatteryIcon size={14} />
+          <span>{batteryLevel !== null ? `${batteryLevel}%` : 'Battery unknown'}</span>
+        </span>
+      </div>
+
+      {batteryLevel !== null && (
+        <div className="w-full bg-gray-700 rounded-full h-1.5">
+          <div
+            className={`h-1.5 rounded-full ${low ? 'bg-red-500' : 'bg-green-500'}`}
+            style={{ width: `${batteryLevel}%` }}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {infoRows.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span className="text-gray-400">{label}:</span>
+            <span className="text-right truncate ml-2">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {low && (
+        <div className="text-red-400 flex items-center space-x-2">
+          <AlertTriangle size={14} />
+          <span>Battery below {LOW_BATTERY_PERCENT}% - charge the insole before starting a measurement</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeviceInfoPanel;
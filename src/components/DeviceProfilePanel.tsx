@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, Trash2, Upload } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import DeviceProfileStore, {
+  BUILT_IN_DEVICE_PROFILES,
+  DeviceProfile,
+  downloadDeviceProfiles,
+  getActiveProfileId,
+  isBuiltInProfile,
+  parseDeviceProfiles,
+  setActiveProfileId
+} from '../utils/DeviceProfiles';
+
+interface DeviceProfilePanelProps {
+  managers: BLEManager[]; // every insole the screen connects - they share one profile
+  disabled: boolean;
+  onLog: (message: string) => void;
+  onProfileChange?: (profile: DeviceProfile) => void;
+}
+
+// Vendor GATT profile selection with JSON import/export
+const DeviceProfilePanel: React.FC<DeviceProfilePanelProps> = ({ managers, disabled, onLog, onProfileChange }) => {
+  const profileStore = useRef(new DeviceProfileStore());
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [profiles, setProfiles] = useState<DeviceProfile[]>(BUILT_IN_DEVICE_PROFILES);
+  const [activeProfile, setActiveProfile] = useState<DeviceProfile>(managers[0].getDeviceProfile());
+
+  // Kept in refs so the mount-time restore does not re-run when the screen re-renders
+  const managersRef = useRef(managers);
+  const onProfileChangeRef = useRef(onProfileChange);
+  managersRef.current = managers;
+  onProfileChangeRef.current = onProfileChange;
+
+  const applyProfile = useCallback((profile: DeviceProfile) => {
+    managersRef.current.forEach(manager => manager.setDeviceProfile(profile));
+    setActiveProfileId(profile.id);
+    setActiveProfile(profile);
+    onProfileChangeRef.current?.(profile);
+  }, []);
+
+  const loadProfiles = useCallback(async (): Promise<DeviceProfile[]> => {
+    try {
+      const list = await profileStore.current.list();
+      setProfiles(list);
+      return list;
+    } catch (error) {
+      console.error('Error loading device profiles:', error);
+      return BUILT_IN_DEVICE_PROFILES;
+    }
+  }, []);
+
+  // Restore the remembered profile, unless an insole is already connected with another one
+  useEffect(() => {
+    const restoreProfile = async () => {
+      const list = await loadProfiles();
+      const remembered = list.find(profile => profile.id === getActiveProfileId());
+      const current = managersRef.current;
+      if (remembered && remembered.id !== current[0].getDeviceProfile().id && !current.some(manager => manager.isConnected())) {
+        applyProfile(remembered);
+      }
+    };
+
+    restoreProfile();
+  }, [applyProfile, loadProfiles]);
+
+  const selectProfile = (profileId: string) => {
+    const profile = profiles.find(option => option.id === profileId);
+    if (!profile) return;
+    applyProfile(profile);
+    onLog(`[INFO] Device profile set to ${profile.name}`);
+  };
+
+  const importProfiles = async (file: File) => {
+    try {
+      const imported = parseDeviceProfiles(await file.text());
+      for (const profile of imported) {
+        await profileStore.current.save(profile);
+      }
+      await loadProfiles();
+      onLog(`[INFO] Imported ${imported.length} device profile(s): ${imported.map(profile => profile.name).join(', ')}`);
+      if (imported.length === 1) {
+        applyProfile(imported[0]);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Could not read profile file';
+      onLog(`[ERROR] Profile import failed: ${errorMessage}`);
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!confirm(`Delete the device profile "${activeProfile.name}"?`)) return;
+
+    try {
+      await profileStore.current.delete(activeProfile.id);
+      onLog(`[INFO] Device profile ${activeProfile.name} deleted`);
+      applyProfile(BUILT_IN_DEVICE_PROFILES[0]);
+      await loadProfiles();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      onLog(`[ERROR] Could not delete profile: ${errorMessage}`);
+    }
+  };
+
+  const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded text-xs flex items-center space-x-1';
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-300">Device Profile</label>
+      <select
+        className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+        onChange={(e) => selectProfile(e.target.value)}
+        disabled={disabled}
+        value={activeProfile.id}
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}{isBuiltInProfile(profile.id) ? '' : ' (imported)'}
+          </option>
+        ))}
+      </select>
+      <div className="text-xs text-gray-400">{activeProfile.description}</div>
+
+      <div className="flex space-x-2">
+        <button onClick={() => fileInput.current?.click()} disabled={disabled} className={buttonClass}>
+          <Upload size={12} />
+          <span>Import JSON</span>
+        </button>
+        <button onClick={() => downloadDeviceProfiles([activeProfile])} className={buttonClass}>
+          <Download size={12} />
+          <span>Export</span>
+        </button>
+        {!isBuiltInProfile(activeProfile.id) && (
+          <button onClick={deleteProfile} disabled={disabled} className={buttonClass}>
+            <Trash2 size={12} />
+            <span>Delete</span>
+          </button>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importProfiles(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DeviceProfilePanel;
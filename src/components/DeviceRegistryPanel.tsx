@@ -0,0 +1,212 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2, Pencil, Trash2 } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import { SoleSide } from '../utils/FrameDecoderRegistry';
+import DeviceRegistry, {
+  RegisteredDevice,
+  getDeviceDisplayName,
+  getPermittedDevices,
+  getSideLabel
+} from '../utils/DeviceRegistry';
+
+interface DeviceRegistryPanelProps {
+  bleManager: BLEManager;
+  side: SoleSide;
+  connected: boolean;
+  disabled: boolean;
+  onLog: (message: string) => void;
+  onConnected?: () => void;
+}
+
+// Remembered insoles: one-click reconnect where the browser still has permission,
+// friendly names and the foot each insole belongs to
+const DeviceRegistryPanel: React.FC<DeviceRegistryPanelProps> = ({ bleManager, side, connected, disabled, onLog, onConnected }) => {
+  const registry = useRef(new DeviceRegistry());
+  const [devices, setDevices] = useState<RegisteredDevice[]>([]);
+  const [permitted, setPermitted] = useState<Map<string, BluetoothDevice>>(new Map());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [connectingId, setConnectingId] = useState<string | null>(null);
+
+  const connectedId = connected ? bleManager.getDevice()?.id : undefined;
+
+  const loadDevices = useCallback(async () => {
+    try {
+      const [registered, permittedDevices] = await Promise.all([registry.current.list(), getPermittedDevices()]);
+      // This screen's insoles first, then unassigned ones, then the other foot
+      const rank = (device: RegisteredDevice) => (device.side === side ? 0 : device.side === null ? 1 : 2);
+      setDevices([...registered].sort((a, b) => rank(a) - rank(b)));
+      setPermitted(new Map(permittedDevices.map(device => [device.id, device])));
+    } catch (error) {
+      console.error('Error loading device registry:', error);
+    }
+  }, [side]);
+
+  // Reload after every connect, which may have added or refreshed an entry
+  useEffect(() => {
+    loadDevices();
+  }, [connected, loadDevices]);
+
+  const connectDevice = async (device: RegisteredDevice) => {
+    const bluetoothDevice = permitted.get(device.deviceId);
+    if (!bluetoothDevice) return;
+
+    setConnectingId(device.deviceId);
+    onLog(`[INFO] Reconnecting remembered insole ${getDeviceDisplayName(device)}...`);
+    try {
+      await bleManager.connect(bluetoothDevice);
+      onConnected?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Connection failed';
+      onLog(`[ERROR] Could not reconnect ${getDeviceDisplayName(device)}: ${errorMessage}`);
+    } finally {
+      setConnectingId(null);
+    }
+  };
+
+  const updateDevice = async (action: string, change: () => Promise<RegisteredDevice | null>) => {
+    try {
+      const updated = await change();
+      if (updated && updated.deviceId === connectedId) {
+        await bleManager.reloadRegisteredDevice();
+      }
+      await loadDevices();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      onLog(`[ERROR] Could not ${action}: ${errorMessage}`);
+    }
+  };
+
+  const saveName = async (device: RegisteredDevice) => {
+    setEditingId(null);
+    if (draftName.trim() === device.friendlyName) return;
+    await updateDevice('rename insole', async () => {
+      const updated = await registry.current.rename(device.deviceId, draftName);
+      onLog(`[INFO] Insole ${device.bluetoothName || device.deviceId} renamed to "${updated ? getDeviceDisplayName(updated) : draftName}"`);
+      return updated;
+    });
+  };
+
+  const changeSide = async (device: RegisteredDevice, newSide: SoleSide | null) => {
+    await updateDevice('change insole side', async () => {
+      const updated = await registry.current.setSide(device.deviceId, newSide);
+      onLog(`[INFO] ${getDeviceDisplayName(device)} assigned to ${getSideLabel(newSide).toLowerCase()} side`);
+      return updated;
+    });
+  };
+
+  const forgetDevice = async (device: RegisteredDevice) => {
+    if (!confirm(`Forget ${getDeviceDisplayName(device)}? It will have to be picked from the Bluetooth chooser again.`)) return;
+
+    await updateDevice('forget insole', async () => {
+      await registry.current.delete(device.deviceId);
+      // Also revoke the browser permission where supported
+      const bluetoothDevice = permitted.get(device.deviceId) as (BluetoothDevice & { forget?: () => Promise<void> }) | undefined;
+      if (bluetoothDevice?.forget) {
+        await bluetoothDevice.forget().catch((error: unknown) => console.warn('Could not revoke device permission:', error));
+      }
+      onLog(`[INFO] Forgot insole ${getDeviceDisplayName(device)}`);
+      return null;
+    });
+  };
+
+  if (devices.length === 0) {
+    return (
+      <div className="text-xs text-gray-400 bg-gray-800 p-3 rounded">
+        📇 No remembered insoles yet - insoles are added here after their first connection.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 bg-gray-800 p-3 rounded border border-gray-700 text-sm">
+      <div className="font-medium text-gray-300">📇 Remembered Insoles</div>
+
+      {devices.map(device => {
+        const isConnected = device.deviceId === connectedId;
+        const canReconnect = !connected && permitted.has(device.deviceId);
+        const sideClass = device.side === side
+          ? 'text-green-400'
+          : device.side === null ? 'text-gray-400' : 'text-yellow-400';
+
+        return (
+          <div key={device.deviceId} className={`p-2 rounded border ${isConnected ? 'border-green-700' : 'border-gray-700'} space-y-1`}>
+            <div className="flex items-center justify-between space-x-2">
+              {editingId === device.deviceId ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => saveName(device)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  placeholder={device.bluetoothName || 'Friendly name'}
+                  className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-0.5 text-white text-sm"
+                />
+              ) : (
+                <span className="flex-1 min-w-0 truncate text-white">
+                  {getDeviceDisplayName(device)}
+                  {isConnected && <span className="text-green-400 text-xs ml-2">connected</span>}
+                </span>
+              )}
+              <button
+                onClick={() => {
+                  setEditingId(device.deviceId);
+                  setDraftName(device.friendlyName);
+                }}
+                disabled={disabled}
+                title="Rename"
+                className="text-gray-400 hover:text-white disabled:opacity-50"
+              >
+                <Pencil size={12} />
+              </button>
+              <button
+                onClick={() => forgetDevice(device)}
+                disabled={disabled || isConnected}
+                title="Forget"
+                className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between text-xs space-x-2">
+              <span className="text-gray-500 truncate">
+                {device.bluetoothName || 'Unnamed'} · {device.deviceId.substring(0, 8)}... · {new Date(device.lastConnectedAt).toLocaleDateString()}
+              </span>
+              <select
+                className={`bg-gray-900 border border-gray-600 rounded px-1 py-0.5 ${sideClass}`}
+                onChange={(e) => changeSide(device, e.target.value === '' ? null : e.target.value as SoleSide)}
+                disabled={disabled}
+                value={device.side ?? ''}
+              >
+                <option value="left">Left</option>
+                <option value="right">Right</option>
+                <option value="">Unassigned</option>
+              </select>
+            </div>
+
+            {canReconnect && (
+              <button
+                onClick={() => connectDevice(device)}
+                disabled={disabled || connectingId !== null}
+                className="w-full px-2 py-1 bg-[#d32f2f] hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded text-xs flex items-center justify-center space-x-1"
+              >
+                {connectingId === device.deviceId && <Loader2 className="animate-spin" size={12} />}
+                <span>Connect{device.side && device.side !== side ? ` (${device.side} insole)` : ''}</span>
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {!connected && permitted.size === 0 && (
+        <div className="text-xs text-gray-500">This browser cannot reconnect remembered insoles directly - use Scan to pick one.</div>
+      )}
+    </div>
+  );
+};
+
+export default DeviceRegistryPanel;
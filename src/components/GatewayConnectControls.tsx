@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Loader2, Network } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import { SoleSide } from '../utils/FrameDecoderRegistry';
+import { getGatewayUrl, setGatewayUrl, validateGatewayUrl } from '../utils/WebSocketTransport';
+
+interface GatewayConnectControlsProps {
+  bleManager: BLEManager;
+  side: SoleSide;
+  disabled: boolean;
+  onLog: (message: string) => void;
+  onConnected?: () => void;
+}
+
+// Connection through a local gateway process that relays the insole over WebSocket
+const GatewayConnectControls: React.FC<GatewayConnectControlsProps> = ({ bleManager, side, disabled, onLog, onConnected }) => {
+  const [url, setUrl] = useState(getGatewayUrl(side));
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const connectGateway = async () => {
+    setIsConnecting(true);
+
+    try {
+      const gatewayUrl = validateGatewayUrl(url);
+      setGatewayUrl(side, gatewayUrl);
+      onLog(`[INFO] Connecting to gateway ${gatewayUrl}...`);
+      await bleManager.connectGateway(gatewayUrl);
+      onConnected?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Gateway connection failed';
+      onLog(`[ERROR] Gateway connection failed: ${errorMessage}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 bg-gray-800 p-3 rounded border border-gray-700">
+      <label className="block text-sm font-medium text-gray-300 flex items-center space-x-2">
+        <Network size={14} />
+        <span>Or connect through a gateway</span>
+      </label>
+      <div className="flex space-x-2">
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') connectGateway();
+          }}
+          disabled={disabled || isConnecting}
+          placeholder="ws://localhost:8765/left"
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+        />
+        <button
+          onClick={connectGateway}
+          disabled={disabled || isConnecting || !url.trim()}
+          className="px-3 py-1 bg-blue-700 hover:bg-blue-800 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded text-sm flex items-center space-x-1"
+        >
+          {isConnecting && <Loader2 className="animate-spin" size={14} />}
+          <span>Connect Gateway</span>
+        </button>
+      </div>
+      <div className="text-xs text-gray-400">For PCs without Web Bluetooth. Run "npm run gateway" for a local stand-in.</div>
+    </div>
+  );
+};
+
+export default GatewayConnectControls;
@@ -1,16 +1,36 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { SensorLayout, SensorPoint } from '../utils/SensorLayouts';
+import { PRESSURE_SCALE_MAX, pressureScaleGradient } from '../utils/ColorScale';
+import { PressureUnit, getPressureUnitLabel } from '../utils/Calibration';
+import PressureFieldCanvas from './PressureFieldCanvas';
+
+export type HeatmapViewMode = 'dots' | 'field';
 
 interface HeatmapVisualizationProps {
   pressureValues: number[];
   soleType: 'left' | 'right';
   isRecording: boolean;
+  sensorLayout: SensorLayout;
+  pressureUnit: PressureUnit;
+  defaultViewMode?: HeatmapViewMode;
+  copTrajectory?: SensorPoint[]; // center-of-pressure path, last point = current COP
+  mirrored?: boolean; // flip the artwork so a right foot reads as a right foot next to a left one
+  highlightedChannels?: number[]; // channel indices outlined in yellow
 }
 
 const HeatmapVisualization: React.FC<HeatmapVisualizationProps> = ({
   pressureValues,
   soleType,
-  isRecording
+  isRecording,
+  sensorLayout,
+  pressureUnit,
+  defaultViewMode = 'dots',
+  copTrajectory = [],
+  mirrored = false,
+  highlightedChannels = []
 }) => {
+  const [viewMode, setViewMode] = useState<HeatmapViewMode>(defaultViewMode);
+
   const getPressureColor = (value: number): string => {
     if (value === 0) return '#374151'; // Gray for no pressure
     if (value <= 50) return '#00BCD4';   // Cool blue
@@ -20,85 +40,132 @@ const HeatmapVisualization: React.FC<HeatmapVisualizationProps> = ({
     return '#F44336';                    // Hot red
   };
 
+  // Shrink markers on dense layouts so neighbouring sensors don't overlap
+  const markerScale = Math.min(1, Math.sqrt(8 / sensorLayout.channelCount));
+
   const getPressureSize = (value: number): number => {
-    const minSize = 20;
-    const maxSize = 40;
+    const minSize = 20 * markerScale;
+    const maxSize = 40 * markerScale;
     const normalizedValue = Math.min(value / 250, 1); // Normalize to 0-1
     return minSize + (normalizedValue * (maxSize - minSize));
   };
 
-  // Pressure point coordinates for left sole (mirrored for right)
-const leftSolePoints = [
-  { x: 27.6, y: 26.7 },  // P1
-  { x: 48.6, y: 26.7 },  // P2
-  { x: 30.5, y: 45.5 },  // P3
-  { x: 58.0, y: 37.1 },  // P4
-  { x: 30.1, y: 59.8 },  // P5
-  { x: 55.0, y: 49.6 },  // P6
-  { x: 35.3, y: 75.3 },  // P7
-  { x: 51.0, y: 62.0 }   // P8
-];
-
-// Mirror X-coordinates across vertical center for right sole (768px width)
-const rightSolePoints = [
-  { x: 27.6, y: 26.7 },  // P1
-  { x: 48.6, y: 26.7 },  // P2
-  { x: 30.5, y: 45.5 },  // P3
-  { x: 58.0, y: 37.1 },  // P4
-  { x: 30.1, y: 59.8 },  // P5
-  { x: 55.0, y: 49.6 },  // P6
-  { x: 35.3, y: 75.3 },  // P7
-  { x: 51.0, y: 62.0 }   // P8
-];
-
-  const points = soleType === 'left' ? leftSolePoints : rightSolePoints;
+  // Layout coordinates are normalized to the sole image, which is identical for both sides
+  const points = sensorLayout.points;
+  const displayX = (x: number) => (mirrored ? 1 - x : x);
 
   return (
     <div className="relative w-full max-w-md mx-auto">
-      {/* Foot sole image */}
-      <div className="relative">
-        <img 
-          src={`/${soleType}_sole.png`}
-          alt={`${soleType} sole`}
-          className="w-full h-auto opacity-90"
-        />
-        
-        {/* Pressure points overlay */}
-        <div className="absolute inset-0">
-          {points.map((point, index) => (
-            <div
-              key={index}
-              className={`absolute rounded-full border-2 border-white shadow-lg transition-all duration-300 ${
-                isRecording ? 'animate-pulse' : ''
+      {/* View mode toggle */}
+      <div className="flex justify-end mb-3" data-html2canvas-ignore="true">
+        <div className="inline-flex rounded overflow-hidden border border-gray-600 text-xs">
+          {(['dots', 'field'] as HeatmapViewMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              className={`px-3 py-1 transition-colors ${
+                viewMode === mode ? 'bg-[#d32f2f] text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
               }`}
-              style={{
-                left: `${point.x}%`,
-                top: `${point.y}%`,
-                width: `${getPressureSize(pressureValues[index] || 0)}px`,
-                height: `${getPressureSize(pressureValues[index] || 0)}px`,
-                backgroundColor: getPressureColor(pressureValues[index] || 0),
-                transform: 'translate(-50%, -50%)',
-                opacity: pressureValues[index] > 0 ? 0.8 : 0.3
-              }}
             >
-              {/* Pressure value label */}
-              <div className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs font-bold text-white bg-black bg-opacity-50 px-1 rounded">
-                {pressureValues[index] || 0}
-              </div>
-            </div>
+              {mode === 'dots' ? 'Sensor Dots' : 'Pressure Field'}
+            </button>
           ))}
         </div>
       </div>
 
+      <div className="relative">
+        {viewMode === 'field' ? (
+          <div className={mirrored ? '-scale-x-100' : ''}>
+            <PressureFieldCanvas
+              pressureValues={pressureValues}
+              soleType={soleType}
+              sensorLayout={sensorLayout}
+            />
+          </div>
+        ) : (
+          <div className="relative">
+            <img 
+              src={`/${soleType}_sole.png`}
+              alt={`${soleType} sole`}
+              className={`w-full h-auto opacity-90 ${mirrored ? '-scale-x-100' : ''}`}
+            />
+        
+            {/* Pressure points overlay */}
+            <div className="absolute inset-0">
+              {points.map((point, index) => (
+                <div
+                  key={index}
+                  className={`absolute rounded-full border-2 shadow-lg transition-all duration-300 ${
+                    highlightedChannels.includes(index) ? 'border-yellow-400 ring-2 ring-yellow-400' : 'border-white'
+                  } ${isRecording ? 'animate-pulse' : ''}`}
+                  style={{
+                    left: `${displayX(point.x) * 100}%`,
+                    top: `${point.y * 100}%`,
+                    width: `${getPressureSize(pressureValues[index] || 0)}px`,
+                    height: `${getPressureSize(pressureValues[index] || 0)}px`,
+                    backgroundColor: getPressureColor(pressureValues[index] || 0),
+                    transform: 'translate(-50%, -50%)',
+                    opacity: pressureValues[index] > 0 ? 0.8 : 0.3
+                  }}
+                >
+                  {/* Pressure value label */}
+                  {sensorLayout.channelCount <= 16 && (
+                    <div className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs font-bold text-white bg-black bg-opacity-50 px-1 rounded">
+                      {pressureValues[index] || 0}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Center of pressure trajectory overlay (viewBox matches the 2:3 sole artwork) */}
+        {copTrajectory.length > 0 && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 150"
+            preserveAspectRatio="none"
+          >
+            <polyline
+              points={copTrajectory.map(point => `${displayX(point.x) * 100},${point.y * 150}`).join(' ')}
+              fill="none"
+              stroke="#ffffff"
+              strokeWidth={1.5}
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+              opacity={0.9}
+            />
+            <circle
+              cx={displayX(copTrajectory[copTrajectory.length - 1].x) * 100}
+              cy={copTrajectory[copTrajectory.length - 1].y * 150}
+              r={1.8}
+              fill="#d32f2f"
+              stroke="#ffffff"
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+      </div>
+
       {/* Color legend */}
       <div className="mt-6 flex items-center justify-between">
-        <div className="text-sm font-medium">Pressure (kPa)</div>
+        <div className="text-sm font-medium">
+          {pressureUnit === 'kPa' ? 'Pressure (kPa)' : (
+            <span>Pressure <span className="text-yellow-400">(raw ADC counts, uncalibrated)</span></span>
+          )}
+        </div>
         <div className="flex items-center space-x-1">
           <div className="text-xs">0</div>
           <div className="flex flex-col space-y-1">
-            <div className="w-4 h-2 bg-gradient-to-r from-[#00BCD4] via-[#4CAF50] via-[#FFEB3B] via-[#FF9800] to-[#F44336]"></div>
+            {viewMode === 'field' ? (
+              <div className="w-24 h-2 rounded-sm" style={{ background: pressureScaleGradient() }}></div>
+            ) : (
+              <div className="w-4 h-2 bg-gradient-to-r from-[#00BCD4] via-[#4CAF50] via-[#FFEB3B] via-[#FF9800] to-[#F44336]"></div>
+            )}
           </div>
-          <div className="text-xs">225+</div>
+          <div className="text-xs">{PRESSURE_SCALE_MAX}+</div>
         </div>
       </div>
 
@@ -113,11 +180,11 @@ const rightSolePoints = [
       )}
 
       {/* Pressure point labels */}
-      <div className="mt-4 grid grid-cols-4 gap-2 text-xs">
-        {pressureValues.map((value, index) => (
+      <div className={`mt-4 grid ${sensorLayout.channelCount > 16 ? 'grid-cols-8' : 'grid-cols-4'} gap-2 text-xs`}>
+        {points.map((_, index) => (
           <div key={index} className="text-center">
             <div className="font-medium">P{index + 1}</div>
-            <div className="text-gray-400">{value || 0} kPa</div>
+            <div className="text-gray-400">{pressureValues[index] || 0} {getPressureUnitLabel(pressureUnit)}</div>
           </div>
         ))}
       </div>
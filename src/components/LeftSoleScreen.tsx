@@ -15,25 +15,74 @@ import {
   WifiOff,
   Loader2
 } from 'lucide-react';
-import BLEManager from '../utils/BLEManager';
+import { getBLEManager, releaseBLEManager } from '../utils/BLEConnectionPool';
+import { ConnectionState } from '../utils/BLEManager';
 import HeatmapVisualization from './HeatmapVisualization';
 import ConsoleViewer from './ConsoleViewer';
 import ExportManager from '../utils/ExportManager';
-
-interface PressureData {
-  timestamp: string;
-  values: number[];
-}
+import { DecoderSelection, PressureFrame } from '../utils/FrameDecoderRegistry';
+import {
+  SENSOR_LAYOUTS,
+  SensorLayout,
+  createEmptyFrame,
+  describeFrameFormat,
+  getSensorLayout
+} from '../utils/SensorLayouts';
+import { CopSample, SwayMetrics } from '../utils/CenterOfPressure';
+import { ClinicalMetrics, computeSessionMetrics } from '../utils/ClinicalMetrics';
+import SessionStore, { PressureData, SessionRecord, createSessionId } from '../utils/SessionStore';
+import { Patient, formatPatientLabel } from '../utils/PatientStore';
+import PatientSelector from './PatientSelector';
+import { CalibrationSummary, PressureUnit, getPressureUnitLabel, summarizeCalibration } from '../utils/Calibration';
+import {
+  DEFAULT_PROTOCOL,
+  MEASUREMENT_PROTOCOLS,
+  MeasurementProtocol,
+  ProtocolState,
+  describeProtocol,
+  getMeasurementProtocol,
+  getProtocolDurationSec,
+  getProtocolPhaseLabel,
+  summarizeProtocol
+} from '../utils/MeasurementProtocols';
+import MeasurementSession, { MeasurementResult } from '../utils/MeasurementSession';
+import { describeDataGaps, formatDataGap, getMissingRecordingSec } from '../utils/DataGaps';
+import { LinkQualityStats, assessLinkQuality, describeLinkQuality } from '../utils/LinkQuality';
+import LinkQualityPanel from './LinkQualityPanel';
+import ClinicalMetricsPanel from './ClinicalMetricsPanel';
+import SimulatorControls from './SimulatorControls';
+import SerialConnectControls from './SerialConnectControls';
+import GatewayConnectControls from './GatewayConnectControls';
+import StreamCapturePanel from './StreamCapturePanel';
+import DeviceCommandsPanel from './DeviceCommandsPanel';
+import DeviceInfoPanel from './DeviceInfoPanel';
+import DeviceRegistryPanel from './DeviceRegistryPanel';
+import DeviceProfilePanel from './DeviceProfilePanel';
+import { DeviceMetadata, describeDeviceMetadata, isBatteryLow } from '../utils/DeviceInformation';
+import { DeviceProfile } from '../utils/DeviceProfiles';
+import { isSerialSupported } from '../utils/SerialTransport';
+import AlertRuleStore from '../utils/AlertRuleStore';
+import { AlertRule, TriggeredAlert, evaluateAlertRules, evaluateSessionAlerts, formatAlert, mergeAlerts } from '../utils/AlertRules';
+import ClinicalAlertsPanel from './ClinicalAlertsPanel';
+import PressureTimelineChart from './PressureTimelineChart';
+import PlaybackControls from './PlaybackControls';
+import { findPeakFrames } from '../utils/PressureTimeline';
 
 const LeftSoleScreen: React.FC = () => {
-  const [bleConnected, setBleConnected] = useState(false);
+  // Shared with the other screens so the connection survives navigation
+  const bleManager = useRef(getBLEManager('left'));
+  const [bleConnected, setBleConnected] = useState(bleManager.current.isConnected());
+  const [connectionState, setConnectionState] = useState<ConnectionState>(bleManager.current.getConnectionState());
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [availableDevices, setAvailableDevices] = useState<BluetoothDevice[]>([]);
-  const [selectedDevice, setSelectedDevice] = useState<BluetoothDevice | null>(null);
+  const [selectedDevice, setSelectedDevice] = useState<BluetoothDevice | null>(bleManager.current.getDevice());
   const [isRecording, setIsRecording] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(20);
+  const [protocol, setProtocol] = useState<MeasurementProtocol>(DEFAULT_PROTOCOL);
+  const [protocolState, setProtocolState] = useState<ProtocolState | null>(null);
   const [pressureData, setPressureData] = useState<PressureData[]>([]);
-  const [currentPressures, setCurrentPressures] = useState<number[]>(Array(8).fill(0));
-  const [averagePressures, setAveragePressures] = useState<number[]>(Array(8).fill(0));
+  const [sensorLayout, setSensorLayout] = useState<SensorLayout>(bleManager.current.getSensorLayout());
+  const [currentPressures, setCurrentPressures] = useState<number[]>(createEmptyFrame(sensorLayout));
+  const [averagePressures, setAveragePressures] = useState<number[]>(createEmptyFrame(sensorLayout));
   const [consoleLog, setConsoleLog] = useState<string[]>([]);
   const [doctorNotes, setDoctorNotes] = useState('');
   const [testCompleted, setTestCompleted] = useState(false);
@@ -41,18 +90,67 @@ const LeftSoleScreen: React.FC = () => {
   const [averagePressure, setAveragePressure] = useState(0);
   const [isScanning, setIsScanning] = useState(false);
   const [connectionError, setConnectionError] = useState<string>('');
+  const [copTrajectory, setCopTrajectory] = useState<CopSample[]>([]);
+  const [swayMetrics, setSwayMetrics] = useState<SwayMetrics | null>(null);
+  const [clinicalMetrics, setClinicalMetrics] = useState<ClinicalMetrics | null>(null);
+  const [decoderSelection, setDecoderSelection] = useState<DecoderSelection>(bleManager.current.getDecoderSelection());
+  const [currentSession, setCurrentSession] = useState<SessionRecord | null>(null);
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [pressureUnit, setPressureUnit] = useState<PressureUnit>(bleManager.current.getPressureUnit());
+  const [linkQuality, setLinkQuality] = useState<LinkQualityStats | null>(null);
+  const [deviceMetadata, setDeviceMetadata] = useState<DeviceMetadata>(bleManager.current.getDeviceMetadata());
+  const [sideWarning, setSideWarning] = useState<string | null>(bleManager.current.getSideWarning());
+  const [deviceProfile, setDeviceProfile] = useState<DeviceProfile>(bleManager.current.getDeviceProfile());
+  const [liveAlerts, setLiveAlerts] = useState<TriggeredAlert[]>([]);
+  const [timelineCursor, setTimelineCursor] = useState<number | null>(null); // sample shown instead of the averages
   
-  const bleManager = useRef(new BLEManager());
   const exportManager = useRef(new ExportManager());
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const sessionStore = useRef(new SessionStore());
+  const alertRuleStore = useRef(new AlertRuleStore());
+  const alertRules = useRef<AlertRule[]>([]);
+  const liveAlertsRef = useRef<TriggeredAlert[]>([]);
+  const measurementPatient = useRef<Patient | null>(null);
+  const measurementCalibration = useRef<{ unit: PressureUnit; summary: CalibrationSummary | null }>({ unit: 'raw', summary: null });
+  const measurementRef = useRef<MeasurementSession | null>(null);
+
+  // Rules with the patient's overrides applied; fixed for the duration of a measurement
+  useEffect(() => {
+    alertRuleStore.current.getEffectiveRules(patient?.id ?? null)
+      .then(rules => {
+        alertRules.current = rules;
+      })
+      .catch(error => console.error('Failed to load alert rules:', error));
+  }, [patient]);
 
   useEffect(() => {
-    const handleDataReceived = (data: number[]) => {
+    // Peak rules are checked on every recording-phase frame and mean rules on the running average;
+    // sway rules need the finished measurement
+    const checkLiveAlerts = (data: number[]) => {
+      const alerts = evaluateAlertRules(alertRules.current, {
+        sensorLayout: bleManager.current.getSensorLayout(),
+        pressureUnit: bleManager.current.getPressureUnit(),
+        peaks: data,
+        means: measurementRef.current?.getRunningAverages() ?? null,
+        sway: null,
+        symmetry: null
+      });
+      if (alerts.length === 0) return;
+
+      alerts
+        .filter(alert => !liveAlertsRef.current.some(existing => existing.ruleId === alert.ruleId))
+        .forEach(alert => setConsoleLog(prev => [...prev, `[WARNING] Alert: ${formatAlert(alert)}`]));
+      liveAlertsRef.current = mergeAlerts(liveAlertsRef.current, alerts);
+      setLiveAlerts(liveAlertsRef.current);
+    };
+
+    const handleDataReceived = (data: number[], receivedAt: number, frame: PressureFrame) => {
       const timestamp = new Date().toLocaleTimeString();
-      const newData: PressureData = { timestamp, values: data };
-      
-      setPressureData(prev => [...prev, newData]);
       setCurrentPressures(data);
+      setLinkQuality(bleManager.current.getLinkQuality());
+      measurementRef.current?.addSample(data, receivedAt, frame);
+      if (measurementRef.current?.getState()?.phase === 'recording') {
+        checkLiveAlerts(data);
+      }
       
       const logEntry = `[${timestamp}] PRESSURE_LEFT: ${data.join(',')}`;
       setConsoleLog(prev => [...prev, logEntry]);
@@ -74,23 +172,56 @@ const LeftSoleScreen: React.FC = () => {
         }
       } else {
         setConsoleLog(prev => [...prev, '[INFO] ESP32 device disconnected']);
+        if (measurementRef.current?.isRunning()) {
+          setConsoleLog(prev => [...prev, '[WARNING] Could not reconnect - ending the measurement early']);
+          measurementRef.current.stop();
+        }
       }
     };
 
+    const handleConnectionStateChange = (state: ConnectionState, attempt: number) => {
+      setConnectionState(state);
+      setReconnectAttempt(attempt);
+      if (state === 'reconnecting') {
+        measurementRef.current?.markLinkLost();
+      }
+    };
+
+    const handleCalibrationChange = () => {
+      setPressureUnit(bleManager.current.getPressureUnit());
+    };
+
+    // Replays switch to the capture's layout and back
+    const handleSensorLayoutChange = (layout: SensorLayout) => {
+      setSensorLayout(layout);
+      setPressureUnit(bleManager.current.getPressureUnit());
+      setCurrentPressures(createEmptyFrame(layout));
+      setAveragePressures(createEmptyFrame(layout));
+      setConsoleLog(prev => [...prev, `[INFO] Sensor layout set to ${layout.name} (${layout.channelCount} channels)`]);
+    };
+
     bleManager.current.onDataReceived = handleDataReceived;
     bleManager.current.onRawDataReceived = handleRawDataReceived;
     bleManager.current.onConnectionChange = handleConnectionChange;
+    bleManager.current.onConnectionStateChange = handleConnectionStateChange;
+    bleManager.current.onCalibrationChange = handleCalibrationChange;
+    bleManager.current.onDeviceMetadataChange = setDeviceMetadata;
+    bleManager.current.onSideWarningChange = setSideWarning;
+    bleManager.current.onSensorLayoutChange = handleSensorLayoutChange;
 
     // Add initial console messages
     setConsoleLog(['[INFO] Foot Pressure Heatmap System Initialized']);
     setConsoleLog(prev => [...prev, '[INFO] Ready to scan for ESP32 BLE devices']);
-    setConsoleLog(prev => [...prev, '[INFO] Expected data format: PRESSURE_LEFT:val1,val2,val3,val4,val5,val6,val7,val8']);
+    setConsoleLog(prev => [...prev, `[INFO] Expected data format: PRESSURE_LEFT:${describeFrameFormat(bleManager.current.getSensorLayout())}`]);
+
+    const deviceInfo = bleManager.current.getDeviceInfo();
+    if (deviceInfo?.connected) {
+      setConsoleLog(prev => [...prev, `[INFO] Reusing connection to ${deviceInfo.name} (${deviceInfo.id})`]);
+    }
 
     return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-      bleManager.current.disconnect();
+      measurementRef.current?.dispose();
+      releaseBLEManager('left');
     };
   }, []);
 
@@ -139,73 +270,140 @@ const LeftSoleScreen: React.FC = () => {
     }
   };
 
+  const changeSensorLayout = (layoutId: string) => {
+    const layout = getSensorLayout(layoutId);
+    bleManager.current.setSensorLayout(layout);
+    setSensorLayout(layout);
+    setPressureUnit(bleManager.current.getPressureUnit());
+    setCurrentPressures(createEmptyFrame(layout));
+    setAveragePressures(createEmptyFrame(layout));
+    setPressureData([]);
+    setCopTrajectory([]);
+    setTimelineCursor(null);
+    setTestCompleted(false);
+    setConsoleLog(prev => [...prev, `[INFO] Sensor layout set to ${layout.name} (${layout.channelCount} channels)`]);
+  };
+
+  const changeDecoder = (selection: DecoderSelection) => {
+    bleManager.current.setDecoderSelection(selection, selectedDevice?.id);
+    setDecoderSelection(selection);
+    const decoderName = selection === 'auto'
+      ? 'auto-detect'
+      : bleManager.current.getDecoderRegistry().get(selection)?.name || selection;
+    setConsoleLog(prev => [...prev, `[INFO] Frame decoder set to ${decoderName}`]);
+  };
+
   const startMeasurement = () => {
     if (!bleConnected) {
       alert('Please connect to an ESP32 device first.');
       return;
     }
 
+    if (!patient) {
+      alert('Please select a patient before starting the measurement.');
+      return;
+    }
+
+    if (isBatteryLow(deviceMetadata.batteryLevel)) {
+      setConsoleLog(prev => [...prev, `[ERROR] Battery at ${deviceMetadata.batteryLevel}% - measurement not started`]);
+      alert('The insole battery is low. Please charge it before starting a measurement.');
+      return;
+    }
+
+    measurementRef.current?.dispose();
+    const measurement = new MeasurementSession({ protocol, sensorLayout });
+    measurement.on('sample', ({ data, cop }) => {
+      setPressureData(prev => [...prev, data]);
+      if (cop) {
+        setCopTrajectory(prev => [...prev, cop]);
+      }
+    });
+    measurement.on('tick', setProtocolState);
+    measurement.on('phase', state => {
+      setConsoleLog(prev => [...prev, `[INFO] ${getProtocolPhaseLabel(state, protocol)}`]);
+    });
+    measurement.on('gap', gap => {
+      setConsoleLog(prev => [...prev, `[WARNING] Data gap at ${formatDataGap(gap)}`]);
+    });
+    measurement.on('complete', completeMeasurement);
+    measurementRef.current = measurement;
+
     setIsRecording(true);
     setTestCompleted(false);
     setPressureData([]);
-    setAveragePressures(Array(8).fill(0));
-    setConsoleLog(prev => [...prev, '[INFO] Starting 20-second measurement...']);
+    setCopTrajectory([]);
+    setTimelineCursor(null);
+    setSwayMetrics(null);
+    setClinicalMetrics(null);
+    setCurrentSession(null);
+    setLinkQuality(null);
+    liveAlertsRef.current = [];
+    setLiveAlerts([]);
+    bleManager.current.resetLinkQuality();
+    measurementPatient.current = patient;
+    const profile = bleManager.current.getCalibrationProfile();
+    const unit = bleManager.current.getPressureUnit();
+    measurementCalibration.current = {
+      unit,
+      summary: unit === 'kPa' && profile ? summarizeCalibration(profile) : null
+    };
+    setAveragePressures(createEmptyFrame(sensorLayout));
+    setConsoleLog(prev => [...prev, `[INFO] Patient: ${formatPatientLabel(patient)}`]);
+    if (unit === 'raw') {
+      setConsoleLog(prev => [...prev, '[WARNING] No calibration for this insole - recording raw ADC counts, not kPa']);
+    }
+    setConsoleLog(prev => [...prev, `[INFO] Starting protocol "${protocol.name}" (${describeProtocol(protocol)})`]);
     setConsoleLog(prev => [...prev, '[INFO] Please stand still on the pressure sensors']);
     setConsoleLog(prev => [...prev, '[INFO] ESP32 will send pressure data via BLE']);
-    setTimeRemaining(20);
-
-    timerRef.current = setInterval(() => {
-      setTimeRemaining(prev => {
-        const newTime = prev - 1;
-        if (newTime <= 0) {
-          setTimeout(() => {
-            completeTest();
-          }, 100);
-          return 0;
-        }
-        return newTime;
-      });
-    }, 1000);
 
+    measurement.start();
     bleManager.current.startDataCollection();
   };
 
   const stopMeasurement = () => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
+    measurementRef.current?.stop();
+  };
 
+  const changeProtocol = (protocolId: string) => {
+    const selected = getMeasurementProtocol(protocolId);
+    setProtocol(selected);
+    setConsoleLog(prev => [...prev, `[INFO] Protocol set to ${selected.name} (${describeProtocol(selected)})`]);
+  };
+
+  // Runs from the session's 'complete' event, so it only reads the result and refs - never recording state
+  const completeMeasurement = (result: MeasurementResult) => {
+    setProtocolState(null);
     setIsRecording(false);
     bleManager.current.stopDataCollection();
-    completeTest();
-  };
+    setPressureData(result.pressureData);
+    setCopTrajectory(result.copTrajectory);
+    console.log('Completing test with data points:', result.recordedSampleCount);
 
-  const completeTest = () => {
-    console.log('Completing test with data points:', pressureData.length);
-    
-    if (pressureData.length > 0) {
-      calculateAverages();
-      setTestCompleted(true);
-      setConsoleLog(prev => [...prev, '[INFO] Measurement completed. Calculating averages...']);
-    } else {
-      setConsoleLog(prev => [...prev, '[WARNING] No data collected during measurement']);
+    if (result.stoppedEarly) {
+      setConsoleLog(prev => [...prev, `[INFO] Measurement stopped early after ${result.elapsedSec} s`]);
     }
-  };
 
-  const calculateAverages = () => {
-    console.log('Calculating averages from', pressureData.length, 'data points');
-    
-    if (pressureData.length === 0) return;
+    const averages = result.averagePressures;
+    if (!averages) {
+      setConsoleLog(prev => [...prev, result.pressureData.length > 0
+        ? '[WARNING] Only settle-period data was collected - nothing to average'
+        : '[WARNING] No data collected during measurement']);
+      return;
+    }
 
-    const sums = Array(8).fill(0);
-    pressureData.forEach(data => {
-      data.values.forEach((value, index) => {
-        sums[index] += value;
-      });
-    });
+    const linkQuality = bleManager.current.getLinkQuality();
+    const linkProblems = assessLinkQuality(linkQuality);
+    setConsoleLog(prev => [...prev, `[INFO] Link quality: ${describeLinkQuality(linkQuality)}`]);
+    if (linkProblems.length > 0) {
+      setConsoleLog(prev => [...prev, `[WARNING] Poor link quality: ${linkProblems.join(', ')}`]);
+      if (!confirm(`The BLE link was poor during this test (${linkProblems.join(', ')}).\n\nKeep this measurement anyway?`)) {
+        setConsoleLog(prev => [...prev, '[INFO] Measurement discarded because of poor link quality']);
+        return;
+      }
+    }
 
-    const averages = sums.map(sum => Math.round(sum / pressureData.length));
+    setTestCompleted(true);
+    setConsoleLog(prev => [...prev, '[INFO] Measurement completed. Calculating averages...']);
     console.log('Calculated averages:', averages);
     setAveragePressures(averages);
 
@@ -216,10 +414,79 @@ const LeftSoleScreen: React.FC = () => {
     const totalAverage = Math.round(averages.reduce((sum, val) => sum + val, 0) / averages.length);
     setAveragePressure(totalAverage);
 
-    setConsoleLog(prev => [...prev, `[INFO] Processed ${pressureData.length} data points`]);
-    setConsoleLog(prev => [...prev, `[INFO] Average pressure: ${totalAverage} kPa`]);
-    setConsoleLog(prev => [...prev, `[INFO] Max pressure: P${maxIndex + 1} = ${maxValue} kPa`]);
+    setConsoleLog(prev => [...prev, `[INFO] Averaged ${result.recordedSampleCount} of ${result.pressureData.length} data points (settle period excluded)`]);
+    const unitLabel = getPressureUnitLabel(measurementCalibration.current.unit);
+    setConsoleLog(prev => [...prev, `[INFO] Average pressure: ${totalAverage} ${unitLabel}`]);
+    setConsoleLog(prev => [...prev, `[INFO] Max pressure: P${maxIndex + 1} = ${maxValue} ${unitLabel}`]);
     setConsoleLog(prev => [...prev, `[INFO] Averaged pressure values: ${averages.join(', ')}`]);
+    if (result.gaps.length > 0) {
+      setConsoleLog(prev => [...prev, `[WARNING] Averages cover incomplete data: ${describeDataGaps(result.gaps, result.recordedSec)}`]);
+    }
+
+    const sway = result.swayMetrics;
+    setSwayMetrics(sway);
+    setConsoleLog(prev => [...prev, `[INFO] COP path length: ${sway.pathLength} %FL, 95% ellipse area: ${sway.ellipseArea95} %FL²`]);
+
+    const record = buildSessionRecord(result, averages, linkQuality);
+    const metrics = computeSessionMetrics(record);
+    setClinicalMetrics(metrics);
+    setConsoleLog(prev => [...prev, `[INFO] Forefoot/rearfoot ratio: ${metrics.forefootRearfootRatio ?? 'n/a'}`]);
+
+    const session = { ...record, alerts: evaluateSessionAlerts(alertRules.current, record) };
+    session.alerts.forEach(alert => {
+      setConsoleLog(prev => [...prev, `[WARNING] ${alert.severity.toUpperCase()}: ${formatAlert(alert)}`]);
+    });
+    setCurrentSession(session);
+    saveSession(session);
+  };
+
+  const buildSessionRecord = (result: MeasurementResult, averages: number[], linkQuality: LinkQualityStats): SessionRecord => {
+    const deviceInfo = bleManager.current.getDeviceInfo();
+    const createdAt = result.startedAt.toISOString();
+    return {
+      id: createSessionId(),
+      soleType: 'left',
+      createdAt,
+      updatedAt: createdAt,
+      sensorLayoutId: sensorLayout.id,
+      device: deviceInfo ? { name: deviceInfo.name, id: deviceInfo.id, ...bleManager.current.getDeviceMetadata() } : null,
+      patient: measurementPatient.current,
+      pressureUnit: measurementCalibration.current.unit,
+      calibration: measurementCalibration.current.summary,
+      protocol: summarizeProtocol(result.protocol),
+      elapsedSec: result.elapsedSec,
+      recordedSec: result.recordedSec,
+      stoppedEarly: result.stoppedEarly,
+      gaps: result.gaps,
+      linkQuality,
+      pressureData: result.pressureData,
+      averagePressures: averages,
+      copTrajectory: result.copTrajectory,
+      alerts: [],
+      doctorNotes
+    };
+  };
+
+  const saveSession = async (session: SessionRecord) => {
+    try {
+      await sessionStore.current.save(session);
+      setConsoleLog(prev => [...prev, `[INFO] Session saved to local history (${session.id})`]);
+    } catch (error) {
+      console.error('Failed to save session:', error);
+      setConsoleLog(prev => [...prev, `[ERROR] Failed to save session: ${error instanceof Error ? error.message : error}`]);
+    }
+  };
+
+  // Exports always reflect the latest notes, even before they are saved
+  const getSessionForExport = (): SessionRecord | null =>
+    currentSession ? { ...currentSession, doctorNotes } : null;
+
+  const saveDoctorNotes = () => {
+    if (currentSession && currentSession.doctorNotes !== doctorNotes) {
+      const session = { ...currentSession, doctorNotes };
+      setCurrentSession(session);
+      saveSession(session);
+    }
   };
 
   const formatTime = (seconds: number) => {
@@ -229,8 +496,11 @@ const LeftSoleScreen: React.FC = () => {
   };
 
   const downloadExcel = async () => {
+    const session = getSessionForExport();
+    if (!session) return;
+
     try {
-      await exportManager.current.exportToExcel(pressureData, averagePressures, doctorNotes, 'left');
+      await exportManager.current.exportToExcel(session);
       setConsoleLog(prev => [...prev, '[INFO] Excel report exported successfully']);
     } catch (error) {
       console.error('Failed to export Excel:', error);
@@ -249,8 +519,11 @@ const LeftSoleScreen: React.FC = () => {
   };
 
   const downloadAll = async () => {
+    const session = getSessionForExport();
+    if (!session) return;
+
     try {
-      await exportManager.current.exportAll(pressureData, averagePressures, doctorNotes, 'left', 'heatmap-container');
+      await exportManager.current.exportAll(session, 'heatmap-container');
       setConsoleLog(prev => [...prev, '[INFO] Complete export package created successfully']);
     } catch (error) {
       console.error('Failed to export all files:', error);
@@ -258,13 +531,23 @@ const LeftSoleScreen: React.FC = () => {
     }
   };
 
+  const getHeatmapCopTrajectory = () => (testCompleted || isRecording ? copTrajectory : []);
+
+  // Completed results keep the unit they were recorded in, even if the calibration changes afterwards
+  const displayUnit = testCompleted && currentSession ? currentSession.pressureUnit : pressureUnit;
+  const displayUnitLabel = getPressureUnitLabel(displayUnit);
+
+  const peakFrames = testCompleted ? findPeakFrames(pressureData) : [];
+  const cursorPeak = peakFrames.find(peak => peak.index === timelineCursor);
+
   const getHeatmapPressureValues = () => {
     if (testCompleted) {
-      return averagePressures;
+      // The timeline cursor and playback scrub the heatmap through the recorded samples
+      return timelineCursor !== null && pressureData[timelineCursor] ? pressureData[timelineCursor].values : averagePressures;
     } else if (isRecording) {
       return currentPressures;
     } else {
-      return Array(8).fill(0);
+      return createEmptyFrame(sensorLayout);
     }
   };
 
@@ -293,10 +576,15 @@ const LeftSoleScreen: React.FC = () => {
             </div>
             
             {/* Connection Status */}
-            {bleConnected ? (
+            {connectionState === 'reconnecting' ? (
+              <span className="flex items-center space-x-2 bg-yellow-900 text-yellow-100 px-3 py-1 rounded-full text-sm">
+                <Loader2 className="animate-spin" size={16} />
+                <span>Reconnecting (attempt {reconnectAttempt})</span>
+              </span>
+            ) : bleConnected ? (
               <span className="flex items-center space-x-2 bg-green-900 text-green-100 px-3 py-1 rounded-full text-sm">
                 <CheckCircle size={16} />
-                <span>Connected</span>
+                <span>{bleManager.current.isSimulated() ? 'Simulator' : bleManager.current.getTransportKind() === 'serial' ? 'Connected (USB)' : bleManager.current.getTransportKind() === 'gateway' ? 'Connected (Gateway)' : 'Connected'}</span>
               </span>
             ) : (
               <span className="flex items-center space-x-2 bg-red-900 text-red-100 px-3 py-1 rounded-full text-sm">
@@ -368,12 +656,49 @@ const LeftSoleScreen: React.FC = () => {
                   </div>
                 )}
 
+                {!bleConnected && (
+                  <SerialConnectControls
+                    bleManager={bleManager.current}
+                    disabled={isRecording || isScanning}
+                    onLog={(message) => setConsoleLog(prev => [...prev, message])}
+                    onConnected={() => {
+                      setSelectedDevice(bleManager.current.getDevice());
+                      setBleConnected(true);
+                    }}
+                  />
+                )}
+
+                {!bleConnected && (
+                  <GatewayConnectControls
+                    bleManager={bleManager.current}
+                    side="left"
+                    disabled={isRecording || isScanning}
+                    onLog={(message) => setConsoleLog(prev => [...prev, message])}
+                    onConnected={() => {
+                      setSelectedDevice(bleManager.current.getDevice());
+                      setBleConnected(true);
+                    }}
+                  />
+                )}
+
+                {!bleConnected && (
+                  <SimulatorControls
+                    bleManager={bleManager.current}
+                    disabled={isRecording || isScanning}
+                    onLog={(message) => setConsoleLog(prev => [...prev, message])}
+                    onConnected={() => {
+                      setSelectedDevice(bleManager.current.getDevice());
+                      setBleConnected(true);
+                    }}
+                  />
+                )}
+
                 {bleConnected && selectedDevice && (
                   <div className="flex items-center space-x-3 px-4 py-2 bg-green-900 bg-opacity-30 border border-green-700 rounded-lg">
                     <CheckCircle className="h-5 w-5 text-green-400" />
                     <div>
                       <span className="text-sm font-medium text-green-300">Connected</span>
-                      <p className="text-xs text-green-400">{selectedDevice.name || 'ESP32 Device'}</p>
+                      <p className="text-xs text-green-400">{bleManager.current.getDeviceInfo()?.name || selectedDevice.name || 'ESP32 Device'}</p>
                     </div>
                     <button
                       onClick={() => bleManager.current.disconnect()}
@@ -385,19 +710,134 @@ const LeftSoleScreen: React.FC = () => {
                   </div>
                 )}
 
+                {bleConnected && sideWarning && (
+                  <div className="text-sm text-yellow-400 bg-yellow-900 bg-opacity-30 p-3 rounded border border-yellow-700 flex items-center space-x-2">
+                    <AlertTriangle size={16} />
+                    <span>{sideWarning}</span>
+                  </div>
+                )}
+
+                {bleConnected && <DeviceInfoPanel metadata={deviceMetadata} />}
+
+                <DeviceRegistryPanel
+                  bleManager={bleManager.current}
+                  side="left"
+                  connected={bleConnected}
+                  disabled={isRecording || isScanning}
+                  onLog={(message) => setConsoleLog(prev => [...prev, message])}
+                  onConnected={() => {
+                    setSelectedDevice(bleManager.current.getDevice());
+                    setBleConnected(true);
+                  }}
+                />
+
+                <DeviceProfilePanel
+                  managers={[bleManager.current]}
+                  disabled={bleConnected || isRecording || isScanning}
+                  onLog={(message) => setConsoleLog(prev => [...prev, message])}
+                  onProfileChange={(profile) => {
+                    setDeviceProfile(profile);
+                    setDecoderSelection(bleManager.current.getDecoderSelection());
+                  }}
+                />
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-300">Sensor Layout</label>
+                  <select
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+                    onChange={(e) => changeSensorLayout(e.target.value)}
+                    disabled={isRecording}
+                    value={sensorLayout.id}
+                  >
+                    {SENSOR_LAYOUTS.map(layout => (
+                      <option key={layout.id} value={layout.id}>
+                        {layout.name} ({layout.channelCount} channels)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {bleConnected && (
+                  <div className={`text-sm p-3 rounded border flex items-center justify-between ${
+                    pressureUnit === 'kPa'
+                      ? 'text-green-300 bg-green-900 bg-opacity-30 border-green-700'
+                      : 'text-yellow-300 bg-yellow-900 bg-opacity-30 border-yellow-700'
+                  }`}>
+                    <span>
+                      {pressureUnit === 'kPa'
+                        ? `📐 Calibrated (${bleManager.current.getCalibrationProfile()?.model} fit) - values in kPa`
+                        : '⚠️ Uncalibrated - values are raw ADC counts'}
+                    </span>
+                    <Link to="/calibration" className="text-blue-400 hover:text-blue-300 text-xs ml-2">
+                      {pressureUnit === 'kPa' ? 'Recalibrate' : 'Calibrate'}
+                    </Link>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-300">Frame Decoder</label>
+                  <select
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+                    onChange={(e) => changeDecoder(e.target.value)}
+                    disabled={isRecording}
+                    value={decoderSelection}
+                  >
+                    <option value="auto">Auto-detect</option>
+                    {bleManager.current.getDecoderRegistry().list().map(decoder => (
+                      <option key={decoder.id} value={decoder.id}>
+                        {decoder.name} ({decoder.description})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {bleConnected && (
+                  <DeviceCommandsPanel
+                    bleManager={bleManager.current}
+                    side="left"
+                    disabled={isRecording}
+                  />
+                )}
+
+                <StreamCapturePanel
+                  bleManager={bleManager.current}
+                  connected={bleConnected}
+                  disabled={isRecording || isScanning}
+                  onLog={(message) => setConsoleLog(prev => [...prev, message])}
+                  onConnected={() => {
+                    setSelectedDevice(bleManager.current.getDevice());
+                    setBleConnected(true);
+                  }}
+                />
+
                 {/* Connection Instructions */}
                 <div className="text-xs text-gray-400 space-y-1 bg-gray-800 p-3 rounded">
-                  <div className="font-medium text-gray-300">ESP32 Configuration:</div>
-                  <div>Service UUID: 12345678-1234-1234-1234-1234567890ab</div>
-                  <div>Characteristic UUID: abcd1234-5678-90ab-cdef-1234567890ab</div>
+                  <div className="font-medium text-gray-300">{deviceProfile.name} Configuration:</div>
+                  <div>Service UUID: {deviceProfile.serviceUuid}</div>
+                  <div>Data Characteristic UUID: {deviceProfile.dataCharacteristicUuid}</div>
+                  <div>Command Characteristic UUID: {deviceProfile.commandCharacteristicUuid || 'same as data characteristic'}</div>
                   <div className="text-yellow-400 mt-2">
                     ⚠️ Make sure your ESP32 is powered on and advertising
                   </div>
                   <div className="text-blue-400 mt-2">
-                    📡 Expected format: PRESSURE_LEFT:val1,val2,val3,val4,val5,val6,val7,val8
+                    🔌 Over USB serial: one frame or command per line, at the selected baud rate
+                  </div>
+                  <div className="text-blue-400 mt-2">
+                    📡 Expected format: PRESSURE_LEFT:{describeFrameFormat(sensorLayout)}
+                  </div>
+                  <div className="text-blue-400">
+                    🔢 Optional: append ;SEQ=n;TS=ms for link-quality statistics
+                  </div>
+                  <div className="text-blue-400">
+                    ▶️ Streaming: {deviceProfile.acknowledgedCommands ? '"START #id" / "STOP #id", bare "START" / "STOP" if not acknowledged' : 'bare "START" / "STOP"'}
+                  </div>
+                  <div className="text-blue-400">
+                    🎛️ Commands: "RATE 50 #id", "TARE #id"... answered with "ACK #id [value]" or "NAK #id reason"
                   </div>
                   <div className="text-green-400 mt-1">
-                    ✅ Look for devices named "ESP32", "FootPressure", or similar
+                    {deviceProfile.namePrefixes.length > 0
+                      ? `✅ Look for devices named ${deviceProfile.namePrefixes.map(prefix => `"${prefix}"`).join(', ')}, or similar`
+                      : '✅ Look for devices advertising the service UUID above'}
                   </div>
                 </div>
 
@@ -405,9 +845,13 @@ const LeftSoleScreen: React.FC = () => {
                   <div className="text-sm text-yellow-400 bg-yellow-900 bg-opacity-30 p-3 rounded border border-yellow-700">
                     <div className="flex items-center space-x-2 mb-2">
                       <AlertTriangle size={16} />
-                      <span className="font-medium">Browser Not Supported</span>
+                      <span className="font-medium">{isSerialSupported() ? 'Web Bluetooth Not Supported' : 'Browser Not Supported'}</span>
+                    </div>
+                    <div>
+                      {isSerialSupported()
+                        ? 'Web Bluetooth is not available here - connect the ESP32 with a USB cable and use "Connect USB", or connect through a gateway.'
+                        : 'Neither Web Bluetooth nor Web Serial is supported in this browser. Connect through a gateway, or use Chrome, Edge, or Opera for direct ESP32 connectivity.'}
                     </div>
-                    <div>Web Bluetooth is not supported in this browser. Please use Chrome, Edge, or Opera for ESP32 connectivity.</div>
                   </div>
                 )}
               </div>
@@ -415,16 +859,39 @@ const LeftSoleScreen: React.FC = () => {
 
             {/* Test Controls */}
             <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
-              <h2 className="text-xl font-medium mb-4">⏱️ 20-Second Averaging Test</h2>
+              <h2 className="text-xl font-medium mb-4">⏱️ {protocol.name} Test</h2>
               
               <div className="space-y-4">
+                <PatientSelector patient={patient} onChange={setPatient} disabled={isRecording} />
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-300">Protocol</label>
+                  <select
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+                    onChange={(e) => changeProtocol(e.target.value)}
+                    disabled={isRecording}
+                    value={protocol.id}
+                  >
+                    {MEASUREMENT_PROTOCOLS.map(option => (
+                      <option key={option.id} value={option.id}>
+                        {option.name} ({describeProtocol(option)})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="text-center">
                   <div className="text-4xl font-mono font-bold text-[#d32f2f]">
-                    {formatTime(timeRemaining)}
+                    {formatTime(Math.ceil(protocolState ? protocolState.phaseRemainingSec : getProtocolDurationSec(protocol)))}
                   </div>
-                  {isRecording && (
-                    <div className="text-sm text-yellow-400 mt-2">
-                      Recording live data... Stand still!
+                  {protocolState && (
+                    <div className={`text-sm mt-2 ${protocolState.phase === 'recording' ? 'text-yellow-400' : 'text-blue-300'}`}>
+                      {getProtocolPhaseLabel(protocolState, protocol)}
+                    </div>
+                  )}
+                  {protocolState && protocol.trialCount > 1 && (
+                    <div className="text-xs text-gray-400 mt-1">
+                      {formatTime(Math.ceil(protocolState.totalRemainingSec))} remaining in protocol
                     </div>
                   )}
                   {testCompleted && (
@@ -437,7 +904,7 @@ const LeftSoleScreen: React.FC = () => {
                 <div className="flex space-x-2">
                   <button
                     onClick={startMeasurement}
-                    disabled={!bleConnected || isRecording}
+                    disabled={!bleConnected || !patient || isRecording || isBatteryLow(deviceMetadata.batteryLevel)}
                     className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
                   >
                     <Play size={16} />
@@ -460,6 +927,24 @@ const LeftSoleScreen: React.FC = () => {
                     <span>Please connect to ESP32 device to begin measurement.</span>
                   </div>
                 )}
+
+                {bleConnected && !isRecording && isBatteryLow(deviceMetadata.batteryLevel) && (
+                  <div className="text-sm text-red-400 bg-red-900 bg-opacity-30 p-3 rounded border border-red-700 flex items-center space-x-2">
+                    <AlertTriangle size={16} />
+                    <span>Battery low ({deviceMetadata.batteryLevel}%) - charge the insole to start a measurement.</span>
+                  </div>
+                )}
+
+                {isRecording && connectionState === 'reconnecting' && (
+                  <div className="text-sm text-yellow-400 bg-yellow-900 bg-opacity-30 p-3 rounded border border-yellow-700 flex items-center space-x-2">
+                    <Loader2 className="animate-spin" size={16} />
+                    <span>Link lost - reconnecting. The missing stretch will be reported as a data gap.</span>
+                  </div>
+                )}
+
+                {isRecording && <ClinicalAlertsPanel alerts={liveAlerts} title="Live Alerts" />}
+
+                {bleConnected && <LinkQualityPanel stats={linkQuality} />}
               </div>
             </div>
 
@@ -469,31 +954,105 @@ const LeftSoleScreen: React.FC = () => {
                 <h2 className="text-xl font-medium mb-4">📊 Test Summary</h2>
                 
                 <div className="space-y-3 mb-4">
+                  {currentSession?.patient && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Patient:</span>
+                      <span className="font-medium">{formatPatientLabel(currentSession.patient)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-300">Data Points:</span>
-                    <span className="font-medium">{pressureData.length}</span>
+                    <span className="font-medium">{pressureData.filter(data => data.phase === 'recording').length}</span>
                   </div>
+                  {currentSession && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Duration:</span>
+                      <span className="font-medium">
+                        {currentSession.elapsedSec} s{currentSession.stoppedEarly && ' (stopped early)'}
+                      </span>
+                    </div>
+                  )}
+                  {currentSession && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Data Gaps:</span>
+                      <span className={`font-medium ${currentSession.gaps.length > 0 ? 'text-yellow-400' : ''}`}>
+                        {describeDataGaps(currentSession.gaps, currentSession.recordedSec)}
+                      </span>
+                    </div>
+                  )}
+                  {currentSession?.device && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Device:</span>
+                      <span className="font-medium text-right">{describeDeviceMetadata(currentSession.device)}</span>
+                    </div>
+                  )}
+                  {currentSession?.linkQuality && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Link Quality:</span>
+                      <span className={`font-medium text-right ${assessLinkQuality(currentSession.linkQuality).length > 0 ? 'text-yellow-400' : ''}`}>
+                        {describeLinkQuality(currentSession.linkQuality)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-300">Average Pressure:</span>
-                    <span className="font-medium">{averagePressure} kPa</span>
+                    <span className="font-medium">{averagePressure} {displayUnitLabel}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-300">Max Point:</span>
-                    <span className="font-medium">P{maxPressurePoint.index + 1} – {maxPressurePoint.value} kPa</span>
+                    <span className="font-medium">P{maxPressurePoint.index + 1} – {maxPressurePoint.value} {displayUnitLabel}</span>
                   </div>
-                  {maxPressurePoint.value > 200 && (
+                  {currentSession && currentSession.gaps.length > 0 && (
+                    <div className="text-yellow-400 text-sm flex items-center space-x-2">
+                      <AlertTriangle size={16} />
+                      <span>Averages exclude {getMissingRecordingSec(currentSession.gaps)} s without data - interpret with care</span>
+                    </div>
+                  )}
+                  {displayUnit === 'raw' && (
                     <div className="text-yellow-400 text-sm flex items-center space-x-2">
                       <AlertTriangle size={16} />
-                      <span>Pressure point exceeded 200kPa - consider medical evaluation</span>
+                      <span>Uncalibrated insole - values are raw ADC counts, not kPa</span>
                     </div>
                   )}
                 </div>
 
+                {currentSession && (
+                  <div className="mb-4 pt-3 border-t border-gray-700">
+                    <ClinicalAlertsPanel alerts={currentSession.alerts} title="Clinical Alerts" emptyText="No alert rule was triggered" />
+                  </div>
+                )}
+
+                {swayMetrics && (
+                  <div className="space-y-2 mb-4 pt-3 border-t border-gray-700 text-sm">
+                    <div className="font-medium text-gray-300">🎯 Center of Pressure Sway</div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Path Length:</span>
+                      <span>{swayMetrics.pathLength} %FL</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">95% Ellipse Area:</span>
+                      <span>{swayMetrics.ellipseArea95} %FL²</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Mean Velocity:</span>
+                      <span>{swayMetrics.meanVelocity} %FL/s</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">AP / ML Range:</span>
+                      <span>{swayMetrics.apRange} / {swayMetrics.mlRange} %FL</span>
+                    </div>
+                    <div className="text-xs text-gray-500">%FL = percent of foot length</div>
+                  </div>
+                )}
+
+                {clinicalMetrics && <ClinicalMetricsPanel metrics={clinicalMetrics} unitLabel={displayUnitLabel} />}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">📝 Doctor Notes</label>
                   <textarea
                     value={doctorNotes}
                     onChange={(e) => setDoctorNotes(e.target.value)}
+                    onBlur={saveDoctorNotes}
                     placeholder="Add clinical observations, patient symptoms, or treatment recommendations..."
                     className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white h-24 resize-none"
                   />
@@ -506,11 +1065,19 @@ const LeftSoleScreen: React.FC = () => {
           <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
             <h2 className="text-xl font-medium mb-4 flex items-center justify-between">
               <span>🦶 Left Sole Heatmap</span>
-              {testCompleted && (
+              {testCompleted && (cursorPeak ? (
+                <span className="text-sm bg-yellow-900 text-yellow-100 px-2 py-1 rounded-full">
+                  Peak Frame
+                </span>
+              ) : timelineCursor !== null ? (
+                <span className="text-sm bg-blue-900 text-blue-100 px-2 py-1 rounded-full">
+                  Selected Instant
+                </span>
+              ) : (
                 <span className="text-sm bg-green-900 text-green-100 px-2 py-1 rounded-full">
                   Averaged Results
                 </span>
-              )}
+              ))}
               {isRecording && (
                 <span className="text-sm bg-yellow-900 text-yellow-100 px-2 py-1 rounded-full animate-pulse">
                   Live Data
@@ -522,7 +1089,40 @@ const LeftSoleScreen: React.FC = () => {
                 pressureValues={getHeatmapPressureValues()}
                 soleType="left"
                 isRecording={isRecording}
+                sensorLayout={sensorLayout}
+                pressureUnit={displayUnit}
+                copTrajectory={getHeatmapCopTrajectory()}
+                highlightedChannels={cursorPeak ? [cursorPeak.channel] : []}
               />
+
+              {testCompleted && (
+                <div className="mt-6 pt-4 border-t border-gray-700" data-html2canvas-ignore="true">
+                  <div className="text-sm font-medium text-gray-300 mb-2">▶️ Playback</div>
+                  <PlaybackControls
+                    pressureData={pressureData}
+                    pressureUnit={displayUnit}
+                    elapsedSec={currentSession?.elapsedSec}
+                    peakFrames={peakFrames}
+                    frameIndex={timelineCursor}
+                    onFrameChange={setTimelineCursor}
+                  />
+                </div>
+              )}
+
+              {pressureData.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-gray-700">
+                  <div className="text-sm font-medium text-gray-300 mb-2">📈 Pressure Over Time</div>
+                  <PressureTimelineChart
+                    pressureData={pressureData}
+                    sensorLayout={sensorLayout}
+                    pressureUnit={displayUnit}
+                    elapsedSec={currentSession?.elapsedSec}
+                    cursorIndex={testCompleted ? timelineCursor : null}
+                    onCursorChange={testCompleted ? setTimelineCursor : undefined}
+                    markedIndices={peakFrames.map(peak => peak.index)}
+                  />
+                </div>
+              )}
             </div>
           </div>
 
@@ -532,6 +1132,7 @@ const LeftSoleScreen: React.FC = () => {
             <ConsoleViewer 
               logs={consoleLog} 
               isConnected={bleConnected}
+              channelCount={sensorLayout.channelCount}
               onAddLog={(message, type) => {
                 setConsoleLog(prev => [...prev, message]);
               }}
@@ -573,13 +1174,31 @@ const LeftSoleScreen: React.FC = () => {
         </div>
 
         {/* Navigation */}
-        <div className="flex justify-center pt-6 border-t border-gray-700">
+        <div className="flex justify-center space-x-4 pt-6 border-t border-gray-700">
           <Link
             to="/right-sole"
             className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
           >
             → View Right Sole
           </Link>
+          <Link
+            to="/bilateral"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            ⇄ Bilateral Capture
+          </Link>
+          <Link
+            to="/history"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            🗂️ Session History
+          </Link>
+          <Link
+            to="/patients"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            👤 Patients
+          </Link>
         </div>
       </div>
     </div>
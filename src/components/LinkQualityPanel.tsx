@@ -0,0 +1,68 @@
+import React from 'react';
+import { Activity, AlertTriangle } from 'lucide-react';
+import { LINK_QUALITY_LIMITS, LinkQualityStats, assessLinkQuality } from '../utils/LinkQuality';
+
+interface LinkQualityPanelProps {
+  stats: LinkQualityStats | null;
+}
+
+// Live link statistics for one insole; values outside LINK_QUALITY_LIMITS are highlighted
+const LinkQualityPanel: React.FC<LinkQualityPanelProps> = ({ stats }) => {
+  if (!stats || stats.frameCount === 0) {
+    return (
+      <div className="text-xs text-gray-400 bg-gray-800 p-3 rounded flex items-center space-x-2">
+        <Activity size={14} />
+        <span>Link quality: waiting for frames...</span>
+      </div>
+    );
+  }
+
+  const problems = assessLinkQuality(stats);
+  const lossTooHigh = stats.lossPercent !== null && stats.lossPercent > LINK_QUALITY_LIMITS.maxLossPercent;
+  const jitterTooHigh = stats.jitterMs > LINK_QUALITY_LIMITS.maxJitterMs;
+
+  return (
+    <div className="text-xs bg-gray-800 p-3 rounded space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-300 flex items-center space-x-2">
+          <Activity size={14} />
+          <span>Link Quality</span>
+        </span>
+        <span className="text-gray-500">{stats.frameCount} frames / {stats.durationSec} s</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        <div className="flex justify-between">
+          <span className="text-gray-400">Rate:</span>
+          <span>{stats.effectiveRateHz} Hz</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Loss:</span>
+          <span className={lossTooHigh ? 'text-yellow-400' : ''}>
+            {stats.lossPercent !== null ? `${stats.lossPercent}% (${stats.lostFrames})` : 'n/a'}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Jitter:</span>
+          <span className={jitterTooHigh ? 'text-yellow-400' : ''}>{stats.jitterMs} ms</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Out of order:</span>
+          <span>{stats.outOfOrderCount}{stats.duplicateCount > 0 && ` (+${stats.duplicateCount} dup)`}</span>
+        </div>
+      </div>
+
+      {!stats.sequenceSupported && (
+        <div className="text-gray-500">Firmware sends no sequence numbers - loss cannot be measured</div>
+      )}
+      {problems.length > 0 && (
+        <div className="text-yellow-400 flex items-center space-x-2">
+          <AlertTriangle size={14} />
+          <span>Poor link: {problems.join(', ')}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LinkQualityPanel;
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { UserRound, AlertTriangle } from 'lucide-react';
+import PatientStore, {
+  Patient,
+  calculateAge,
+  formatPatientLabel,
+  getActivePatientId,
+  setActivePatientId
+} from '../utils/PatientStore';
+
+interface PatientSelectorProps {
+  patient: Patient | null;
+  onChange: (patient: Patient | null) => void;
+  disabled: boolean;
+}
+
+// Picks the patient the next measurement is attached to; the choice is shared across screens
+const PatientSelector: React.FC<PatientSelectorProps> = ({ patient, onChange, disabled }) => {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [error, setError] = useState('');
+  const patientStore = useRef(new PatientStore());
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const loadPatients = async () => {
+      try {
+        const list = await patientStore.current.list();
+        setPatients(list);
+
+        const activeId = getActivePatientId();
+        onChangeRef.current(list.find(item => item.id === activeId) || null);
+      } catch (loadError) {
+        console.error('Failed to load patients:', loadError);
+        setError('Failed to load patients');
+      }
+    };
+
+    loadPatients();
+  }, []);
+
+  const selectPatient = (patientId: string) => {
+    const selected = patients.find(item => item.id === patientId) || null;
+    setActivePatientId(selected?.id || null);
+    onChange(selected);
+  };
+
+  const age = patient ? calculateAge(patient.dateOfBirth) : null;
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-300 flex items-center space-x-2">
+        <UserRound size={14} />
+        <span>Patient</span>
+      </label>
+      <select
+        className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+        onChange={(e) => selectPatient(e.target.value)}
+        disabled={disabled}
+        value={patient?.id || ''}
+      >
+        <option value="">Select a patient...</option>
+        {patients.map(item => (
+          <option key={item.id} value={item.id}>
+            {formatPatientLabel(item)}
+          </option>
+        ))}
+      </select>
+
+      {patient ? (
+        <div className="text-xs text-gray-400">
+          {age !== null && `Age ${age} · `}
+          {patient.weightKg !== null && `${patient.weightKg} kg · `}
+          {patient.shoeSize && `Shoe ${patient.shoeSize} · `}
+          {patient.diagnosisTags.length > 0 ? patient.diagnosisTags.join(', ') : 'No diagnosis tags'}
+        </div>
+      ) : (
+        <div className="text-xs text-yellow-400 flex items-center space-x-1">
+          <AlertTriangle size={12} />
+          <span>
+            A patient must be selected before measuring.{' '}
+            <Link to="/patients" className="text-blue-400 hover:text-blue-300">Manage patients</Link>
+          </span>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default PatientSelector;
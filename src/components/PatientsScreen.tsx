@@ -0,0 +1,387 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Users, UserPlus, Pencil, Trash2, Search, Save, CheckCircle, Loader2 } from 'lucide-react';
+import PatientStore, {
+  Patient,
+  PatientDraft,
+  calculateAge,
+  getActivePatientId,
+  parseDiagnosisTags,
+  setActivePatientId
+} from '../utils/PatientStore';
+import SessionStore, { SessionRecord } from '../utils/SessionStore';
+
+// Form fields are kept as strings until the patient is saved
+interface PatientForm {
+  patientCode: string;
+  name: string;
+  dateOfBirth: string;
+  weightKg: string;
+  shoeSize: string;
+  diagnosisTags: string;
+}
+
+const EMPTY_FORM: PatientForm = {
+  patientCode: '',
+  name: '',
+  dateOfBirth: '',
+  weightKg: '',
+  shoeSize: '',
+  diagnosisTags: ''
+};
+
+const toForm = (patient: Patient): PatientForm => ({
+  patientCode: patient.patientCode,
+  name: patient.name,
+  dateOfBirth: patient.dateOfBirth,
+  weightKg: patient.weightKg !== null ? String(patient.weightKg) : '',
+  shoeSize: patient.shoeSize,
+  diagnosisTags: patient.diagnosisTags.join(', ')
+});
+
+const toDraft = (form: PatientForm): PatientDraft => ({
+  patientCode: form.patientCode.trim(),
+  name: form.name.trim(),
+  dateOfBirth: form.dateOfBirth,
+  weightKg: form.weightKg.trim() ? Number(form.weightKg) : null,
+  shoeSize: form.shoeSize.trim(),
+  diagnosisTags: parseDiagnosisTags(form.diagnosisTags)
+});
+
+const validateForm = (form: PatientForm): string => {
+  if (!form.name.trim()) return 'Name is required';
+  if (!form.patientCode.trim()) return 'Patient ID is required';
+  if (form.weightKg.trim() && (isNaN(Number(form.weightKg)) || Number(form.weightKg) <= 0)) {
+    return 'Weight must be a positive number';
+  }
+  if (form.dateOfBirth && new Date(form.dateOfBirth) > new Date()) {
+    return 'Date of birth cannot be in the future';
+  }
+  return '';
+};
+
+const PatientsScreen: React.FC = () => {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<Patient | null>(null);
+  const [form, setForm] = useState<PatientForm>(EMPTY_FORM);
+  const [activePatientId, setActiveId] = useState<string | null>(getActivePatientId());
+  const [patientSessions, setPatientSessions] = useState<SessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+
+  const patientStore = useRef(new PatientStore());
+  const sessionStore = useRef(new SessionStore());
+
+  useEffect(() => {
+    const searchPatients = async () => {
+      try {
+        setPatients(await patientStore.current.search(query));
+      } catch (loadError) {
+        console.error('Failed to load patients:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load patients');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    searchPatients();
+  }, [query]);
+
+  useEffect(() => {
+    if (!editing) {
+      setPatientSessions([]);
+      return;
+    }
+
+    sessionStore.current.listForPatient(editing.id)
+      .then(setPatientSessions)
+      .catch(loadError => console.error('Failed to load patient sessions:', loadError));
+  }, [editing]);
+
+  const updateField = (field: keyof PatientForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const startNewPatient = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setStatus('');
+    setError('');
+  };
+
+  const editPatient = (patient: Patient) => {
+    setEditing(patient);
+    setForm(toForm(patient));
+    setStatus('');
+    setError('');
+  };
+
+  const savePatient = async () => {
+    const validationError = validateForm(form);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      const draft = toDraft(form);
+      const saved = editing
+        ? await patientStore.current.update({ ...editing, ...draft })
+        : await patientStore.current.create(draft);
+
+      setPatients(await patientStore.current.search(query));
+      setEditing(saved);
+      setForm(toForm(saved));
+      setStatus(editing ? 'Patient updated' : 'Patient created');
+      setError('');
+    } catch (saveError) {
+      console.error('Failed to save patient:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save patient');
+    }
+  };
+
+  const deletePatient = async (patient: Patient) => {
+    if (!confirm(`Delete ${patient.name}? Saved sessions keep their copy of the patient details.`)) return;
+
+    try {
+      await patientStore.current.delete(patient.id);
+      setPatients(prev => prev.filter(item => item.id !== patient.id));
+      setActiveId(getActivePatientId());
+      if (editing?.id === patient.id) startNewPatient();
+    } catch (deleteError) {
+      console.error('Failed to delete patient:', deleteError);
+      setError('Failed to delete patient');
+    }
+  };
+
+  const selectForMeasurement = (patient: Patient) => {
+    setActivePatientId(patient.id);
+    setActiveId(patient.id);
+    setStatus(`${patient.name} selected for the next measurement`);
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white';
+
+  return (
+    <div className="min-h-screen bg-[#1e1e1e] text-white p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <header className="flex items-center justify-between border-b border-gray-700 pb-6">
+          <h1 className="text-3xl font-light flex items-center space-x-3">
+            <Users size={28} className="text-[#d32f2f]" />
+            <span>Patients</span>
+          </h1>
+          <button
+            onClick={startNewPatient}
+            className="flex items-center space-x-2 bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-4 rounded transition-colors"
+          >
+            <UserPlus size={16} />
+            <span>New Patient</span>
+          </button>
+        </header>
+
+        {(status || error) && (
+          <div className={`text-sm p-3 rounded border ${
+            error ? 'text-red-400 bg-red-900 bg-opacity-30 border-red-700' : 'text-green-400 bg-green-900 bg-opacity-30 border-green-700'
+          }`}>
+            {error || status}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+          {/* Patient list */}
+          <div className="xl:col-span-2 bg-gray-900 rounded-lg border border-gray-700 overflow-hidden">
+            <div className="p-4 border-b border-gray-700">
+              <div className="relative">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search by name, patient ID or diagnosis tag"
+                  className="w-full bg-gray-800 border border-gray-600 rounded pl-9 pr-3 py-2 text-white text-sm"
+                />
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="p-8 text-center text-gray-400 flex items-center justify-center space-x-2">
+                <Loader2 className="animate-spin" size={16} />
+                <span>Loading patients...</span>
+              </div>
+            ) : patients.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                <Users className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p>{query ? 'No patients match your search' : 'No patients yet'}</p>
+                <p className="text-xs mt-1">Every measurement must be linked to a patient</p>
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-800 text-gray-300">
+                  <tr>
+                    <th className="text-left px-4 py-3 font-medium">Patient ID</th>
+                    <th className="text-left px-4 py-3 font-medium">Name</th>
+                    <th className="text-right px-4 py-3 font-medium">Age</th>
+                    <th className="text-right px-4 py-3 font-medium">Weight</th>
+                    <th className="text-left px-4 py-3 font-medium">Shoe</th>
+                    <th className="text-left px-4 py-3 font-medium">Diagnosis</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {patients.map(patient => (
+                    <tr
+                      key={patient.id}
+                      className={`border-t border-gray-800 hover:bg-gray-800/50 ${editing?.id === patient.id ? 'bg-gray-800/70' : ''}`}
+                    >
+                      <td className="px-4 py-3 font-mono">{patient.patientCode}</td>
+                      <td className="px-4 py-3">
+                        {patient.name}
+                        {activePatientId === patient.id && (
+                          <span className="ml-2 text-xs bg-green-900 text-green-100 px-2 py-0.5 rounded-full">Active</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">{calculateAge(patient.dateOfBirth) ?? '—'}</td>
+                      <td className="px-4 py-3 text-right">{patient.weightKg !== null ? `${patient.weightKg} kg` : '—'}</td>
+                      <td className="px-4 py-3">{patient.shoeSize || '—'}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {patient.diagnosisTags.map(tag => (
+                            <span key={tag} className="text-xs bg-gray-700 text-gray-200 px-2 py-0.5 rounded">{tag}</span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end space-x-2">
+                          <button
+                            onClick={() => selectForMeasurement(patient)}
+                            className="p-1.5 text-gray-400 hover:text-green-400"
+                            title="Use for next measurement"
+                          >
+                            <CheckCircle size={16} />
+                          </button>
+                          <button
+                            onClick={() => editPatient(patient)}
+                            className="p-1.5 text-gray-400 hover:text-white"
+                            title="Edit patient"
+                          >
+                            <Pencil size={16} />
+                          </button>
+                          <button
+                            onClick={() => deletePatient(patient)}
+                            className="p-1.5 text-gray-400 hover:text-red-400"
+                            title="Delete patient"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Create / edit form */}
+          <div className="bg-gray-900 rounded-lg p-6 border border-gray-700 h-fit">
+            <h2 className="text-xl font-medium mb-4">{editing ? '✏️ Edit Patient' : '➕ New Patient'}</h2>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Patient ID *</label>
+                <input className={inputClass} value={form.patientCode} onChange={(e) => updateField('patientCode', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Name *</label>
+                <input className={inputClass} value={form.name} onChange={(e) => updateField('name', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Date of Birth</label>
+                <input type="date" className={inputClass} value={form.dateOfBirth} onChange={(e) => updateField('dateOfBirth', e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Weight (kg)</label>
+                  <input type="number" min="0" step="0.1" className={inputClass} value={form.weightKg} onChange={(e) => updateField('weightKg', e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Shoe Size</label>
+                  <input className={inputClass} value={form.shoeSize} onChange={(e) => updateField('shoeSize', e.target.value)} placeholder="e.g. EU 42" />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Diagnosis Tags</label>
+                <input
+                  className={inputClass}
+                  value={form.diagnosisTags}
+                  onChange={(e) => updateField('diagnosisTags', e.target.value)}
+                  placeholder="diabetic neuropathy, flat foot"
+                />
+                <p className="text-xs text-gray-500 mt-1">Separate tags with commas</p>
+              </div>
+
+              <button
+                onClick={savePatient}
+                className="w-full bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+              >
+                <Save size={16} />
+                <span>{editing ? 'Save Changes' : 'Create Patient'}</span>
+              </button>
+            </div>
+
+            {editing && (
+              <div className="mt-6 pt-4 border-t border-gray-700">
+                <h3 className="text-sm font-medium text-gray-300 mb-2">Sessions ({patientSessions.length})</h3>
+                {patientSessions.length === 0 ? (
+                  <p className="text-xs text-gray-500">No measurements recorded for this patient yet</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {patientSessions.map(session => (
+                      <li key={session.id}>
+                        <Link to={`/history/${session.id}`} className="text-blue-400 hover:text-blue-300">
+                          {new Date(session.createdAt).toLocaleString()} · <span className="capitalize">{session.soleType}</span> sole
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-center space-x-4 pt-6 border-t border-gray-700">
+          <Link
+            to="/left-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            ← Left Sole
+          </Link>
+          <Link
+            to="/right-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            → Right Sole
+          </Link>
+          <Link
+            to="/history"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            🗂️ Session History
+          </Link>
+          <Link
+            to="/alerts"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            🚨 Alert Rules
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PatientsScreen;
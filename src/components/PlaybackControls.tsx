@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, StepBack, StepForward } from 'lucide-react';
+import { PressureData } from '../utils/SessionStore';
+import { PressureUnit, getPressureUnitLabel } from '../utils/Calibration';
+import { PLAYBACK_SPEEDS, PeakFrame, findNearestSample, getSampleTimeline } from '../utils/PressureTimeline';
+
+interface PlaybackControlsProps {
+  pressureData: PressureData[];
+  pressureUnit: PressureUnit;
+  elapsedSec?: number | null;
+  peakFrames: PeakFrame[];
+  frameIndex: number | null; // null = the heatmap shows the averages
+  onFrameChange: (index: number | null) => void;
+}
+
+// Replays the recorded frames through the heatmap in (scaled) real time
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  pressureData,
+  pressureUnit,
+  elapsedSec = null,
+  peakFrames,
+  frameIndex,
+  onFrameChange
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const timeline = getSampleTimeline(pressureData, elapsedSec);
+  const lastIndex = pressureData.length - 1;
+
+  // The animation loop reads the latest props through refs so it only restarts on play/pause and speed
+  const timelineRef = useRef(timeline);
+  timelineRef.current = timeline;
+  const frameIndexRef = useRef(frameIndex);
+  frameIndexRef.current = frameIndex;
+  const onFrameChangeRef = useRef(onFrameChange);
+  onFrameChangeRef.current = onFrameChange;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const { timesSec } = timelineRef.current;
+    const finalIndex = timesSec.length - 1;
+    let shownIndex = frameIndexRef.current ?? 0;
+    let playheadSec = timesSec[shownIndex] ?? 0;
+    let previousTime = performance.now();
+    let handle = 0;
+
+    const advance = (time: number) => {
+      // The slider or the chart moved the frame while playing: continue from there
+      if (frameIndexRef.current !== null && frameIndexRef.current !== shownIndex) {
+        shownIndex = frameIndexRef.current;
+        playheadSec = timesSec[shownIndex] ?? playheadSec;
+      }
+
+      playheadSec += ((time - previousTime) / 1000) * speed;
+      previousTime = time;
+      if (playheadSec >= timesSec[finalIndex]) {
+        onFrameChangeRef.current(finalIndex);
+        setIsPlaying(false);
+        return;
+      }
+
+      const index = findNearestSample(timesSec, playheadSec);
+      if (index !== shownIndex) {
+        shownIndex = index;
+        onFrameChangeRef.current(index);
+      }
+      handle = requestAnimationFrame(advance);
+    };
+
+    handle = requestAnimationFrame(advance);
+    return () => cancelAnimationFrame(handle);
+  }, [isPlaying, speed]);
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Start over when the last frame is showing
+    if (frameIndex === null || frameIndex >= lastIndex) {
+      onFrameChange(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const step = (delta: number) => {
+    setIsPlaying(false);
+    onFrameChange(Math.min(lastIndex, Math.max(0, (frameIndex ?? (delta > 0 ? -1 : lastIndex + 1)) + delta)));
+  };
+
+  const jumpTo = (index: number) => {
+    setIsPlaying(false);
+    onFrameChange(index);
+  };
+
+  const showAverages = () => {
+    setIsPlaying(false);
+    onFrameChange(null);
+  };
+
+  if (pressureData.length < 2) return null;
+
+  const { timesSec, timeBase } = timeline;
+  const formatTime = (timeSec: number) => (timeBase === 'index' ? `#${timeSec + 1}` : `${timeSec.toFixed(2)} s`);
+  const unitLabel = getPressureUnitLabel(pressureUnit);
+  const buttonClass = 'p-2 rounded bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:opacity-40';
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => step(-1)} disabled={frameIndex === 0} className={buttonClass} title="Previous frame">
+            <StepBack size={16} />
+          </button>
+          <button
+            onClick={togglePlayback}
+            className="p-2 rounded bg-[#d32f2f] hover:bg-red-700 text-white"
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <button onClick={() => step(1)} disabled={frameIndex === lastIndex} className={buttonClass} title="Next frame">
+            <StepForward size={16} />
+          </button>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1.5 text-white text-xs"
+            title="Playback speed"
+          >
+            {PLAYBACK_SPEEDS.map(option => (
+              <option key={option} value={option}>{option}×</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-3 text-xs">
+          <span className="text-gray-400 font-mono">
+            {frameIndex !== null ? formatTime(timesSec[frameIndex]) : '—'} / {formatTime(timesSec[lastIndex])}
+          </span>
+          <button
+            onClick={showAverages}
+            disabled={frameIndex === null}
+            className="text-blue-400 hover:text-blue-300 disabled:text-gray-600"
+          >
+            Show Average
+          </button>
+        </div>
+      </div>
+
+      {/* Timeline slider with the peak frames marked above the track */}
+      <div className="relative pt-3">
+        {peakFrames.map(peak => (
+          <button
+            key={peak.index}
+            onClick={() => jumpTo(peak.index)}
+            className="absolute top-0 w-2 h-2 -translate-x-1/2 rotate-45 bg-yellow-400 hover:bg-yellow-300"
+            style={{ left: `${(peak.index / lastIndex) * 100}%` }}
+            title={`Peak at ${formatTime(timesSec[peak.index])}: P${peak.channel + 1} ${peak.value} ${unitLabel}`}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={frameIndex ?? 0}
+          onChange={(e) => onFrameChange(Number(e.target.value))}
+          className="w-full accent-[#d32f2f]"
+          aria-label="Playback position"
+        />
+      </div>
+
+      {peakFrames.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          <span className="text-gray-400">Peak frames:</span>
+          {peakFrames.map(peak => (
+            <button
+              key={peak.index}
+              onClick={() => jumpTo(peak.index)}
+              className={`px-2 py-0.5 rounded border ${
+                frameIndex === peak.index ? 'border-yellow-400 text-yellow-300' : 'border-gray-700 text-gray-300 hover:border-yellow-600'
+              }`}
+            >
+              {formatTime(timesSec[peak.index])} · P{peak.channel + 1} {peak.value} {unitLabel}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SensorLayout } from '../utils/SensorLayouts';
+import { buildPressureField, buildSilhouetteMask } from '../utils/PressureField';
+import { pressureToRgb } from '../utils/ColorScale';
+
+interface PressureFieldCanvasProps {
+  pressureValues: number[];
+  soleType: 'left' | 'right';
+  sensorLayout: SensorLayout;
+}
+
+// Display resolution of the canvas and the coarser grid the field is interpolated on
+const CANVAS_WIDTH = 512;
+const CANVAS_HEIGHT = 768;
+const FIELD_WIDTH = 128;
+const FIELD_HEIGHT = 192;
+const FIELD_ALPHA = 220;
+
+interface SoleArtwork {
+  image: HTMLImageElement;
+  mask: Uint8Array;
+}
+
+const PressureFieldCanvas: React.FC<PressureFieldCanvasProps> = ({
+  pressureValues,
+  soleType,
+  sensorLayout
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fieldCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [artwork, setArtwork] = useState<SoleArtwork | null>(null);
+
+  // Load the sole image once per side and derive its silhouette mask at field resolution
+  useEffect(() => {
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (cancelled) return;
+      const scratch = document.createElement('canvas');
+      scratch.width = FIELD_WIDTH;
+      scratch.height = FIELD_HEIGHT;
+      const scratchContext = scratch.getContext('2d');
+      if (!scratchContext) return;
+
+      scratchContext.drawImage(image, 0, 0, FIELD_WIDTH, FIELD_HEIGHT);
+      const mask = buildSilhouetteMask(scratchContext.getImageData(0, 0, FIELD_WIDTH, FIELD_HEIGHT));
+      setArtwork({ image, mask });
+    };
+    image.src = `/${soleType}_sole.png`;
+
+    return () => {
+      cancelled = true;
+    };
+  }, [soleType]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !artwork) return;
+
+    // Offscreen canvas for the field image, created on first draw rather than on every render
+    if (!fieldCanvasRef.current) fieldCanvasRef.current = document.createElement('canvas');
+    const fieldCanvas = fieldCanvasRef.current;
+    fieldCanvas.width = FIELD_WIDTH;
+    fieldCanvas.height = FIELD_HEIGHT;
+    const fieldContext = fieldCanvas.getContext('2d');
+    if (!fieldContext) return;
+
+    const field = buildPressureField(sensorLayout.points, pressureValues, FIELD_WIDTH, FIELD_HEIGHT, artwork.mask);
+    const fieldImage = fieldContext.createImageData(FIELD_WIDTH, FIELD_HEIGHT);
+    for (let cell = 0; cell < field.length; cell++) {
+      if (!artwork.mask[cell]) continue;
+      const [r, g, b] = pressureToRgb(field[cell]);
+      const offset = cell * 4;
+      fieldImage.data[offset] = r;
+      fieldImage.data[offset + 1] = g;
+      fieldImage.data[offset + 2] = b;
+      fieldImage.data[offset + 3] = FIELD_ALPHA;
+    }
+    fieldContext.putImageData(fieldImage, 0, 0);
+
+    context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    context.globalAlpha = 0.9;
+    context.drawImage(artwork.image, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    context.globalAlpha = 1;
+
+    // Upscale the coarse field with smoothing so it reads as a continuous map
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(fieldCanvas, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    // Small markers so the sensor positions stay visible under the field
+    context.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    sensorLayout.points.forEach(point => {
+      context.beginPath();
+      context.arc(point.x * CANVAS_WIDTH, point.y * CANVAS_HEIGHT, 3, 0, Math.PI * 2);
+      context.fill();
+    });
+  }, [artwork, pressureValues, sensorLayout]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={CANVAS_WIDTH}
+      height={CANVAS_HEIGHT}
+      className="w-full h-auto"
+      aria-label={`${soleType} sole pressure field`}
+    />
+  );
+};
+
+export default PressureFieldCanvas;
@@ -0,0 +1,348 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, X } from 'lucide-react';
+import { SensorLayout, getChannelLabels } from '../utils/SensorLayouts';
+import { PressureUnit, getPressureUnitLabel } from '../utils/Calibration';
+import { PressureData } from '../utils/SessionStore';
+import {
+  TimeSpan,
+  decimateChannel,
+  findNearestSample,
+  getSampleTimeline,
+  getSettleSpans,
+  getTimeAxisLabel
+} from '../utils/PressureTimeline';
+
+interface PressureTimelineChartProps {
+  pressureData: PressureData[];
+  sensorLayout: SensorLayout;
+  pressureUnit: PressureUnit;
+  elapsedSec?: number | null; // spreads legacy samples without their own time
+  cursorIndex?: number | null; // sample marked on the chart
+  onCursorChange?: (index: number | null) => void; // omit to disable scrubbing, e.g. while recording
+  markedIndices?: number[]; // samples flagged along the top edge, e.g. peak frames
+}
+
+// SVG coordinate system; the plot area is a nested viewport so lines are clipped at its edges
+const WIDTH = 640;
+const HEIGHT = 250;
+const PLOT = { left: 46, top: 10, width: 584, height: 200 };
+const MAX_BUCKETS = 300; // about two points per plot unit
+const MAX_ZOOM = 200; // narrowest window as a fraction of the whole recording
+const DRAG_THRESHOLD = 3;
+const CURSOR_GRAB_DISTANCE = 8;
+
+// Golden-angle hues keep neighbouring sensors apart on dense layouts
+const getChannelColor = (index: number): string => `hsl(${Math.round((index * 137.508) % 360)}, 75%, 60%)`;
+
+// 1, 2 or 5 times a power of ten, giving about `count` ticks over the span
+const getTickStep = (span: number, count: number): number => {
+  const rough = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  return [1, 2, 5, 10].map(multiple => multiple * magnitude).find(step => step >= rough) || magnitude * 10;
+};
+
+const getTicks = (start: number, end: number, count: number): number[] => {
+  if (!(end > start)) return [start];
+  const step = getTickStep(end - start, count);
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(start / step) * step; tick <= end + step * 1e-6; tick += step) {
+    ticks.push(Math.round(tick * 1000) / 1000);
+  }
+  return ticks;
+};
+
+interface DragState {
+  clientX: number;
+  range: TimeSpan;
+  mode: 'pan' | 'cursor';
+  moved: boolean;
+}
+
+const PressureTimelineChart: React.FC<PressureTimelineChartProps> = ({
+  pressureData,
+  sensorLayout,
+  pressureUnit,
+  elapsedSec = null,
+  cursorIndex = null,
+  onCursorChange,
+  markedIndices = []
+}) => {
+  const [hiddenChannels, setHiddenChannels] = useState<number[]>([]);
+  const [view, setView] = useState<TimeSpan | null>(null); // null = whole recording, following live data
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const channelLabels = getChannelLabels(sensorLayout);
+  const { timesSec, timeBase } = getSampleTimeline(pressureData, elapsedSec);
+  const visibleChannels = channelLabels.map((_, index) => index).filter(index => !hiddenChannels.includes(index));
+
+  const fullStart = timesSec.length > 0 ? timesSec[0] : 0;
+  const full: TimeSpan = { startSec: fullStart, endSec: Math.max(timesSec[timesSec.length - 1] ?? 0, fullStart + 1) };
+  const fullSpan = full.endSec - full.startSec;
+  const range = view && view.endSec <= full.endSec ? view : full;
+  const span = range.endSec - range.startSec;
+
+  // Fixed over the whole recording so zooming and panning don't rescale the axis
+  const maxValue = pressureData.reduce(
+    (max, data) => visibleChannels.reduce((channelMax, index) => Math.max(channelMax, data.values[index] || 0), max),
+    0
+  );
+  const yTicks = getTicks(0, Math.max(maxValue, 10), 5);
+  const yMax = Math.max(yTicks[yTicks.length - 1], maxValue, 10);
+  const xTicks = getTicks(range.startSec, range.endSec, 6);
+
+  const toX = (timeSec: number) => ((timeSec - range.startSec) / span) * PLOT.width;
+  const toY = (value: number) => PLOT.height - (value / yMax) * PLOT.height;
+
+  const clampRange = (startSec: number, windowSec: number): TimeSpan => {
+    const clampedStart = Math.min(Math.max(startSec, full.startSec), full.endSec - windowSec);
+    return { startSec: clampedStart, endSec: clampedStart + windowSec };
+  };
+
+  // Scales the window around a point in time, keeping that point under the pointer
+  const zoom = (factor: number, centerSec = range.startSec + span / 2) => {
+    const windowSec = Math.max(fullSpan / MAX_ZOOM, span * factor);
+    if (windowSec >= fullSpan) {
+      setView(null);
+      return;
+    }
+    const ratio = (centerSec - range.startSec) / span;
+    setView(clampRange(centerSec - windowSec * ratio, windowSec));
+  };
+
+  // Pointer position in plot units (0 = left edge of the plot)
+  const getPlotX = (clientX: number): number => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return rect && rect.width > 0 ? ((clientX - rect.left) / rect.width) * WIDTH - PLOT.left : 0;
+  };
+
+  const getTimeAt = (clientX: number): number => range.startSec + (getPlotX(clientX) / PLOT.width) * span;
+
+  // Native listener: React registers wheel handlers as passive, so they cannot stop the page from scrolling
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  const getTimeAtRef = useRef(getTimeAt);
+  getTimeAtRef.current = getTimeAt;
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomRef.current(event.deltaY < 0 ? 0.8 : 1.25, getTimeAtRef.current(event.clientX));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const moveCursor = (clientX: number) => {
+    if (!onCursorChange) return;
+    const index = findNearestSample(timesSec, getTimeAt(clientX));
+    if (index >= 0) onCursorChange(index);
+  };
+
+  // A click places the cursor and dragging scrubs it; once zoomed, dragging away from the cursor line pans
+  const handlePointerDown = (event: React.PointerEvent<SVGRectElement>) => {
+    const cursorX = cursorIndex !== null && timesSec[cursorIndex] !== undefined ? toX(timesSec[cursorIndex]) : null;
+    const grabsCursor = cursorX !== null && Math.abs(getPlotX(event.clientX) - cursorX) <= CURSOR_GRAB_DISTANCE;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { clientX: event.clientX, range, mode: onCursorChange && (grabsCursor || !view) ? 'cursor' : 'pan', moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGRectElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const deltaX = getPlotX(event.clientX) - getPlotX(drag.clientX);
+    if (Math.abs(deltaX) > DRAG_THRESHOLD) drag.moved = true;
+    if (!drag.moved) return;
+
+    if (drag.mode === 'cursor') {
+      moveCursor(event.clientX);
+    } else if (view) {
+      const windowSec = drag.range.endSec - drag.range.startSec;
+      setView(clampRange(drag.range.startSec - (deltaX / PLOT.width) * windowSec, windowSec));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGRectElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) moveCursor(event.clientX);
+  };
+
+  const toggleChannel = (index: number) => {
+    setHiddenChannels(prev => (prev.includes(index) ? prev.filter(item => item !== index) : [...prev, index]));
+  };
+
+  const cursorData = cursorIndex !== null ? pressureData[cursorIndex] : undefined;
+  const cursorTime = cursorIndex !== null ? timesSec[cursorIndex] : undefined;
+  const formatTime = (timeSec: number) => (timeBase === 'index' ? `#${timeSec + 1}` : `${Math.round(timeSec * 100) / 100} s`);
+  const unitLabel = getPressureUnitLabel(pressureUnit);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-400">
+          {cursorData && cursorTime !== undefined
+            ? `Cursor ${formatTime(cursorTime)} · trial ${cursorData.trial} · ${cursorData.phase}`
+            : `${pressureData.length} samples${onCursorChange ? ' · click the chart to inspect an instant' : ''}`}
+        </span>
+        <div className="flex items-center space-x-1" data-html2canvas-ignore="true">
+          {cursorData && onCursorChange && (
+            <button
+              onClick={() => onCursorChange(null)}
+              className="p-1 text-gray-400 hover:text-white"
+              title="Clear cursor"
+            >
+              <X size={14} />
+            </button>
+          )}
+          <button onClick={() => zoom(0.5)} className="p-1 text-gray-400 hover:text-white" title="Zoom in">
+            <ZoomIn size={14} />
+          </button>
+          <button onClick={() => zoom(2)} className="p-1 text-gray-400 hover:text-white" title="Zoom out">
+            <ZoomOut size={14} />
+          </button>
+          <button
+            onClick={() => setView(null)}
+            disabled={!view}
+            className="p-1 text-gray-400 hover:text-white disabled:opacity-40"
+            title="Show whole recording"
+          >
+            <Maximize2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        data-timeline-chart="true"
+      >
+        <rect x={0} y={0} width={WIDTH} height={HEIGHT} fill="#111827" />
+
+        {/* Grid and axes */}
+        {yTicks.map(tick => (
+          <g key={`y${tick}`}>
+            <line x1={PLOT.left} x2={PLOT.left + PLOT.width} y1={PLOT.top + toY(tick)} y2={PLOT.top + toY(tick)} stroke="#374151" strokeWidth={0.5} />
+            <text x={PLOT.left - 4} y={PLOT.top + toY(tick) + 3} fill="#9ca3af" fontSize={9} textAnchor="end">{tick}</text>
+          </g>
+        ))}
+        {xTicks.map(tick => (
+          <g key={`x${tick}`}>
+            <line x1={PLOT.left + toX(tick)} x2={PLOT.left + toX(tick)} y1={PLOT.top} y2={PLOT.top + PLOT.height} stroke="#374151" strokeWidth={0.5} />
+            <text x={PLOT.left + toX(tick)} y={PLOT.top + PLOT.height + 12} fill="#9ca3af" fontSize={9} textAnchor="middle">
+              {timeBase === 'index' ? tick + 1 : tick}
+            </text>
+          </g>
+        ))}
+        <text x={PLOT.left + PLOT.width / 2} y={HEIGHT - 4} fill="#9ca3af" fontSize={9} textAnchor="middle">
+          {getTimeAxisLabel(timeBase)}
+        </text>
+        <text
+          x={10}
+          y={PLOT.top + PLOT.height / 2}
+          fill="#9ca3af"
+          fontSize={9}
+          textAnchor="middle"
+          transform={`rotate(-90 10 ${PLOT.top + PLOT.height / 2})`}
+        >
+          {unitLabel}
+        </text>
+
+        <svg x={PLOT.left} y={PLOT.top} width={PLOT.width} height={PLOT.height}>
+          {/* Settle periods are plotted but not averaged */}
+          {getSettleSpans(pressureData, timesSec).map(settle => (
+            <rect
+              key={settle.startSec}
+              x={toX(settle.startSec)}
+              y={0}
+              width={Math.max(1, toX(settle.endSec) - toX(settle.startSec))}
+              height={PLOT.height}
+              fill="#6b7280"
+              opacity={0.15}
+            />
+          ))}
+
+          {visibleChannels.map(index => (
+            <polyline
+              key={index}
+              points={decimateChannel(pressureData, timesSec, index, range, MAX_BUCKETS)
+                .map(([timeSec, value]) => `${toX(timeSec).toFixed(1)},${toY(value).toFixed(1)}`)
+                .join(' ')}
+              fill="none"
+              stroke={getChannelColor(index)}
+              strokeWidth={1.2}
+              strokeLinejoin="round"
+            />
+          ))}
+
+          {markedIndices
+            .filter(index => timesSec[index] !== undefined)
+            .map(index => {
+              const markerX = toX(timesSec[index]);
+              return (
+                <polygon
+                  key={`mark${index}`}
+                  points={`${markerX - 4},0 ${markerX + 4},0 ${markerX},6`}
+                  fill="#facc15"
+                />
+              );
+            })}
+
+          {cursorTime !== undefined && (
+            <line x1={toX(cursorTime)} x2={toX(cursorTime)} y1={0} y2={PLOT.height} stroke="#d32f2f" strokeWidth={1.5} />
+          )}
+
+          <rect
+            x={0}
+            y={0}
+            width={PLOT.width}
+            height={PLOT.height}
+            fill="transparent"
+            className={onCursorChange ? 'cursor-crosshair' : view ? 'cursor-grab' : ''}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => { dragRef.current = null; }}
+          />
+        </svg>
+      </svg>
+
+      {/* Sensor toggles, doubling as the legend */}
+      <div className="flex flex-wrap gap-1 text-xs">
+        {channelLabels.map((label, index) => {
+          const visible = !hiddenChannels.includes(index);
+          return (
+            <button
+              key={label}
+              onClick={() => toggleChannel(index)}
+              className={`flex items-center space-x-1 px-1.5 py-0.5 rounded border border-gray-700 ${visible ? 'text-gray-200' : 'text-gray-600'}`}
+              title={visible ? `Hide ${label}` : `Show ${label}`}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: visible ? getChannelColor(index) : '#4b5563' }}></span>
+              <span>
+                {label}
+                {cursorData && visible ? ` ${cursorData.values[index] || 0}` : ''}
+              </span>
+            </button>
+          );
+        })}
+        <span className="flex items-center space-x-1" data-html2canvas-ignore="true">
+          <button onClick={() => setHiddenChannels([])} className="px-1.5 py-0.5 text-blue-400 hover:text-blue-300">All</button>
+          <button
+            onClick={() => setHiddenChannels(channelLabels.map((_, index) => index))}
+            className="px-1.5 py-0.5 text-blue-400 hover:text-blue-300"
+          >
+            None
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PressureTimelineChart;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Loader2, Usb } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import { DEFAULT_BAUD_RATE, SERIAL_BAUD_RATES, isSerialSupported, requestSerialPort } from '../utils/SerialTransport';
+
+interface SerialConnectControlsProps {
+  bleManager: BLEManager;
+  disabled: boolean;
+  onLog: (message: string) => void;
+  onConnected?: () => void;
+}
+
+// USB serial alternative to the Bluetooth scan; hidden where the browser lacks Web Serial
+const SerialConnectControls: React.FC<SerialConnectControlsProps> = ({ bleManager, disabled, onLog, onConnected }) => {
+  const [baudRate, setBaudRate] = useState(DEFAULT_BAUD_RATE);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  if (!isSerialSupported()) return null;
+
+  const connectSerial = async () => {
+    setIsConnecting(true);
+
+    try {
+      const port = await requestSerialPort();
+      onLog(`[INFO] Opening serial port at ${baudRate} baud...`);
+      await bleManager.connectSerial(port, baudRate);
+      onConnected?.();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        onLog('[INFO] Serial port selection cancelled');
+        return;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Could not open the serial port';
+      onLog(`[ERROR] Serial connection failed: ${errorMessage}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 bg-gray-800 p-3 rounded border border-gray-700">
+      <label className="block text-sm font-medium text-gray-300 flex items-center space-x-2">
+        <Usb size={14} />
+        <span>Or connect over USB serial</span>
+      </label>
+      <div className="flex space-x-2">
+        <select
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+          onChange={(e) => setBaudRate(Number(e.target.value))}
+          disabled={disabled || isConnecting}
+          value={baudRate}
+        >
+          {SERIAL_BAUD_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate} baud</option>
+          ))}
+        </select>
+        <button
+          onClick={connectSerial}
+          disabled={disabled || isConnecting}
+          className="px-3 py-1 bg-blue-700 hover:bg-blue-800 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded text-sm flex items-center space-x-1"
+        >
+          {isConnecting && <Loader2 className="animate-spin" size={14} />}
+          <span>Connect USB</span>
+        </button>
+      </div>
+      <div className="text-xs text-gray-400">Same PRESSURE_ frames and commands as over BLE, one per line.</div>
+    </div>
+  );
+};
+
+export default SerialConnectControls;
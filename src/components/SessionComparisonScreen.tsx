@@ -0,0 +1,376 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { FileText, Archive, Loader2, AlertTriangle, Scale } from 'lucide-react';
+import SessionStore, { SessionRecord } from '../utils/SessionStore';
+import ExportManager from '../utils/ExportManager';
+import { getSensorLayout } from '../utils/SensorLayouts';
+import { formatPatientLabel } from '../utils/PatientStore';
+import { getPressureUnitLabel } from '../utils/Calibration';
+import {
+  BilateralComparison,
+  SymmetryEntry,
+  compareSessions,
+  describeSymmetryIndex,
+  findVisitPartner,
+  getAsymmetryThreshold,
+  setAsymmetryThreshold
+} from '../utils/Symmetry';
+import { SoleSide } from '../utils/FrameDecoderRegistry';
+import AlertRuleStore from '../utils/AlertRuleStore';
+import { AlertRule, evaluateAlertRules } from '../utils/AlertRules';
+import HeatmapVisualization from './HeatmapVisualization';
+import ClinicalAlertsPanel from './ClinicalAlertsPanel';
+
+const describeSession = (session: SessionRecord) =>
+  `${new Date(session.createdAt).toLocaleString()}${session.patient ? ` · ${formatPatientLabel(session.patient)}` : ''}`;
+
+const SymmetryTable: React.FC<{ title: string; entries: SymmetryEntry[] }> = ({ title, entries }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-gray-400">
+        <th className="text-left font-normal">{title}</th>
+        <th className="text-right font-normal">Left</th>
+        <th className="text-right font-normal">Right</th>
+        <th className="text-right font-normal">SI</th>
+      </tr>
+    </thead>
+    <tbody>
+      {entries.map(entry => (
+        <tr key={entry.label} className={entry.asymmetric ? 'text-yellow-400' : ''}>
+          <td className="flex items-center space-x-1">
+            {entry.asymmetric && <AlertTriangle size={12} />}
+            <span>{entry.label}</span>
+          </td>
+          <td className="text-right">{entry.left ?? '—'}</td>
+          <td className="text-right">{entry.right ?? '—'}</td>
+          <td className="text-right">{describeSymmetryIndex(entry.symmetryIndex)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Fills in the missing side with the other session from the same visit
+const pairWithVisitPartner = (params: URLSearchParams, sessions: SessionRecord[]): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  (['left', 'right'] as SoleSide[]).forEach(side => {
+    const otherSide: SoleSide = side === 'left' ? 'right' : 'left';
+    const selected = sessions.find(session => session.id === next.get(side));
+    const partner = selected && !next.get(otherSide) ? findVisitPartner(selected, sessions) : null;
+    if (partner) next.set(otherSide, partner.id);
+  });
+  return next;
+};
+
+// Left and right sessions of one visit side by side, with symmetry indices per sensor and region
+const SessionComparisonScreen: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [thresholdPercent, setThresholdPercent] = useState(getAsymmetryThreshold());
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+
+  const sessionStore = useRef(new SessionStore());
+  const alertRuleStore = useRef(new AlertRuleStore());
+  const exportManager = useRef(new ExportManager());
+  const setSearchParamsRef = useRef(setSearchParams);
+  setSearchParamsRef.current = setSearchParams;
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        const records = await sessionStore.current.list();
+        setSessions(records);
+        // Opened from one session (e.g. the session viewer): pick its partner
+        setSearchParamsRef.current(prev => pairWithVisitPartner(prev, records), { replace: true });
+      } catch (loadError) {
+        console.error('Failed to load sessions:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load sessions');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, []);
+
+  const leftSession = sessions.find(session => session.id === searchParams.get('left')) ?? null;
+  const rightSession = sessions.find(session => session.id === searchParams.get('right')) ?? null;
+  const patientId = leftSession?.patient?.id ?? null;
+
+  // Asymmetry rules with the patient's overrides
+  useEffect(() => {
+    alertRuleStore.current.getEffectiveRules(patientId)
+      .then(setAlertRules)
+      .catch(loadError => console.error('Failed to load alert rules:', loadError));
+  }, [patientId]);
+
+  // Picking one side fills in the other from the same visit when it is still empty
+  const selectSession = (side: SoleSide, sessionId: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (sessionId) {
+      next.set(side, sessionId);
+    } else {
+      next.delete(side);
+    }
+    setSearchParams(pairWithVisitPartner(next, sessions), { replace: true });
+  };
+
+  const changeThreshold = (value: number) => {
+    if (!(value > 0)) return;
+    setThresholdPercent(value);
+    setAsymmetryThreshold(value);
+  };
+
+  let comparison: BilateralComparison | null = null;
+  let comparisonError = '';
+  if (leftSession && rightSession) {
+    try {
+      comparison = compareSessions(leftSession, rightSession, thresholdPercent);
+    } catch (compareError) {
+      comparisonError = compareError instanceof Error ? compareError.message : 'Sessions cannot be compared';
+    }
+  }
+
+  const bilateralAlerts = leftSession && comparison?.unitsMatch
+    ? evaluateAlertRules(alertRules, {
+      sensorLayout: getSensorLayout(leftSession.sensorLayoutId),
+      pressureUnit: leftSession.pressureUnit,
+      peaks: null,
+      means: null,
+      sway: null,
+      symmetry: comparison
+    })
+    : [];
+
+  const runExport = async (label: string, exportFn: () => Promise<void>) => {
+    try {
+      await exportFn();
+      setStatus(`${label} exported successfully`);
+      setError('');
+    } catch (exportError) {
+      console.error(`Failed to export ${label}:`, exportError);
+      setError(`Failed to export ${label}`);
+    }
+  };
+
+  const sessionSelect = (side: SoleSide, selected: SessionRecord | null) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-1">{side === 'left' ? 'Left Sole' : 'Right Sole'} Session</label>
+      <select
+        className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white text-sm"
+        value={selected?.id ?? ''}
+        onChange={(e) => selectSession(side, e.target.value)}
+      >
+        <option value="">Select a session...</option>
+        {sessions.filter(session => session.soleType === side).map(session => (
+          <option key={session.id} value={session.id}>{describeSession(session)}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const asymmetricChannels = comparison
+    ? comparison.sensors.flatMap((entry, index) => (entry.asymmetric ? [index] : []))
+    : [];
+  const unitLabel = leftSession ? getPressureUnitLabel(leftSession.pressureUnit) : '';
+  const patientMismatch = leftSession && rightSession && leftSession.patient?.id !== rightSession.patient?.id;
+
+  return (
+    <div className="min-h-screen bg-[#1e1e1e] text-white p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <header className="flex items-center justify-between border-b border-gray-700 pb-6">
+          <h1 className="text-3xl font-light flex items-center space-x-3">
+            <Scale size={28} className="text-[#d32f2f]" />
+            <span>Left / Right Comparison</span>
+          </h1>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-300">Asymmetry threshold (|SI| %):</label>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={thresholdPercent}
+              onChange={(e) => changeThreshold(Number(e.target.value))}
+              className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+            />
+          </div>
+        </header>
+
+        {(status || error) && (
+          <div className={`text-sm p-3 rounded border ${
+            error ? 'text-red-400 bg-red-900 bg-opacity-30 border-red-700' : 'text-green-400 bg-green-900 bg-opacity-30 border-green-700'
+          }`}>
+            {error || status}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-400 flex items-center justify-center space-x-2">
+            <Loader2 className="animate-spin" size={16} />
+            <span>Loading sessions...</span>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+            {/* Selection & Symmetry */}
+            <div className="bg-gray-900 rounded-lg p-6 border border-gray-700 space-y-4">
+              <h2 className="text-xl font-medium">⚖️ Symmetry</h2>
+              {sessionSelect('left', leftSession)}
+              {sessionSelect('right', rightSession)}
+
+              {patientMismatch && (
+                <div className="text-yellow-400 text-sm flex items-center space-x-2">
+                  <AlertTriangle size={16} />
+                  <span>The sessions belong to different patients</span>
+                </div>
+              )}
+              {comparisonError && (
+                <div className="text-red-400 text-sm flex items-center space-x-2">
+                  <AlertTriangle size={16} />
+                  <span>{comparisonError}</span>
+                </div>
+              )}
+              {!leftSession || !rightSession ? (
+                <div className="text-sm text-gray-500">Pick a left and a right session from the same visit</div>
+              ) : comparison && (
+                <>
+                  <div className="space-y-3 pt-3 border-t border-gray-700">
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Load Distribution:</span>
+                      <span className="font-medium">
+                        {comparison.leftLoadShare !== null
+                          ? `${comparison.leftLoadShare}% L / ${Math.round((100 - comparison.leftLoadShare) * 10) / 10}% R`
+                          : '—'}
+                      </span>
+                    </div>
+                    {comparison.leftLoadShare !== null && (
+                      <div className="w-full h-3 bg-gray-700 rounded-full overflow-hidden flex">
+                        <div className="bg-red-500 h-full" style={{ width: `${comparison.leftLoadShare}%` }}></div>
+                        <div className="bg-green-500 h-full flex-1"></div>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Load Symmetry Index:</span>
+                      <span className="font-medium">{describeSymmetryIndex(comparison.loadSymmetryIndex)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Above Threshold:</span>
+                      <span className={`font-medium ${comparison.asymmetricCount > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                        {comparison.asymmetricCount > 0 ? `${comparison.asymmetricCount} sensors/regions` : 'None'}
+                      </span>
+                    </div>
+                    {!comparison.unitsMatch && (
+                      <div className="text-yellow-400 text-sm flex items-center space-x-2">
+                        <AlertTriangle size={16} />
+                        <span>Only one session is calibrated - symmetry indices are not comparable</span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="pt-3 border-t border-gray-700">
+                    <ClinicalAlertsPanel alerts={bilateralAlerts} title="Bilateral Alerts" emptyText="No asymmetry rule was triggered" />
+                  </div>
+
+                  <div className="pt-3 border-t border-gray-700 space-y-4">
+                    <SymmetryTable title={`Region (mean ${unitLabel})`} entries={comparison.regions} />
+                    <details>
+                      <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-200">Per-sensor symmetry</summary>
+                      <div className="mt-2">
+                        <SymmetryTable title={`Point (mean ${unitLabel})`} entries={comparison.sensors} />
+                      </div>
+                    </details>
+                    <div className="text-xs text-gray-500">
+                      SI = (L − R) / mean of both; the letter shows the side carrying more
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Mirrored Heatmaps */}
+            <div className="xl:col-span-2 space-y-6">
+              <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
+                <h2 className="text-xl font-medium mb-4 flex items-center justify-between">
+                  <span>🦶 Left &amp; Right Sole Heatmaps</span>
+                  {asymmetricChannels.length > 0 && (
+                    <span className="text-sm bg-yellow-900 text-yellow-100 px-2 py-1 rounded-full">
+                      Asymmetric sensors outlined
+                    </span>
+                  )}
+                </h2>
+                <div id="comparison-heatmap-container" className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {([['left', leftSession], ['right', rightSession]] as [SoleSide, SessionRecord | null][]).map(([side, session]) => (
+                    <div key={side}>
+                      <div className="text-center text-sm text-gray-300 mb-2">
+                        {side === 'left' ? 'Left Sole' : 'Right Sole'}
+                        {session && <span className="text-gray-500"> · {new Date(session.createdAt).toLocaleString()}</span>}
+                      </div>
+                      {session ? (
+                        <HeatmapVisualization
+                          pressureValues={session.averagePressures}
+                          soleType={side}
+                          isRecording={false}
+                          sensorLayout={getSensorLayout(session.sensorLayoutId)}
+                          pressureUnit={session.pressureUnit}
+                          mirrored={side === 'right'}
+                          highlightedChannels={asymmetricChannels}
+                        />
+                      ) : (
+                        <div className="p-8 text-center text-gray-500 text-sm">No session selected</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
+                <h2 className="text-xl font-medium mb-4">🧾 Bilateral Report</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <button
+                    onClick={() => leftSession && rightSession && runExport('Bilateral Excel report', () =>
+                      exportManager.current.exportComparisonToExcel(leftSession, rightSession, thresholdPercent, bilateralAlerts))}
+                    disabled={!comparison}
+                    className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                  >
+                    <FileText size={16} />
+                    <span>Download Excel (.xlsx)</span>
+                  </button>
+                  <button
+                    onClick={() => leftSession && rightSession && runExport('Bilateral package', () =>
+                      exportManager.current.exportComparisonAll(leftSession, rightSession, thresholdPercent, bilateralAlerts, 'comparison-heatmap-container'))}
+                    disabled={!comparison}
+                    className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+                  >
+                    <Archive size={16} />
+                    <span>Export All (.zip)</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Navigation */}
+        <div className="flex justify-center space-x-4 pt-6 border-t border-gray-700">
+          <Link
+            to="/history"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            ← Back to History
+          </Link>
+          <Link
+            to="/patients"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            👤 Patients
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionComparisonScreen;
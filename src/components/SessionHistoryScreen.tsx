@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { History, Eye, FileText, Trash2, Loader2, AlertTriangle, Search } from 'lucide-react';
+import SessionStore, { SessionRecord } from '../utils/SessionStore';
+import ExportManager from '../utils/ExportManager';
+import { getSensorLayout } from '../utils/SensorLayouts';
+import { formatPatientLabel } from '../utils/PatientStore';
+import { getPressureUnitLabel } from '../utils/Calibration';
+
+const SessionHistoryScreen: React.FC = () => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [sideFilter, setSideFilter] = useState<'all' | 'left' | 'right'>('all');
+  const [patientQuery, setPatientQuery] = useState('');
+
+  const sessionStore = useRef(new SessionStore());
+  const exportManager = useRef(new ExportManager());
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        setSessions(await sessionStore.current.list());
+      } catch (loadError) {
+        console.error('Failed to load sessions:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load sessions');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, []);
+
+  const deleteSession = async (session: SessionRecord) => {
+    if (!confirm(`Delete the ${session.soleType} sole session from ${new Date(session.createdAt).toLocaleString()}?`)) {
+      return;
+    }
+
+    try {
+      await sessionStore.current.delete(session.id);
+      setSessions(prev => prev.filter(item => item.id !== session.id));
+    } catch (deleteError) {
+      console.error('Failed to delete session:', deleteError);
+      setError('Failed to delete session');
+    }
+  };
+
+  const exportExcel = async (session: SessionRecord) => {
+    try {
+      await exportManager.current.exportToExcel(session);
+    } catch (exportError) {
+      console.error('Failed to export Excel:', exportError);
+      setError('Failed to export Excel report');
+    }
+  };
+
+  const averageOf = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, val) => sum + val, 0) / values.length) : 0;
+
+  const matchesPatient = (session: SessionRecord) => {
+    const needle = patientQuery.trim().toLowerCase();
+    if (!needle) return true;
+    if (!session.patient) return false;
+    return session.patient.name.toLowerCase().includes(needle) ||
+      session.patient.patientCode.toLowerCase().includes(needle);
+  };
+
+  const visibleSessions = sessions.filter(session =>
+    (sideFilter === 'all' || session.soleType === sideFilter) && matchesPatient(session)
+  );
+
+  return (
+    <div className="min-h-screen bg-[#1e1e1e] text-white p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <header className="flex items-center justify-between border-b border-gray-700 pb-6">
+          <h1 className="text-3xl font-light flex items-center space-x-3">
+            <History size={28} className="text-[#d32f2f]" />
+            <span>Session History</span>
+          </h1>
+          <div className="flex items-center space-x-2">
+            <div className="relative">
+              <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-500" />
+              <input
+                type="text"
+                value={patientQuery}
+                onChange={(e) => setPatientQuery(e.target.value)}
+                placeholder="Patient name or ID"
+                className="bg-gray-800 border border-gray-600 rounded pl-8 pr-3 py-1 text-white text-sm"
+              />
+            </div>
+            <label className="text-sm text-gray-300">Sole:</label>
+            <select
+              className="bg-gray-800 border border-gray-600 rounded px-3 py-1 text-white text-sm"
+              value={sideFilter}
+              onChange={(e) => setSideFilter(e.target.value as 'all' | 'left' | 'right')}
+            >
+              <option value="all">All</option>
+              <option value="left">Left</option>
+              <option value="right">Right</option>
+            </select>
+          </div>
+        </header>
+
+        {error && (
+          <div className="text-sm text-red-400 bg-red-900 bg-opacity-30 p-3 rounded border border-red-700 flex items-center space-x-2">
+            <AlertTriangle size={16} />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-hidden">
+          {isLoading ? (
+            <div className="p-8 text-center text-gray-400 flex items-center justify-center space-x-2">
+              <Loader2 className="animate-spin" size={16} />
+              <span>Loading sessions...</span>
+            </div>
+          ) : visibleSessions.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>{sessions.length === 0 ? 'No saved sessions yet' : 'No sessions match the current filters'}</p>
+              <p className="text-xs mt-1">Completed measurements are stored here automatically, even offline</p>
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800 text-gray-300">
+                <tr>
+                  <th className="text-left px-4 py-3 font-medium">Date</th>
+                  <th className="text-left px-4 py-3 font-medium">Patient</th>
+                  <th className="text-left px-4 py-3 font-medium">Sole</th>
+                  <th className="text-left px-4 py-3 font-medium">Layout</th>
+                  <th className="text-left px-4 py-3 font-medium">Device</th>
+                  <th className="text-right px-4 py-3 font-medium">Samples</th>
+                  <th className="text-right px-4 py-3 font-medium">Avg Pressure</th>
+                  <th className="text-left px-4 py-3 font-medium">Notes</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleSessions.map(session => (
+                  <tr key={session.id} className="border-t border-gray-800 hover:bg-gray-800/50">
+                    <td className="px-4 py-3">{new Date(session.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-3">{session.patient ? formatPatientLabel(session.patient) : '—'}</td>
+                    <td className="px-4 py-3 capitalize">{session.soleType}</td>
+                    <td className="px-4 py-3">{getSensorLayout(session.sensorLayoutId).name}</td>
+                    <td className="px-4 py-3 text-gray-400">{session.device?.name || '—'}</td>
+                    <td className="px-4 py-3 text-right">{session.pressureData.length}</td>
+                    <td className={`px-4 py-3 text-right ${session.pressureUnit === 'raw' ? 'text-yellow-400' : ''}`}>
+                      {averageOf(session.averagePressures)} {getPressureUnitLabel(session.pressureUnit)}
+                    </td>
+                    <td className="px-4 py-3 text-gray-400 max-w-xs truncate">{session.doctorNotes || '—'}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={() => navigate(`/history/${session.id}`)}
+                          className="p-1.5 text-gray-400 hover:text-white"
+                          title="Open session"
+                        >
+                          <Eye size={16} />
+                        </button>
+                        <button
+                          onClick={() => exportExcel(session)}
+                          className="p-1.5 text-gray-400 hover:text-green-400"
+                          title="Download Excel"
+                        >
+                          <FileText size={16} />
+                        </button>
+                        <button
+                          onClick={() => deleteSession(session)}
+                          className="p-1.5 text-gray-400 hover:text-red-400"
+                          title="Delete session"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-center space-x-4 pt-6 border-t border-gray-700">
+          <Link
+            to="/left-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            ← Left Sole
+          </Link>
+          <Link
+            to="/right-sole"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            → Right Sole
+          </Link>
+          <Link
+            to="/compare"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            ⚖️ Compare L / R
+          </Link>
+          <Link
+            to="/patients"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            👤 Patients
+          </Link>
+          <Link
+            to="/alerts"
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            🚨 Alert Rules
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistoryScreen;
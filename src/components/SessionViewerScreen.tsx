@@ -0,0 +1,366 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { FileText, Image, Archive, Trash2, Save, Loader2, AlertTriangle } from 'lucide-react';
+import SessionStore, { SessionRecord } from '../utils/SessionStore';
+import ExportManager from '../utils/ExportManager';
+import { getSensorLayout } from '../utils/SensorLayouts';
+import { computeSwayMetrics } from '../utils/CenterOfPressure';
+import { computeSessionMetrics } from '../utils/ClinicalMetrics';
+import { calculateAge, formatPatientLabel } from '../utils/PatientStore';
+import { getPressureUnitLabel } from '../utils/Calibration';
+import { describeDataGaps, formatDataGap } from '../utils/DataGaps';
+import { assessLinkQuality, describeLinkQuality } from '../utils/LinkQuality';
+import { describeDeviceMetadata } from '../utils/DeviceInformation';
+import HeatmapVisualization from './HeatmapVisualization';
+import ClinicalMetricsPanel from './ClinicalMetricsPanel';
+import ClinicalAlertsPanel from './ClinicalAlertsPanel';
+import PressureTimelineChart from './PressureTimelineChart';
+import PlaybackControls from './PlaybackControls';
+import { findPeakFrames } from '../utils/PressureTimeline';
+
+const SessionViewerScreen: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [session, setSession] = useState<SessionRecord | null>(null);
+  const [doctorNotes, setDoctorNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+  const [timelineCursor, setTimelineCursor] = useState<number | null>(null); // sample shown instead of the averages
+
+  const sessionStore = useRef(new SessionStore());
+  const exportManager = useRef(new ExportManager());
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const record = sessionId ? await sessionStore.current.get(sessionId) : null;
+        if (record) {
+          setSession(record);
+          setDoctorNotes(record.doctorNotes);
+        } else {
+          setError('Session not found - it may have been deleted');
+        }
+      } catch (loadError) {
+        console.error('Failed to load session:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load session');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSession();
+  }, [sessionId]);
+
+  if (isLoading || !session) {
+    return (
+      <div className="min-h-screen bg-[#1e1e1e] text-white p-6 flex items-center justify-center">
+        {isLoading ? (
+          <div className="flex items-center space-x-2 text-gray-400">
+            <Loader2 className="animate-spin" size={16} />
+            <span>Loading session...</span>
+          </div>
+        ) : (
+          <div className="text-center space-y-4">
+            <div className="text-red-400 flex items-center space-x-2">
+              <AlertTriangle size={16} />
+              <span>{error}</span>
+            </div>
+            <Link to="/history" className="text-blue-400 hover:text-blue-300">← Back to history</Link>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const sensorLayout = getSensorLayout(session.sensorLayoutId);
+  const sway = computeSwayMetrics(session.copTrajectory);
+  const clinicalMetrics = computeSessionMetrics(session);
+  const averagePressure = Math.round(
+    session.averagePressures.reduce((sum, val) => sum + val, 0) / Math.max(1, session.averagePressures.length)
+  );
+  const maxValue = Math.max(...session.averagePressures);
+  const maxIndex = session.averagePressures.indexOf(maxValue);
+  const sideLabel = session.soleType === 'left' ? 'Left' : 'Right';
+  const cursorSample = timelineCursor !== null ? session.pressureData[timelineCursor] : undefined;
+  const peakFrames = findPeakFrames(session.pressureData);
+  const cursorPeak = peakFrames.find(peak => peak.index === timelineCursor);
+  const unitLabel = getPressureUnitLabel(session.pressureUnit);
+  const sessionForExport = { ...session, doctorNotes };
+  const patientAge = session.patient ? calculateAge(session.patient.dateOfBirth, new Date(session.createdAt)) : null;
+
+  const runExport = async (label: string, exportFn: () => Promise<void>) => {
+    try {
+      await exportFn();
+      setStatus(`${label} exported successfully`);
+      setError('');
+    } catch (exportError) {
+      console.error(`Failed to export ${label}:`, exportError);
+      setError(`Failed to export ${label}`);
+    }
+  };
+
+  const saveNotes = async () => {
+    try {
+      await sessionStore.current.save(sessionForExport);
+      setSession(sessionForExport);
+      setStatus('Notes saved');
+    } catch (saveError) {
+      console.error('Failed to save notes:', saveError);
+      setError('Failed to save notes');
+    }
+  };
+
+  const deleteSession = async () => {
+    if (!confirm('Delete this session permanently?')) return;
+
+    try {
+      await sessionStore.current.delete(session.id);
+      navigate('/history');
+    } catch (deleteError) {
+      console.error('Failed to delete session:', deleteError);
+      setError('Failed to delete session');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#1e1e1e] text-white p-6">
+      <div className="max-w-7xl mx-auto space-y-8">
+        {/* Header */}
+        <header className="flex items-center justify-between border-b border-gray-700 pb-6">
+          <div>
+            <h1 className="text-3xl font-light">🗂️ {sideLabel} Sole Session</h1>
+            <p className="text-base text-gray-200 mt-2">
+              {session.patient ? (
+                <>
+                  👤 {formatPatientLabel(session.patient)}
+                  {patientAge !== null && ` · Age ${patientAge}`}
+                  {session.patient.weightKg !== null && ` · ${session.patient.weightKg} kg`}
+                  {session.patient.shoeSize && ` · Shoe ${session.patient.shoeSize}`}
+                  {session.patient.diagnosisTags.length > 0 && ` · ${session.patient.diagnosisTags.join(', ')}`}
+                </>
+              ) : (
+                <span className="text-gray-500">No patient linked</span>
+              )}
+            </p>
+            <p className="text-sm text-gray-400 mt-1">
+              {new Date(session.createdAt).toLocaleString()} · {sensorLayout.name}
+              {session.device && ` · ${session.device.name}`}
+            </p>
+          </div>
+          <button
+            onClick={deleteSession}
+            className="flex items-center space-x-2 bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded transition-colors"
+          >
+            <Trash2 size={16} />
+            <span>Delete</span>
+          </button>
+        </header>
+
+        {(status || error) && (
+          <div className={`text-sm p-3 rounded border ${
+            error ? 'text-red-400 bg-red-900 bg-opacity-30 border-red-700' : 'text-green-400 bg-green-900 bg-opacity-30 border-green-700'
+          }`}>
+            {error || status}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+          {/* Summary & Notes */}
+          <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
+            <h2 className="text-xl font-medium mb-4">📊 Test Summary</h2>
+            <div className="space-y-3 mb-4">
+              <div className="flex justify-between">
+                <span className="text-gray-300">Protocol:</span>
+                <span className="font-medium text-right">{session.protocol.name}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Duration:</span>
+                <span className="font-medium">
+                  {session.elapsedSec !== null ? `${session.elapsedSec} s` : '—'}
+                  {session.stoppedEarly && ` (stopped early of ${session.protocol.plannedSec} s)`}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Data Points:</span>
+                <span className="font-medium">{session.pressureData.filter(data => data.phase === 'recording').length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Data Gaps:</span>
+                <span className={`font-medium text-right ${session.gaps.length > 0 ? 'text-yellow-400' : ''}`}>
+                  {describeDataGaps(session.gaps, session.recordedSec)}
+                </span>
+              </div>
+              {session.gaps.length > 0 && (
+                <div className="text-yellow-400 text-xs space-y-1">
+                  {session.gaps.map((gap, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <AlertTriangle size={12} />
+                      <span>{formatDataGap(gap)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {session.device && (
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Device:</span>
+                  <span className="font-medium text-right">{describeDeviceMetadata(session.device)}</span>
+                </div>
+              )}
+              {session.linkQuality && (
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Link Quality:</span>
+                  <span className={`font-medium text-right ${assessLinkQuality(session.linkQuality).length > 0 ? 'text-yellow-400' : ''}`}>
+                    {describeLinkQuality(session.linkQuality)}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-300">Average Pressure:</span>
+                <span className="font-medium">{averagePressure} {unitLabel}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Max Point:</span>
+                <span className="font-medium">P{maxIndex + 1} – {maxValue} {unitLabel}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Calibration:</span>
+                <span className={`font-medium ${session.calibration ? '' : 'text-yellow-400'}`}>
+                  {session.calibration
+                    ? `${session.calibration.model} fit, ${new Date(session.calibration.calibratedAt).toLocaleDateString()}`
+                    : 'None - raw ADC counts'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">COP Path / Ellipse:</span>
+                <span className="font-medium">{sway.pathLength} %FL / {sway.ellipseArea95} %FL²</span>
+              </div>
+            </div>
+
+            <div className="mb-4 pt-3 border-t border-gray-700">
+              <ClinicalAlertsPanel alerts={session.alerts} title="Clinical Alerts" emptyText="No alert rule was triggered" />
+            </div>
+
+            <ClinicalMetricsPanel metrics={clinicalMetrics} unitLabel={unitLabel} />
+
+            <label className="block text-sm font-medium text-gray-300 mb-2">📝 Doctor Notes</label>
+            <textarea
+              value={doctorNotes}
+              onChange={(e) => setDoctorNotes(e.target.value)}
+              className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white h-32 resize-none"
+            />
+            <button
+              onClick={saveNotes}
+              disabled={doctorNotes === session.doctorNotes}
+              className="mt-2 w-full bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+            >
+              <Save size={16} />
+              <span>Save Notes</span>
+            </button>
+          </div>
+
+          {/* Heatmap */}
+          <div className="bg-gray-900 rounded-lg p-6 border border-gray-700">
+            <h2 className="text-xl font-medium mb-4 flex items-center justify-between">
+              <span>🦶 {sideLabel} Sole Heatmap</span>
+              {cursorPeak ? (
+                <span className="text-sm bg-yellow-900 text-yellow-100 px-2 py-1 rounded-full">Peak Frame</span>
+              ) : cursorSample ? (
+                <span className="text-sm bg-blue-900 text-blue-100 px-2 py-1 rounded-full">Selected Instant</span>
+              ) : (
+                <span className="text-sm bg-green-900 text-green-100 px-2 py-1 rounded-full">Averaged Results</span>
+              )}
+            </h2>
+            <div id="session-heatmap-container">
+              <HeatmapVisualization
+                pressureValues={cursorSample ? cursorSample.values : session.averagePressures}
+                soleType={session.soleType}
+                isRecording={false}
+                sensorLayout={sensorLayout}
+                pressureUnit={session.pressureUnit}
+                copTrajectory={session.copTrajectory}
+                highlightedChannels={cursorPeak ? [cursorPeak.channel] : []}
+              />
+
+              <div className="mt-6 pt-4 border-t border-gray-700" data-html2canvas-ignore="true">
+                <div className="text-sm font-medium text-gray-300 mb-2">▶️ Playback</div>
+                <PlaybackControls
+                  pressureData={session.pressureData}
+                  pressureUnit={session.pressureUnit}
+                  elapsedSec={session.elapsedSec}
+                  peakFrames={peakFrames}
+                  frameIndex={timelineCursor}
+                  onFrameChange={setTimelineCursor}
+                />
+              </div>
+
+              {session.pressureData.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-gray-700">
+                  <div className="text-sm font-medium text-gray-300 mb-2">📈 Pressure Over Time</div>
+                  <PressureTimelineChart
+                    pressureData={session.pressureData}
+                    sensorLayout={sensorLayout}
+                    pressureUnit={session.pressureUnit}
+                    elapsedSec={session.elapsedSec}
+                    cursorIndex={timelineCursor}
+                    onCursorChange={setTimelineCursor}
+                    markedIndices={peakFrames.map(peak => peak.index)}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Exports */}
+          <div className="bg-gray-900 rounded-lg p-6 border border-gray-700 h-fit">
+            <h2 className="text-xl font-medium mb-4">🧾 Download Reports</h2>
+            <div className="space-y-3">
+              <button
+                onClick={() => runExport('Excel report', () => exportManager.current.exportToExcel(sessionForExport))}
+                className="w-full bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+              >
+                <FileText size={16} />
+                <span>Download Excel (.xlsx)</span>
+              </button>
+              <button
+                onClick={() => runExport('Heatmap image', () => exportManager.current.exportHeatmapImage(
+                  'session-heatmap-container',
+                  `${session.soleType}_sole_heatmap.png`
+                ))}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+              >
+                <Image size={16} />
+                <span>Download Heatmap Image (.png)</span>
+              </button>
+              <button
+                onClick={() => runExport('Export package', () => exportManager.current.exportAll(sessionForExport, 'session-heatmap-container'))}
+                className="w-full bg-purple-600 hover:bg-purple-700 text-white py-2 px-4 rounded transition-colors flex items-center justify-center space-x-2"
+              >
+                <Archive size={16} />
+                <span>Export All (.zip)</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-center space-x-4 pt-6 border-t border-gray-700">
+          <Link
+            to="/history"
+            className="bg-[#d32f2f] hover:bg-red-700 text-white py-2 px-6 rounded transition-colors"
+          >
+            ← Back to History
+          </Link>
+          <Link
+            to={`/compare?${session.soleType}=${session.id}`}
+            className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded transition-colors"
+          >
+            ⚖️ Compare with {session.soleType === 'left' ? 'Right' : 'Left'} Sole
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionViewerScreen;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { FlaskConical, Loader2 } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import { DEFAULT_SIMULATOR_SCENARIO, SIMULATOR_SCENARIOS, getSimulatorScenario } from '../utils/SimulatedDevice';
+
+interface SimulatorControlsProps {
+  bleManager: BLEManager;
+  disabled: boolean;
+  onLog: (message: string) => void;
+  onConnected?: () => void;
+}
+
+// Explicit opt-in for the simulated insole, for demos and testing without an ESP32
+const SimulatorControls: React.FC<SimulatorControlsProps> = ({ bleManager, disabled, onLog, onConnected }) => {
+  const [scenarioId, setScenarioId] = useState(DEFAULT_SIMULATOR_SCENARIO.id);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const scenario = getSimulatorScenario(scenarioId);
+
+  const connectSimulator = async () => {
+    setIsConnecting(true);
+    onLog(`[INFO] Connecting simulator: ${scenario.name}...`);
+
+    try {
+      await bleManager.connectSimulator(scenario);
+      onConnected?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Simulator failed to start';
+      onLog(`[ERROR] Simulator connection failed: ${errorMessage}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 bg-gray-800 p-3 rounded border border-gray-700">
+      <label className="block text-sm font-medium text-gray-300 flex items-center space-x-2">
+        <FlaskConical size={14} />
+        <span>No hardware? Use the simulator</span>
+      </label>
+      <div className="flex space-x-2">
+        <select
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+          onChange={(e) => setScenarioId(e.target.value)}
+          disabled={disabled || isConnecting}
+          value={scenarioId}
+        >
+          {SIMULATOR_SCENARIOS.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={connectSimulator}
+          disabled={disabled || isConnecting}
+          className="px-3 py-1 bg-purple-700 hover:bg-purple-800 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded text-sm flex items-center space-x-1"
+        >
+          {isConnecting && <Loader2 className="animate-spin" size={14} />}
+          <span>Connect Simulator</span>
+        </button>
+      </div>
+      <div className="text-xs text-gray-400">{scenario.description}. Synthetic data - not for clinical use.</div>
+    </div>
+  );
+};
+
+export default SimulatorControls;
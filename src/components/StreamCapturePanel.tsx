@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Square, Upload } from 'lucide-react';
+import BLEManager from '../utils/BLEManager';
+import { REPLAY_SPEEDS } from '../utils/ReplayDevice';
+import { downloadCapture, getCaptureDurationSec, parseCapture } from '../utils/StreamCapture';
+
+interface StreamCapturePanelProps {
+  bleManager: BLEManager;
+  connected: boolean;
+  disabled: boolean;
+  onLog: (message: string) => void;
+  onConnected?: () => void;
+}
+
+// Raw notification capture while connected, capture replay while not - for debugging firmware and decoders
+const StreamCapturePanel: React.FC<StreamCapturePanelProps> = ({ bleManager, connected, disabled, onLog, onConnected }) => {
+  const [isCapturing, setIsCapturing] = useState(bleManager.isCapturing());
+  const [captureCount, setCaptureCount] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // The manager does not report each captured notification, so poll the count
+  useEffect(() => {
+    if (!isCapturing) return;
+    const timer = setInterval(() => setCaptureCount(bleManager.getCaptureCount()), 1000);
+    return () => clearInterval(timer);
+  }, [isCapturing, bleManager]);
+
+  const startCapture = () => {
+    bleManager.startCapture();
+    setCaptureCount(0);
+    setIsCapturing(true);
+  };
+
+  const stopCapture = () => {
+    const capture = bleManager.stopCapture();
+    setIsCapturing(false);
+    if (!capture || capture.notifications.length === 0) {
+      onLog('[WARNING] Capture is empty - nothing was saved');
+      return;
+    }
+    downloadCapture(capture);
+    onLog(`[INFO] Saved capture: ${capture.notifications.length} notifications, ${getCaptureDurationSec(capture)} s`);
+  };
+
+  const replayFile = async (file: File) => {
+    try {
+      const capture = parseCapture(await file.text());
+      onLog(`[INFO] Replaying ${file.name} at ${speed}× speed`);
+      await bleManager.connectReplay(capture, speed);
+      onConnected?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Could not read capture';
+      onLog(`[ERROR] Replay failed: ${errorMessage}`);
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-2 bg-gray-800 p-3 rounded border border-gray-700 text-sm">
+      <div className="font-medium text-gray-300">🧪 Raw Stream Capture</div>
+
+      {connected || isCapturing ? (
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">
+            {isCapturing ? `⏺ Capturing... ${captureCount} notifications` : 'Record every raw notification to a file'}
+          </span>
+          <button
+            onClick={isCapturing ? stopCapture : startCapture}
+            className={`px-3 py-1 rounded text-white flex items-center space-x-1 ${
+              isCapturing ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+          >
+            {isCapturing ? <Square size={12} /> : <Circle size={12} />}
+            <span>{isCapturing ? 'Stop & Save' : 'Start Capture'}</span>
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-2">
+          <select
+            className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            disabled={disabled}
+            value={speed}
+          >
+            {REPLAY_SPEEDS.map(option => (
+              <option key={option} value={option}>{option}×</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={disabled}
+            className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded flex items-center justify-center space-x-1"
+          >
+            <Upload size={12} />
+            <span>Replay Capture File</span>
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) replayFile(file);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamCapturePanel;
@@ -0,0 +1,61 @@
+import { STORE_ALERT_OVERRIDES, STORE_ALERT_RULES, withStore } from './LocalDatabase';
+import {
+  AlertRule,
+  AlertRuleOverride,
+  DEFAULT_ALERT_RULES,
+  PatientAlertOverrides,
+  applyAlertOverrides,
+  validateAlertRule
+} from './AlertRules';
+
+// Clinic-wide alert rules, plus per-patient overrides keyed by patient ID
+class AlertRuleStore {
+  // Alphabetical by name
+  async list(): Promise<AlertRule[]> {
+    const rules = await withStore<AlertRule[]>(STORE_ALERT_RULES, 'readonly', store => store.getAll());
+    return rules.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async save(rule: AlertRule): Promise<AlertRule> {
+    const validated = validateAlertRule(rule);
+    await withStore(STORE_ALERT_RULES, 'readwrite', store => store.put(validated));
+    return validated;
+  }
+
+  async delete(ruleId: string): Promise<void> {
+    await withStore(STORE_ALERT_RULES, 'readwrite', store => store.delete(ruleId));
+  }
+
+  // Puts the default rules back; custom rules are kept
+  async restoreDefaults(): Promise<AlertRule[]> {
+    for (const rule of DEFAULT_ALERT_RULES) {
+      await withStore(STORE_ALERT_RULES, 'readwrite', store => store.put(rule));
+    }
+    return this.list();
+  }
+
+  async getOverrides(patientId: string): Promise<AlertRuleOverride[]> {
+    const record = await withStore<PatientAlertOverrides | undefined>(STORE_ALERT_OVERRIDES, 'readonly', store => store.get(patientId));
+    return record?.overrides || [];
+  }
+
+  // Overrides without any changed field are dropped
+  async saveOverrides(patientId: string, overrides: AlertRuleOverride[]): Promise<void> {
+    const record: PatientAlertOverrides = {
+      patientId,
+      overrides: overrides.filter(override =>
+        override.enabled !== undefined || override.threshold !== undefined || override.severity !== undefined
+      ),
+      updatedAt: new Date().toISOString()
+    };
+    await withStore(STORE_ALERT_OVERRIDES, 'readwrite', store => store.put(record));
+  }
+
+  // The rules that apply to a measurement of this patient
+  async getEffectiveRules(patientId: string | null): Promise<AlertRule[]> {
+    const rules = await this.list();
+    return patientId ? applyAlertOverrides(rules, await this.getOverrides(patientId)) : rules;
+  }
+}
+
+export default AlertRuleStore;
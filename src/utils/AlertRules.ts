@@ -0,0 +1,280 @@
+import { SensorLayout, getChannelLabels, getSensorLayout } from './SensorLayouts';
+import { PressureUnit, getPressureUnitLabel } from './Calibration';
+import { SwayMetrics, computeSwayMetrics } from './CenterOfPressure';
+import { FOOT_REGIONS, computeSessionMetrics, getRegionChannels } from './ClinicalMetrics';
+import { BilateralComparison } from './Symmetry';
+import { SessionRecord } from './SessionStore';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export type AlertMetric = 'peak' | 'mean' | 'asymmetry' | 'swayPath' | 'swayArea' | 'swayVelocity';
+export type AlertScope = 'sensor' | 'region' | 'foot';
+
+export const ALERT_SEVERITIES: { id: AlertSeverity; label: string }[] = [
+  { id: 'info', label: 'Info' },
+  { id: 'warning', label: 'Warning' },
+  { id: 'critical', label: 'Critical' }
+];
+
+// What each metric can be applied to; pressure metrics take the threshold in the rule's unit
+export const ALERT_METRICS: { id: AlertMetric; label: string; scopes: AlertScope[]; unit: string | null }[] = [
+  { id: 'peak', label: 'Peak pressure', scopes: ['sensor', 'region', 'foot'], unit: null },
+  { id: 'mean', label: 'Mean pressure', scopes: ['sensor', 'region', 'foot'], unit: null },
+  { id: 'asymmetry', label: 'Asymmetry |SI|', scopes: ['sensor', 'region', 'foot'], unit: '%' },
+  { id: 'swayPath', label: 'COP path length', scopes: ['foot'], unit: '%FL' },
+  { id: 'swayArea', label: 'COP 95% ellipse area', scopes: ['foot'], unit: '%FL²' },
+  { id: 'swayVelocity', label: 'COP mean velocity', scopes: ['foot'], unit: '%FL/s' }
+];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  scope: AlertScope;
+  target: string; // channel label ("P3") or region id; '' = any sensor/region
+  threshold: number; // fires when the value is above it
+  pressureUnit: PressureUnit | null; // peak/mean rules with a unit only fire on data in it; null = any unit (always null for the other metrics)
+  severity: AlertSeverity;
+  message: string;
+}
+
+// Per-patient changes to a rule; unset fields keep the rule's own value
+export interface AlertRuleOverride {
+  ruleId: string;
+  enabled?: boolean;
+  threshold?: number;
+  severity?: AlertSeverity;
+}
+
+export interface PatientAlertOverrides {
+  patientId: string;
+  overrides: AlertRuleOverride[];
+  updatedAt: string;
+}
+
+export interface TriggeredAlert {
+  ruleId: string;
+  severity: AlertSeverity;
+  message: string;
+  subjects: string[]; // sensors/regions over the threshold, ['Foot'] for whole-foot rules
+  value: number; // worst value seen
+  threshold: number;
+  unitLabel: string;
+}
+
+// Values a rule set is checked against; metrics that are not available yet are null
+export interface AlertContext {
+  sensorLayout: SensorLayout;
+  pressureUnit: PressureUnit;
+  peaks: number[] | null; // per channel
+  means: number[] | null; // per channel; the running average while recording
+  sway: SwayMetrics | null;
+  symmetry: BilateralComparison | null;
+}
+
+// The first rule is the original fixed warning: a sensor's averaged pressure above 200, in whatever
+// unit the data is in. While recording it is checked against the running average.
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'mean-pressure-200',
+    name: 'High pressure point',
+    enabled: true,
+    metric: 'mean',
+    scope: 'sensor',
+    target: '',
+    threshold: 200,
+    pressureUnit: null,
+    severity: 'warning',
+    message: 'Pressure point above the limit - consider medical evaluation'
+  },
+  {
+    id: 'load-asymmetry',
+    name: 'Load asymmetry',
+    enabled: true,
+    metric: 'asymmetry',
+    scope: 'foot',
+    target: '',
+    threshold: 15,
+    pressureUnit: null,
+    severity: 'warning',
+    message: 'Load is unevenly distributed between the feet'
+  },
+  {
+    id: 'sway-area',
+    name: 'Large postural sway',
+    enabled: false,
+    metric: 'swayArea',
+    scope: 'foot',
+    target: '',
+    threshold: 20,
+    pressureUnit: null,
+    severity: 'info',
+    message: 'Centre of pressure sway is larger than expected for quiet standing'
+  }
+];
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export const getSeverityLabel = (severity: AlertSeverity): string =>
+  ALERT_SEVERITIES.find(option => option.id === severity)?.label || severity;
+
+export const isPressureMetric = (metric: AlertMetric): boolean => metric === 'peak' || metric === 'mean';
+
+export const getMetricUnitLabel = (metric: AlertMetric, pressureUnit: PressureUnit | null): string =>
+  ALERT_METRICS.find(option => option.id === metric)?.unit ?? (pressureUnit ? getPressureUnitLabel(pressureUnit) : 'kPa or raw');
+
+export const createAlertRuleId = (): string =>
+  `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const getRegionLabel = (region: string): string =>
+  FOOT_REGIONS.find(option => option.id === region)?.label || region;
+
+// "Peak pressure > 200 kPa, any sensor"
+export const describeAlertRule = (rule: AlertRule): string => {
+  const metric = ALERT_METRICS.find(option => option.id === rule.metric)?.label || rule.metric;
+  const where = rule.scope === 'foot'
+    ? 'whole foot'
+    : rule.target
+      ? (rule.scope === 'region' ? getRegionLabel(rule.target) : rule.target)
+      : `any ${rule.scope}`;
+  return `${metric} > ${rule.threshold} ${getMetricUnitLabel(rule.metric, rule.pressureUnit)}, ${where}`;
+};
+
+// Checks a rule loaded from storage or edited in the UI; throws with the field at fault
+export const validateAlertRule = (rule: AlertRule): AlertRule => {
+  const metric = ALERT_METRICS.find(option => option.id === rule.metric);
+  if (!rule.name.trim()) throw new Error('Rule needs a name');
+  if (!metric) throw new Error(`Unknown metric "${rule.metric}"`);
+  if (!metric.scopes.includes(rule.scope)) throw new Error(`${metric.label} cannot be applied per ${rule.scope}`);
+  if (!Number.isFinite(rule.threshold) || rule.threshold <= 0) throw new Error('Threshold must be a positive number');
+  if (!rule.message.trim()) throw new Error('Rule needs a message');
+  return {
+    ...rule,
+    name: rule.name.trim(),
+    message: rule.message.trim(),
+    target: rule.scope === 'foot' ? '' : rule.target,
+    pressureUnit: isPressureMetric(rule.metric) ? rule.pressureUnit ?? null : null
+  };
+};
+
+export const applyAlertOverrides = (rules: AlertRule[], overrides: AlertRuleOverride[]): AlertRule[] =>
+  rules.map(rule => {
+    const override = overrides.find(item => item.ruleId === rule.id);
+    return override
+      ? {
+        ...rule,
+        enabled: override.enabled ?? rule.enabled,
+        threshold: override.threshold ?? rule.threshold,
+        severity: override.severity ?? rule.severity
+      }
+      : rule;
+  });
+
+interface RuleValue {
+  subject: string;
+  value: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+
+// Values the rule looks at, or null when the context cannot answer it
+const collectValues = (rule: AlertRule, context: AlertContext): RuleValue[] | null => {
+  const { sensorLayout, peaks, means, sway, symmetry } = context;
+  const channelLabels = getChannelLabels(sensorLayout);
+
+  if (rule.metric === 'asymmetry') {
+    if (!symmetry) return null;
+    const entries = rule.scope === 'sensor' ? symmetry.sensors : rule.scope === 'region' ? symmetry.regions : null;
+    if (!entries) {
+      return symmetry.loadSymmetryIndex !== null ? [{ subject: 'Foot', value: Math.abs(symmetry.loadSymmetryIndex) }] : [];
+    }
+    const targetLabel = rule.scope === 'region' ? getRegionLabel(rule.target) : rule.target;
+    return entries
+      .filter(entry => entry.symmetryIndex !== null && (!rule.target || entry.label === targetLabel))
+      .map(entry => ({ subject: entry.label, value: Math.abs(entry.symmetryIndex as number) }));
+  }
+
+  if (rule.metric === 'swayPath' || rule.metric === 'swayArea' || rule.metric === 'swayVelocity') {
+    if (!sway || sway.sampleCount < 2) return null;
+    const value = rule.metric === 'swayPath' ? sway.pathLength : rule.metric === 'swayArea' ? sway.ellipseArea95 : sway.meanVelocity;
+    return [{ subject: 'Foot', value }];
+  }
+
+  // Only pressure values depend on the unit - asymmetry and sway rules above never check it
+  const values = rule.metric === 'peak' ? peaks : means;
+  if (!values || (rule.pressureUnit && context.pressureUnit !== rule.pressureUnit)) return null;
+  // A region's peak is its highest sensor, its mean the mean of its sensors
+  const combine = (indices: number[]) => {
+    const selected = indices.map(index => values[index] || 0);
+    return rule.metric === 'peak' ? Math.max(...selected) : Math.round(mean(selected) * 10) / 10;
+  };
+
+  if (rule.scope === 'sensor') {
+    return channelLabels
+      .map((label, index) => ({ subject: label, value: values[index] || 0 }))
+      .filter(item => !rule.target || item.subject === rule.target);
+  }
+  if (rule.scope === 'region') {
+    const regionChannels = getRegionChannels(sensorLayout);
+    return FOOT_REGIONS
+      .filter(region => (!rule.target || region.id === rule.target) && regionChannels[region.id].length > 0)
+      .map(region => ({ subject: region.label, value: combine(regionChannels[region.id]) }));
+  }
+  return [{ subject: 'Foot', value: combine(channelLabels.map((_, index) => index)) }];
+};
+
+/**
+ * Checks every enabled rule against the context. Rules whose metric is not
+ * available (no symmetry for a single foot, no sway while recording, a kPa
+ * rule on raw data) are skipped. Alerts come back most severe first.
+ */
+export const evaluateAlertRules = (rules: AlertRule[], context: AlertContext): TriggeredAlert[] =>
+  rules
+    .filter(rule => rule.enabled)
+    .flatMap(rule => {
+      const triggered = (collectValues(rule, context) || []).filter(item => item.value > rule.threshold);
+      if (triggered.length === 0) return [];
+      return [{
+        ruleId: rule.id,
+        severity: rule.severity,
+        message: rule.message,
+        subjects: triggered.map(item => item.subject),
+        value: Math.max(...triggered.map(item => item.value)),
+        threshold: rule.threshold,
+        unitLabel: getMetricUnitLabel(rule.metric, rule.pressureUnit ?? context.pressureUnit)
+      }];
+    })
+    .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+// Single-foot rules against a finished measurement (recording-phase peaks and means, sway)
+export const evaluateSessionAlerts = (rules: AlertRule[], session: SessionRecord): TriggeredAlert[] => {
+  const metrics = computeSessionMetrics(session);
+  return evaluateAlertRules(rules, {
+    sensorLayout: getSensorLayout(session.sensorLayoutId),
+    pressureUnit: session.pressureUnit,
+    peaks: metrics.sensors.map(sensor => sensor.peak),
+    means: metrics.sensors.map(sensor => sensor.mean),
+    sway: computeSwayMetrics(session.copTrajectory),
+    symmetry: null
+  });
+};
+
+// Live alerts stay raised once triggered; repeated triggers widen the subjects and keep the worst value
+export const mergeAlerts = (existing: TriggeredAlert[], incoming: TriggeredAlert[]): TriggeredAlert[] => {
+  const merged = existing.map(alert => {
+    const update = incoming.find(item => item.ruleId === alert.ruleId);
+    return update
+      ? {
+        ...alert,
+        subjects: Array.from(new Set([...alert.subjects, ...update.subjects])),
+        value: Math.max(alert.value, update.value)
+      }
+      : alert;
+  });
+  const added = incoming.filter(item => !existing.some(alert => alert.ruleId === item.ruleId));
+  return [...merged, ...added].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+};
+
+// "Pressure point above the limit - consider medical evaluation (P3, P5: 245 kPa, limit 200)"
+export const formatAlert = (alert: TriggeredAlert): string =>
+  `${alert.message} (${alert.subjects.join(', ')}: ${alert.value} ${alert.unitLabel}, limit ${alert.threshold})`;
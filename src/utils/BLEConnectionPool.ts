@@ -0,0 +1,35 @@
+import BLEManager from './BLEManager';
+import FrameDecoderRegistry, { SoleSide } from './FrameDecoderRegistry';
+
+// One long-lived manager per insole, so connections survive route changes and
+// the bilateral screen can drive both feet at once
+const managers = new Map<SoleSide, BLEManager>();
+
+export const getBLEManager = (side: SoleSide): BLEManager => {
+  let manager = managers.get(side);
+  if (!manager) {
+    manager = new BLEManager(new FrameDecoderRegistry(), side);
+    managers.set(side, manager);
+  }
+  return manager;
+};
+
+// Called when a screen unmounts: stop any recording and drop its callbacks,
+// but keep the BLE connection open for the next screen
+export const releaseBLEManager = (side: SoleSide): void => {
+  const manager = managers.get(side);
+  if (!manager) return;
+
+  if (manager.isCollectingData()) {
+    manager.stopDataCollection();
+  }
+  manager.onDataReceived = null;
+  manager.onFrameReceived = null;
+  manager.onRawDataReceived = null;
+  manager.onConnectionChange = null;
+  manager.onConnectionStateChange = null;
+  manager.onCalibrationChange = null;
+  manager.onDeviceMetadataChange = null;
+  manager.onSideWarningChange = null;
+  manager.onSensorLayoutChange = null;
+};
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import BLEManager from './BLEManager';
+import StreamRecorder from './StreamCapture';
+import { DEFAULT_DEVICE_PROFILE } from './DeviceProfiles';
+import { DEFAULT_SENSOR_LAYOUT } from './SensorLayouts';
+
+// A short capture as an insole on the reference firmware would stream it, with a stray command reply in it
+const createCapture = () => {
+  const recorder = new StreamRecorder({
+    side: 'left',
+    deviceId: 'replay-test',
+    deviceName: 'ESP32 test insole',
+    sensorLayoutId: DEFAULT_SENSOR_LAYOUT.id,
+    decoderSelection: 'auto'
+  });
+  const encoder = new TextEncoder();
+  for (let index = 0; index < 5; index++) {
+    const values = Array.from({ length: DEFAULT_SENSOR_LAYOUT.channelCount }, (_, channel) => 10 * index + channel);
+    recorder.record(encoder.encode(`PRESSURE_LEFT:${values.join(',')}`), index * 10);
+    if (index === 2) recorder.record(encoder.encode('ACK #1'), index * 10 + 1);
+  }
+  return recorder.finish();
+};
+
+test('replays a capture through the manager with the default profile', async (t) => {
+  // No IndexedDB here: the calibration lookup fails and is logged
+  t.mock.method(console, 'error', () => undefined);
+  t.mock.method(console, 'log', () => undefined);
+
+  const manager = new BLEManager(undefined, 'left');
+  assert.equal(manager.getDeviceProfile(), DEFAULT_DEVICE_PROFILE);
+  assert.equal(DEFAULT_DEVICE_PROFILE.acknowledgedCommands, false);
+
+  const frames: number[][] = [];
+  manager.onDataReceived = (values) => frames.push(values);
+  await manager.connectReplay(createCapture(), 10);
+  manager.startDataCollection();
+  await new Promise(resolve => setTimeout(resolve, 100));
+  await manager.disconnect();
+
+  assert.equal(frames.length, 5);
+  assert.deepEqual(frames[1], [10, 11, 12, 13, 14, 15, 16, 17]);
+});
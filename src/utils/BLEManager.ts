@@ -1,41 +1,230 @@
+import FrameDecoderRegistry, { DecoderSelection, PressureFrame, SoleSide } from './FrameDecoderRegistry';
+import { DEFAULT_SENSOR_LAYOUT, SensorLayout, getSensorLayout } from './SensorLayouts';
+import { sharedClockNow } from './SampleAlignment';
+import { CalibrationProfile, PressureUnit, applyCalibration, isProfileApplicable } from './Calibration';
+import CalibrationStore from './CalibrationStore';
+import LinkQualityMonitor, { LinkQualityStats } from './LinkQuality';
+import SimulatedDevice, { SimulatorScenario } from './SimulatedDevice';
+import ReplayDevice from './ReplayDevice';
+import SerialTransport, { describeSerialPort } from './SerialTransport';
+import WebSocketTransport from './WebSocketTransport';
+import StreamRecorder, { StreamCapture, getCaptureDurationSec } from './StreamCapture';
+import { DeviceTransport, TransportKind } from './DeviceTransport';
+import CommandChannel, {
+  DeviceCommand,
+  DeviceCommandResult,
+  StreamCommand,
+  formatLegacyCommand
+} from './DeviceCommands';
+import {
+  BATTERY_LEVEL_UUID,
+  BATTERY_SERVICE_UUID,
+  DEVICE_INFORMATION_SERVICE_UUID,
+  DeviceInformation,
+  DeviceMetadata,
+  EMPTY_DEVICE_INFORMATION,
+  isBatteryLow,
+  readDeviceInformation
+} from './DeviceInformation';
+import { DEFAULT_DEVICE_PROFILE, DeviceProfile } from './DeviceProfiles';
+import DeviceRegistry, { RegisteredDevice, checkSideBinding, getDeviceDisplayName } from './DeviceRegistry';
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface ReconnectPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 16000,
+  maxAttempts: 6
+};
+
+// Exponential backoff: 1 s, 2 s, 4 s ... capped at maxDelayMs
+export const getReconnectDelayMs = (attempt: number, policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY): number =>
+  Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(2, attempt - 1));
+
+// For devices without the Battery Service, which are asked with the BATTERY? command instead
+const BATTERY_POLL_INTERVAL_MS = 60000;
+
 class BLEManager {
   private device: BluetoothDevice | null = null;
   private server: BluetoothRemoteGATTServer | null = null;
   private service: BluetoothRemoteGATTService | null = null;
   private characteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private commandCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private profile: DeviceProfile = DEFAULT_DEVICE_PROFILE;
   private isCollecting = false;
-  private collectionInterval: NodeJS.Timeout | null = null;
+  private decoderRegistry: FrameDecoderRegistry;
+  private defaultDecoderSelection: DecoderSelection = 'auto';
+  private decoderSelections = new Map<string, DecoderSelection>();
+  private sensorLayout: SensorLayout = DEFAULT_SENSOR_LAYOUT;
+  private calibrationStore = new CalibrationStore();
+  private calibrationProfile: CalibrationProfile | null = null;
+  private connectionState: ConnectionState = 'disconnected';
+  private reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private disconnectRequested = false;
+  private linkQuality = new LinkQualityMonitor();
+  private transport: DeviceTransport | null = null;
+  private recorder: StreamRecorder | null = null;
+  // Decoder and layout in place before a replay switched to the capture's, put back on disconnect
+  private replayRestore: { deviceId: string; decoderSelection: DecoderSelection | undefined; sensorLayout: SensorLayout } | null = null;
+  private commands = new CommandChannel();
+  private deviceInformation: DeviceInformation = EMPTY_DEVICE_INFORMATION;
+  private batteryLevel: number | null = null;
+  private batteryCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private batteryPollTimer: ReturnType<typeof setInterval> | null = null;
+  private metadataLoad = 0; // bumped per connect/reconnect so a slower earlier load gives up
+  private deviceRegistry = new DeviceRegistry();
+  private registeredDevice: RegisteredDevice | null = null;
+  private sideWarning: string | null = null;
+  private readonly side: SoleSide | null;
+  // Bound once so reconnects don't stack duplicate listeners
+  private readonly handleValueChanged = (event: Event) => this.handleCharacteristicValueChanged(event);
+  private readonly handleGattDisconnected = () => this.handleLinkLost();
+  private readonly handleBatteryChanged = (event: Event) => {
+    const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+    if (value) this.setBatteryLevel(value.getUint8(0));
+  };
 
-  public onDataReceived: ((data: number[]) => void) | null = null;
+  // receivedAt is the arrival time on the shared page clock (see SampleAlignment).
+  // onDataReceived gets calibrated kPa when a profile applies, onFrameReceived always the raw counts.
+  // Duplicate frames (same sequence number) are dropped before either callback.
+  public onDataReceived: ((data: number[], receivedAt: number, frame: PressureFrame) => void) | null = null;
   public onConnectionChange: ((connected: boolean) => void) | null = null;
   public onRawDataReceived: ((rawData: string) => void) | null = null;
+  public onFrameReceived: ((frame: PressureFrame, receivedAt: number) => void) | null = null;
+  public onCalibrationChange: ((profile: CalibrationProfile | null) => void) | null = null;
+  // onConnectionChange(false) only fires once reconnecting has been given up; this reports every step
+  public onConnectionStateChange: ((state: ConnectionState, reconnectAttempt: number) => void) | null = null;
+  // Device information once read, then every battery level change
+  public onDeviceMetadataChange: ((metadata: DeviceMetadata) => void) | null = null;
+  // Insole bound to the other foot, or frames tagged with the other side; null once cleared
+  public onSideWarningChange: ((warning: string | null) => void) | null = null;
+  // Layout changed by the manager itself (replays use the capture's layout), not by setSensorLayout
+  public onSensorLayoutChange: ((sensorLayout: SensorLayout) => void) | null = null;
+
+  // `side` tells a simulated insole which foot to report; real devices say it in their frames
+  constructor(decoderRegistry: FrameDecoderRegistry = new FrameDecoderRegistry(), side: SoleSide | null = null) {
+    this.decoderRegistry = decoderRegistry;
+    this.side = side;
+    this.commands.onLog = (message) => {
+      console.log(message);
+      this.onRawDataReceived?.(message);
+    };
+  }
+
+  getDecoderRegistry(): FrameDecoderRegistry {
+    return this.decoderRegistry;
+  }
+
+  // Pin a decoder (or 'auto') for one device, or for every device without its own selection
+  setDecoderSelection(selection: DecoderSelection, deviceId?: string): void {
+    if (deviceId) {
+      this.decoderSelections.set(deviceId, selection);
+      this.decoderRegistry.resetDetection(deviceId);
+    } else {
+      this.defaultDecoderSelection = selection;
+    }
+  }
+
+  // Takes effect on the next scan/connect; the profile's decoder becomes the default
+  setDeviceProfile(profile: DeviceProfile): void {
+    this.profile = profile;
+    this.defaultDecoderSelection = profile.decoderSelection;
+  }
+
+  getDeviceProfile(): DeviceProfile {
+    return this.profile;
+  }
+
+  getDecoderSelection(deviceId = this.device?.id): DecoderSelection {
+    return (deviceId && this.decoderSelections.get(deviceId)) || this.defaultDecoderSelection;
+  }
+
+  // Decoders pad or trim every frame to the layout's channel count
+  setSensorLayout(sensorLayout: SensorLayout): void {
+    this.sensorLayout = sensorLayout;
+    this.decoderRegistry.resetDetection();
+    this.transport?.setSensorLayout(sensorLayout);
+  }
+
+  getSensorLayout(): SensorLayout {
+    return this.sensorLayout;
+  }
+
+  setCalibrationProfile(profile: CalibrationProfile | null): void {
+    this.calibrationProfile = profile;
+    this.onCalibrationChange?.(profile);
+  }
+
+  getCalibrationProfile(): CalibrationProfile | null {
+    return this.calibrationProfile;
+  }
+
+  // A profile only applies while the selected layout has the channel count it was fitted for
+  getPressureUnit(): PressureUnit {
+    return isProfileApplicable(this.calibrationProfile, this.sensorLayout.channelCount) ? 'kPa' : 'raw';
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  setReconnectPolicy(policy: ReconnectPolicy): void {
+    this.reconnectPolicy = policy;
+  }
+
+  getLinkQuality(): LinkQualityStats {
+    return this.linkQuality.getStats();
+  }
+
+  // Called at the start of each measurement so its statistics cover only that run
+  resetLinkQuality(): void {
+    this.linkQuality.reset();
+  }
+
+  private setConnectionState(state: ConnectionState): void {
+    this.connectionState = state;
+    this.onConnectionStateChange?.(state, this.reconnectAttempt);
+  }
 
-  // Updated UUIDs to match your reference code
-  private readonly SERVICE_UUID = '12345678-1234-1234-1234-1234567890ab';
-  private readonly CHARACTERISTIC_UUID = 'abcd1234-5678-90ab-cdef-1234567890ab';
+  private async loadCalibrationProfile(): Promise<void> {
+    if (!this.device) return;
+
+    try {
+      const profile = await this.calibrationStore.get(this.device.id);
+      this.setCalibrationProfile(profile);
+      this.onRawDataReceived?.(profile
+        ? `📐 Calibration profile loaded (${profile.model}, ${profile.channelCount} channels)`
+        : '⚠️ No calibration profile for this device - values are raw ADC counts');
+    } catch (error) {
+      console.error('Error loading calibration profile:', error);
+      this.setCalibrationProfile(null);
+    }
+  }
 
   async scanForDevices(): Promise<BluetoothDevice[]> {
     try {
       // Check if Web Bluetooth is supported
       if (!navigator.bluetooth) {
-        throw new Error('Web Bluetooth is not supported in this browser. Please use Chrome, Edge, or Opera.');
+        throw new Error('Web Bluetooth is not supported in this browser. Please use Chrome, Edge, or Opera, or connect the insole over USB serial.');
       }
 
       console.log('Scanning for ESP32 BLE devices...');
       
-      // Request device with specific filters for ESP32 foot pressure sensors
+      // Request device with the active profile's name and service filters
       const device = await navigator.bluetooth.requestDevice({
         filters: [
-          { namePrefix: 'ESP32' },
-          { namePrefix: 'FootPressure' },
-          { namePrefix: 'Foot' },
-          { services: [this.SERVICE_UUID] }
+          ...this.profile.namePrefixes.map(namePrefix => ({ namePrefix })),
+          { services: [this.profile.serviceUuid] }
         ],
-        optionalServices: [
-          this.SERVICE_UUID,
-          '0000180f-0000-1000-8000-00805f9b34fb', // Battery Service
-          '0000180a-0000-1000-8000-00805f9b34fb', // Device Information Service
-        ]
+        optionalServices: [this.profile.serviceUuid, BATTERY_SERVICE_UUID, DEVICE_INFORMATION_SERVICE_UUID]
       });
 
       console.log('Found ESP32 device:', device.name || 'Unknown Device', device.id);
@@ -53,234 +242,568 @@ class BLEManager {
         console.log('Trying fallback scan method...');
         const device = await navigator.bluetooth.requestDevice({
           acceptAllDevices: true,
-          optionalServices: [this.SERVICE_UUID]
+          optionalServices: [this.profile.serviceUuid, BATTERY_SERVICE_UUID, DEVICE_INFORMATION_SERVICE_UUID]
         });
         
         return [device];
       } catch (fallbackError) {
-        console.log('Falling back to demo mode...');
-        return this.getMockDevices();
+        // No silent demo fallback - the simulator has to be chosen explicitly
+        console.error('Fallback scan failed:', fallbackError);
+        throw new Error('No ESP32 device selected. Connect over USB serial, or use the simulator to try the app without hardware.');
       }
     }
   }
 
-  private getMockDevices(): BluetoothDevice[] {
-    // Return mock devices for demonstration when real BLE is not available
-    return [
-      {
-        id: 'demo-esp32-left',
-        name: 'ESP32-FootSensor-L',
-        gatt: null
-      } as BluetoothDevice,
-      {
-        id: 'demo-esp32-right', 
-        name: 'ESP32-FootSensor-R',
-        gatt: null
-      } as BluetoothDevice
-    ];
-  }
-
   async connect(device: BluetoothDevice): Promise<void> {
     try {
       console.log('Attempting to connect to ESP32:', device.name || 'Unknown');
+      this.closeTransport();
+      this.cancelReconnect();
+      this.disconnectRequested = false;
       this.device = device;
+      this.linkQuality.reset();
+      this.deviceInformation = EMPTY_DEVICE_INFORMATION;
+      this.batteryLevel = null;
+      this.registeredDevice = null;
+      this.setSideWarning(null);
+      this.setConnectionState('connecting');
       
-      // For real BLE devices
-      if (device.gatt && !device.id.startsWith('demo-')) {
-        console.log('Connecting to GATT server...');
-        this.server = await device.gatt.connect();
-        
-        console.log('Getting primary service...');
-        this.service = await this.server.getPrimaryService(this.SERVICE_UUID);
-        
-        console.log('Getting characteristic...');
-        this.characteristic = await this.service.getCharacteristic(this.CHARACTERISTIC_UUID);
-        
-        // Set up notifications for real-time data
-        console.log('Starting notifications...');
-        await this.characteristic.startNotifications();
-        this.characteristic.addEventListener('characteristicvaluechanged', this.handleCharacteristicValueChanged.bind(this));
-        
-        // Handle disconnection
-        device.addEventListener('gattserverdisconnected', () => {
-          console.log('ESP32 device disconnected');
-          this.onConnectionChange?.(false);
-          this.onRawDataReceived?.('❌ ESP32 BLE disconnected');
-        });
-        
-        console.log('✅ Successfully connected to ESP32 device');
-        this.onRawDataReceived?.('✅ ESP32 BLE connection established');
-      } else {
-        // Demo mode
-        console.log('Using demo mode for device:', device.name);
-        this.simulateConnection();
-      }
+      await this.openGattConnection(device);
+      
+      // Handle disconnection
+      device.removeEventListener('gattserverdisconnected', this.handleGattDisconnected);
+      device.addEventListener('gattserverdisconnected', this.handleGattDisconnected);
       
+      console.log('✅ Successfully connected to ESP32 device');
+      this.onRawDataReceived?.('✅ ESP32 BLE connection established');
+      this.setConnectionState('connected');
+      
+      await this.registerDevice(device);
+      await this.loadCalibrationProfile();
       this.onConnectionChange?.(true);
+      this.loadDeviceMetadata();
       
     } catch (error) {
       console.error('Error connecting to ESP32:', error);
+      this.device = null;
+      this.setConnectionState('disconnected');
       
       // Provide more specific error messages
       if (error instanceof Error) {
         if (error.message.includes('GATT operation not permitted')) {
           throw new Error('Device connection failed. Make sure the ESP32 is advertising and not connected to another device.');
         } else if (error.message.includes('Service not found')) {
-          throw new Error('ESP32 service not found. Please check that your ESP32 is running the correct firmware with service UUID: ' + this.SERVICE_UUID);
+          throw new Error(`ESP32 service not found. Please check that the device matches the "${this.profile.name}" profile (service UUID: ${this.profile.serviceUuid})`);
         } else if (error.message.includes('Characteristic not found')) {
-          throw new Error('ESP32 characteristic not found. Please verify the characteristic UUID: ' + this.CHARACTERISTIC_UUID);
+          throw new Error(`ESP32 characteristic not found. Please verify the "${this.profile.name}" profile's characteristic UUIDs`);
         }
       }
-      
-      // Fall back to demo mode
-      console.log('Falling back to demo mode due to connection error');
-      this.simulateConnection();
-      this.onRawDataReceived?.('⚠️ Using demo mode - ESP32 connection failed');
+      throw error;
     }
   }
 
-  private simulateConnection(): void {
-    this.device = { 
-      id: 'demo-device', 
-      name: 'Demo ESP32 Sensor',
-      gatt: null 
-    } as BluetoothDevice;
+  // Opt-in stand-in for an insole. Its frames go through the same decoders, calibration
+  // and reconnect handling as a real device; only the transport is replaced.
+  async connectSimulator(scenario: SimulatorScenario, seed?: number): Promise<void> {
+    const side = this.side || 'left';
+    const simulator = new SimulatedDevice({ side, scenario, sensorLayout: this.sensorLayout, seed });
+    await this.connectTransport(simulator, {
+      id: `simulator-${side}`,
+      name: `Simulator ${side === 'left' ? 'L' : 'R'} - ${scenario.name}`
+    });
+    this.deviceInformation = {
+      ...EMPTY_DEVICE_INFORMATION,
+      manufacturer: 'Simulator',
+      model: scenario.name,
+      serialNumber: `SIM-${side === 'left' ? 'L' : 'R'}`
+    };
+
+    console.log('🎭 Connected to simulated insole:', scenario.name);
+    this.onRawDataReceived?.(`🎭 Simulator connected (${scenario.name}) - data is synthetic, not from a patient`);
+    await this.loadCalibrationProfile();
     this.onConnectionChange?.(true);
-    this.onRawDataReceived?.('🎭 Demo mode activated - simulated ESP32 data');
+    this.loadDeviceMetadata();
   }
 
-  private handleCharacteristicValueChanged(event: Event): void {
-    const target = event.target as BluetoothRemoteGATTCharacteristic;
-    const value = target.value;
-    
-    if (value && this.isCollecting) {
+  // Replays a capture through the decoders; it keeps the original device ID so that
+  // device's calibration profile is applied exactly as it was during the recording
+  async connectReplay(capture: StreamCapture, speed = 1): Promise<void> {
+    const replay = new ReplayDevice(capture, speed);
+    replay.onFinished = () => {
+      console.log('⏹ Replay finished');
+      this.onRawDataReceived?.('⏹ Replay finished - end of capture');
+    };
+    await this.connectTransport(replay, {
+      id: capture.deviceId,
+      name: `Replay of ${capture.deviceName} (${speed}×)`
+    });
+
+    // Decode the capture the way it was decoded when recorded
+    this.replayRestore = {
+      deviceId: capture.deviceId,
+      decoderSelection: this.decoderSelections.get(capture.deviceId),
+      sensorLayout: this.sensorLayout
+    };
+    this.setDecoderSelection(capture.decoderSelection, capture.deviceId);
+    if (capture.sensorLayoutId !== this.sensorLayout.id) {
+      this.setSensorLayout(getSensorLayout(capture.sensorLayoutId));
+      this.onSensorLayoutChange?.(this.sensorLayout);
+      this.onRawDataReceived?.(`ℹ️ Using the capture's layout "${this.sensorLayout.id}" until the replay ends`);
+    }
+
+    console.log('⏯ Replaying capture of', capture.deviceName);
+    this.onRawDataReceived?.(
+      `⏯ Replay connected: ${capture.notifications.length} notifications, ${getCaptureDurationSec(capture)} s from ${capture.deviceName} at ${speed}× speed (decoder: ${capture.decoderSelection})`
+    );
+    await this.loadCalibrationProfile();
+    this.onConnectionChange?.(true);
+    this.loadDeviceMetadata();
+  }
+
+  // ESP32 boards stream the same frames over USB, for machines without working Bluetooth
+  async connectSerial(port: SerialPort, baudRate?: number): Promise<void> {
+    const serial = new SerialTransport(port, baudRate);
+    const portName = describeSerialPort(port);
+    await this.connectTransport(serial, {
+      id: `serial-${portName}`,
+      name: `ESP32 on ${portName} @ ${serial.getBaudRate()} baud`
+    });
+
+    console.log('🔌 Connected to ESP32 over serial:', portName, serial.getBaudRate());
+    this.onRawDataReceived?.(`🔌 Serial connected: ${portName} at ${serial.getBaudRate()} baud`);
+    await this.loadCalibrationProfile();
+    this.onConnectionChange?.(true);
+    this.loadDeviceMetadata();
+  }
+
+  // Insole data relayed by a local gateway process, for PCs where the browser has no
+  // Bluetooth. Dropped gateway connections go through the usual reconnect backoff.
+  async connectGateway(url: string): Promise<void> {
+    const gateway = new WebSocketTransport(url);
+    const { host, pathname } = new URL(gateway.getUrl());
+    await this.connectTransport(gateway, {
+      id: `gateway-${gateway.getUrl()}`,
+      name: `Gateway ${host}${pathname}`
+    });
+
+    console.log('🌐 Connected to gateway:', gateway.getUrl());
+    this.onRawDataReceived?.(`🌐 Gateway connected: ${gateway.getUrl()}`);
+    await this.loadCalibrationProfile();
+    this.onConnectionChange?.(true);
+    this.loadDeviceMetadata();
+  }
+
+  getTransportKind(): TransportKind | null {
+    if (this.transport) return this.transport.kind;
+    return this.device ? 'bluetooth' : null;
+  }
+
+  // True for the simulator and replays - anything that is not real hardware
+  isSimulated(): boolean {
+    return this.transport?.kind === 'simulator' || this.transport?.kind === 'replay';
+  }
+
+  getSimulatorScenario(): SimulatorScenario | null {
+    return this.transport instanceof SimulatedDevice ? this.transport.getScenario() : null;
+  }
+
+  private async connectTransport(transport: DeviceTransport, info: { id: string; name: string }): Promise<void> {
+    if (this.device) {
+      await this.disconnect();
+    }
+
+    this.disconnectRequested = false;
+    this.linkQuality.reset();
+    this.deviceInformation = EMPTY_DEVICE_INFORMATION;
+    this.batteryLevel = null;
+    this.registeredDevice = null;
+    this.setSideWarning(null);
+    this.setConnectionState('connecting');
+
+    transport.onPayload = ({ bytes }) => this.receivePayload(bytes, sharedClockNow());
+    transport.onDisconnect = this.handleGattDisconnected;
+    try {
+      await transport.connect();
+    } catch (error) {
+      this.setConnectionState('disconnected');
+      throw error;
+    }
+
+    this.transport = transport;
+    this.device = { id: info.id, name: info.name, gatt: null } as BluetoothDevice;
+    this.setConnectionState('connected');
+  }
+
+  private restoreReplaySettings(): void {
+    if (!this.replayRestore) return;
+    const { deviceId, decoderSelection, sensorLayout } = this.replayRestore;
+    this.replayRestore = null;
+
+    if (decoderSelection) {
+      this.setDecoderSelection(decoderSelection, deviceId);
+    } else {
+      this.decoderSelections.delete(deviceId);
+      this.decoderRegistry.resetDetection(deviceId);
+    }
+    if (sensorLayout.id !== this.sensorLayout.id) {
+      this.setSensorLayout(sensorLayout);
+      this.onSensorLayoutChange?.(sensorLayout);
+    }
+  }
+
+  private closeTransport(): void {
+    if (this.transport) {
+      this.transport.onPayload = null;
+      this.transport.onDisconnect = null;
+      this.transport.disconnect();
+      this.transport = null;
+    }
+  }
+
+  getRegisteredDevice(): RegisteredDevice | null {
+    return this.registeredDevice;
+  }
+
+  getSideWarning(): string | null {
+    return this.sideWarning;
+  }
+
+  // Re-reads the connected insole after its registry entry was renamed or rebound
+  async reloadRegisteredDevice(): Promise<void> {
+    if (!this.device || this.isSimulated()) return;
+    this.registeredDevice = await this.deviceRegistry.get(this.device.id);
+    this.setSideWarning(this.side ? checkSideBinding(this.registeredDevice, this.side) : null);
+  }
+
+  private async registerDevice(device: BluetoothDevice): Promise<void> {
+    try {
+      this.registeredDevice = await this.deviceRegistry.rememberConnection(device.id, device.name || '', this.side);
+      if (this.side) {
+        this.setSideWarning(checkSideBinding(this.registeredDevice, this.side));
+      }
+    } catch (error) {
+      console.error('Error updating device registry:', error);
+    }
+  }
+
+  private setSideWarning(warning: string | null): void {
+    if (warning === this.sideWarning) return;
+    this.sideWarning = warning;
+    if (warning) {
+      console.warn('⚠️ Side mismatch:', warning);
+      this.onRawDataReceived?.(`⚠️ ${warning}`);
+    }
+    this.onSideWarningChange?.(warning);
+  }
+
+  getDeviceMetadata(): DeviceMetadata {
+    return { ...this.deviceInformation, batteryLevel: this.batteryLevel };
+  }
+
+  // A low battery blocks new measurements; an unknown level does not
+  isBatteryLow(): boolean {
+    return isBatteryLow(this.batteryLevel);
+  }
+
+  // Device Information and Battery services where the firmware has them, the
+  // VERSION? and BATTERY? commands where it does not (and for other transports)
+  // Runs in the background once the connection has been reported: firmware without the
+  // VERSION? / BATTERY? commands only gives up on them after the command timeout
+  private async loadDeviceMetadata(): Promise<void> {
+    this.stopBatteryMonitoring();
+    const load = ++this.metadataLoad;
+    const isCurrent = () => load === this.metadataLoad && this.connectionState === 'connected';
+
+    if (this.server?.connected) {
       try {
-        // Try to decode as text first (most common ESP32 format)
-        const decoder = new TextDecoder();
-        const dataString = decoder.decode(value);
-        
-        console.log('📡 Received ESP32 data:', dataString);
-        this.onRawDataReceived?.(dataString);
-        
-        // 🎯 CRITICAL: Parse pressure data EXACTLY as received from ESP32
-        // Format: "PRESSURE_LEFT:50,100,150,200,250,255,128,64" or "PRESSURE_RIGHT:..."
-        if (dataString.includes('PRESSURE_LEFT:') || dataString.includes('PRESSURE_RIGHT:')) {
-          const match = dataString.match(/PRESSURE_(?:LEFT|RIGHT):(.+)/);
-          if (match) {
-            const valuesString = match[1].trim();
-            
-            // ✅ PRESERVE ALL VALUES EXACTLY AS RECEIVED - DO NOT MODIFY OR ASSUME ERRORS
-            const pressureValues = valuesString.split(',')
-              .map(val => {
-                const trimmedVal = val.trim();
-                const num = parseInt(trimmedVal, 10);
-                // Only clamp to valid range, don't assume any value is "wrong"
-                return isNaN(num) ? 0 : Math.max(0, Math.min(255, num));
-              })
-              .slice(0, 8); // Take only first 8 values
-            
-            // Pad with zeros if less than 8 values (but preserve all received values)
-            while (pressureValues.length < 8) {
-              pressureValues.push(0);
-            }
-            
-            console.log('✅ Parsed pressure values (EXACT from ESP32):', pressureValues);
-            this.onDataReceived?.(pressureValues);
-            return;
-          }
-        }
-        
-        // Fallback: Try parsing as comma-separated values without prefix
-        if (dataString.includes(',')) {
-          const pressureValues = dataString.trim().split(',')
-            .map(val => {
-              const trimmedVal = val.trim();
-              const num = parseInt(trimmedVal, 10);
-              // Preserve exact values, only handle invalid numbers
-              return isNaN(num) ? 0 : Math.max(0, Math.min(255, num));
-            })
-            .slice(0, 8);
-          
-          if (pressureValues.length >= 4) { // At least 4 valid values
-            while (pressureValues.length < 8) {
-              pressureValues.push(0);
-            }
-            
-            console.log('✅ Parsed CSV values (EXACT from ESP32):', pressureValues);
-            this.onDataReceived?.(pressureValues);
-            return;
-          }
-        }
-        
-        // Fallback: Try raw byte parsing for uint8_t[8] format
-        if (value.byteLength === 8) {
-          const data = new Uint8Array(value.buffer);
-          const pressureValues = Array.from(data);
-          console.log('✅ Received raw byte pressure values (EXACT from ESP32):', pressureValues);
-          this.onDataReceived?.(pressureValues);
-          return;
+        this.deviceInformation = await readDeviceInformation(this.server);
+      } catch (error) {
+        console.warn('Device Information Service not available:', error);
+      }
+
+      try {
+        const batteryService = await this.server.getPrimaryService(BATTERY_SERVICE_UUID);
+        this.batteryCharacteristic = await batteryService.getCharacteristic(BATTERY_LEVEL_UUID);
+        this.setBatteryLevel((await this.batteryCharacteristic.readValue()).getUint8(0));
+        if (this.batteryCharacteristic.properties.notify) {
+          await this.batteryCharacteristic.startNotifications();
+          this.batteryCharacteristic.addEventListener('characteristicvaluechanged', this.handleBatteryChanged);
         }
-        
-        // If we get here, data format is unrecognized
-        console.warn('❌ Unrecognized ESP32 data format:', dataString);
-        this.onRawDataReceived?.(`❌ Unrecognized data format: ${dataString}`);
-        
       } catch (error) {
-        console.error('❌ Error parsing ESP32 data:', error);
-        this.onRawDataReceived?.(`❌ Error parsing data: ${error}`);
+        console.warn('Battery Service not available:', error);
+        this.batteryCharacteristic = null;
       }
     }
+    if (!isCurrent()) return;
+    this.onDeviceMetadataChange?.(this.getDeviceMetadata());
+
+    // Failures are already on the console - old firmware does not know the commands
+    const [firmwareRevision, batteryLevel] = await Promise.all([
+      this.deviceInformation.firmwareRevision ? null : this.getFirmwareVersion().catch(() => null),
+      this.batteryCharacteristic ? null : this.getBatteryLevel().catch(() => null)
+    ]);
+    if (!isCurrent()) return;
+
+    if (firmwareRevision) {
+      this.deviceInformation = { ...this.deviceInformation, firmwareRevision };
+    }
+    if (batteryLevel !== null) {
+      this.setBatteryLevel(batteryLevel);
+      // Only poll a device that has answered at least once
+      this.batteryPollTimer = setInterval(() => this.pollBatteryLevel(), BATTERY_POLL_INTERVAL_MS);
+    }
+    this.onDeviceMetadataChange?.(this.getDeviceMetadata());
+
+    const metadata = this.getDeviceMetadata();
+    this.onRawDataReceived?.(`🔋 Battery: ${metadata.batteryLevel !== null ? `${metadata.batteryLevel}%` : 'unknown'}` +
+      `${metadata.firmwareRevision ? ` - firmware ${metadata.firmwareRevision}` : ''}`);
   }
 
-  startDataCollection(): void {
-    this.isCollecting = true;
-    console.log('🚀 Starting ESP32 data collection...');
-    this.onRawDataReceived?.('🚀 Starting data collection...');
+  private async pollBatteryLevel(): Promise<void> {
+    try {
+      this.setBatteryLevel(await this.getBatteryLevel());
+    } catch {
+      // Stop asking a device that cannot answer, instead of logging a failure every minute
+      this.stopBatteryMonitoring();
+    }
+  }
+
+  private stopBatteryMonitoring(): void {
+    if (this.batteryPollTimer) {
+      clearInterval(this.batteryPollTimer);
+      this.batteryPollTimer = null;
+    }
+    this.batteryCharacteristic?.removeEventListener('characteristicvaluechanged', this.handleBatteryChanged);
+    this.batteryCharacteristic = null;
+  }
+
+  private setBatteryLevel(batteryLevel: number): void {
+    const wasLow = isBatteryLow(this.batteryLevel);
+    this.batteryLevel = batteryLevel;
+    if (!wasLow && isBatteryLow(batteryLevel)) {
+      console.warn('🪫 ESP32 battery low:', batteryLevel);
+      this.onRawDataReceived?.(`🪫 Battery low (${batteryLevel}%) - charge the insole before the next measurement`);
+    }
+    this.onDeviceMetadataChange?.(this.getDeviceMetadata());
+  }
+
+  // Records every raw notification from now on, whether or not a measurement is running
+  startCapture(): void {
+    this.recorder = new StreamRecorder({
+      side: this.side,
+      deviceId: this.device?.id || 'unknown',
+      deviceName: this.device?.name || 'Unknown Device',
+      sensorLayoutId: this.sensorLayout.id,
+      decoderSelection: this.getDecoderSelection()
+    });
+    this.onRawDataReceived?.('⏺ Raw stream capture started');
+  }
+
+  stopCapture(): StreamCapture | null {
+    const capture = this.recorder?.finish() || null;
+    this.recorder = null;
+    if (capture) {
+      this.onRawDataReceived?.(`⏹ Raw stream capture stopped (${capture.notifications.length} notifications)`);
+    }
+    return capture;
+  }
+
+  isCapturing(): boolean {
+    return this.recorder !== null;
+  }
+
+  getCaptureCount(): number {
+    return this.recorder?.getCount() || 0;
+  }
+
+  // Service, characteristic and notifications - everything a reconnect has to restore
+  private async openGattConnection(device: BluetoothDevice): Promise<void> {
+    if (!device.gatt) {
+      throw new Error('Device has no GATT server');
+    }
+
+    console.log('Connecting to GATT server...');
+    this.server = await device.gatt.connect();
     
-    // If we have a real BLE connection, data will come via notifications
-    // For demo purposes, simulate data when no real connection
-    if (!this.characteristic || this.device?.id?.startsWith('demo-')) {
-      this.simulateDataCollection();
-    } else {
-      // For real ESP32 connection, send start command if needed
-      this.sendStartCommand();
+    console.log('Getting primary service...');
+    this.service = await this.server.getPrimaryService(this.profile.serviceUuid);
+    
+    console.log('Getting characteristic...');
+    this.characteristic = await this.service.getCharacteristic(this.profile.dataCharacteristicUuid);
+    this.commandCharacteristic = this.profile.commandCharacteristicUuid
+      ? await this.service.getCharacteristic(this.profile.commandCharacteristicUuid)
+      : null;
+    
+    // Set up notifications for real-time data
+    console.log('Starting notifications...');
+    await this.characteristic.startNotifications();
+    this.characteristic.removeEventListener('characteristicvaluechanged', this.handleValueChanged);
+    this.characteristic.addEventListener('characteristicvaluechanged', this.handleValueChanged);
+  }
+
+  private handleLinkLost(): void {
+    this.service = null;
+    this.characteristic = null;
+    this.commandCharacteristic = null;
+    this.stopBatteryMonitoring();
+    this.commands.cancelAll('link lost');
+
+    // disconnect() reports its own state; a failed reconnect attempt schedules the next one itself
+    if (this.disconnectRequested || this.connectionState === 'reconnecting') return;
+
+    console.log('ESP32 device disconnected');
+    this.onRawDataReceived?.(`❌ ESP32 ${this.getLinkLabel()} disconnected - trying to reconnect`);
+    this.reconnectAttempt = 0;
+    this.scheduleReconnect();
+  }
+
+  private getLinkLabel(): string {
+    switch (this.transport?.kind) {
+      case 'serial': return 'serial';
+      case 'gateway': return 'gateway';
+      default: return 'BLE';
     }
   }
 
-  private async sendStartCommand(): Promise<void> {
-    if (this.characteristic) {
-      try {
-        // Send start command to ESP32 (customize based on your ESP32 implementation)
-        const startCommand = new TextEncoder().encode('START');
-        await this.characteristic.writeValue(startCommand);
-        console.log('📡 Sent START command to ESP32');
-        this.onRawDataReceived?.('📡 Sent START command to ESP32');
-      } catch (error) {
-        console.error('❌ Error sending start command:', error);
-        this.onRawDataReceived?.(`❌ Error sending start command: ${error}`);
+  private scheduleReconnect(): void {
+    this.cancelReconnect();
+    const attempt = this.reconnectAttempt + 1;
+
+    if (attempt > this.reconnectPolicy.maxAttempts) {
+      console.log('❌ Giving up reconnecting to ESP32');
+      this.onRawDataReceived?.(`❌ Reconnection failed after ${this.reconnectPolicy.maxAttempts} attempts`);
+      this.isCollecting = false;
+      this.reconnectAttempt = 0;
+      this.restoreReplaySettings();
+      this.setConnectionState('disconnected');
+      this.onConnectionChange?.(false);
+      return;
+    }
+
+    const delayMs = getReconnectDelayMs(attempt, this.reconnectPolicy);
+    this.reconnectAttempt = attempt;
+    this.setConnectionState('reconnecting');
+    this.onRawDataReceived?.(`🔄 Reconnecting in ${delayMs / 1000} s (attempt ${attempt}/${this.reconnectPolicy.maxAttempts})`);
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delayMs);
+  }
+
+  private async reconnect(): Promise<void> {
+    this.reconnectTimer = null;
+    if (!this.device || this.disconnectRequested) return;
+
+    try {
+      if (this.transport) {
+        await this.transport.connect();
+      } else {
+        await this.openGattConnection(this.device);
+      }
+      console.log('✅ Reconnected to ESP32 device');
+      this.onRawDataReceived?.(`✅ ESP32 ${this.getLinkLabel()} reconnected after ${this.reconnectAttempt} attempt(s)`);
+      this.reconnectAttempt = 0;
+      this.linkQuality.markDiscontinuity();
+      this.setConnectionState('connected');
+
+      // The firmware forgets START when the link drops
+      if (this.isCollecting) {
+        await this.sendStreamCommand({ type: 'start' });
       }
+      // Nor do battery notifications and polling
+      this.loadDeviceMetadata();
+    } catch (error) {
+      console.error('❌ Reconnect attempt failed:', error);
+      this.onRawDataReceived?.(`❌ Reconnect attempt failed: ${error instanceof Error ? error.message : error}`);
+      this.scheduleReconnect();
+    }
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
   }
 
-  private simulateDataCollection(): void {
-    console.log('🎭 Starting simulated ESP32 data collection...');
-    this.onRawDataReceived?.('🎭 Simulating ESP32 pressure data...');
+  private handleCharacteristicValueChanged(event: Event): void {
+    const target = event.target as BluetoothRemoteGATTCharacteristic;
+    const value = target.value;
     
-    this.collectionInterval = setInterval(() => {
-      if (!this.isCollecting) return;
+    if (value) {
+      this.receivePayload(new Uint8Array(value.buffer, value.byteOffset, value.byteLength), sharedClockNow());
+    }
+  }
+
+  // Entry point for GATT notifications and the other transports alike
+  // Command replies are kept out of captures (ReplayDevice skips those in older ones)
+  private receivePayload(bytes: Uint8Array, receivedAt: number): void {
+    const text = new TextDecoder().decode(bytes);
+    if (this.commands.handleReply(text)) return;
+    this.recorder?.record(bytes, receivedAt);
+    if (this.isCollecting) {
+      this.handlePayload(bytes, receivedAt);
+    }
+  }
+
+  private handlePayload(bytes: Uint8Array, receivedAt: number): void {
+    try {
+      const dataString = new TextDecoder().decode(bytes);
+      
+      console.log('📡 Received ESP32 data:', dataString);
+      this.onRawDataReceived?.(dataString);
       
-      // Generate realistic pressure data with some variation
-      // ✅ IMPORTANT: These are example values - real ESP32 will send actual sensor readings
-      const baseValues = [50, 100, 150, 200, 250, 255, 128, 64];
-      const simulatedData = baseValues.map(base => 
-        Math.max(0, Math.min(255, base + Math.floor(Math.random() * 40 - 20)))
+      const deviceId = this.device?.id || 'default';
+      const result = this.decoderRegistry.decode(
+        { bytes, text: dataString },
+        { channelCount: this.sensorLayout.channelCount },
+        this.getDecoderSelection(deviceId),
+        deviceId
       );
       
-      // Simulate the expected ESP32 data format
-      const dataString = `PRESSURE_LEFT:${simulatedData.join(',')}`;
-      this.onRawDataReceived?.(dataString);
-      this.onDataReceived?.(simulatedData);
-    }, 500); // 500ms intervals for demo
+      if (!result.ok) {
+        console.warn('❌ Rejected ESP32 frame:', result.reason);
+        this.onRawDataReceived?.(`❌ Frame rejected: ${result.reason}`);
+        return;
+      }
+      
+      // ✅ Values are passed on EXACTLY as decoded - only the calibration profile may convert them
+      console.log(`✅ Decoded pressure values via ${result.frame.decoderId}:`, result.frame.values);
+      this.emitFrame(result.frame, receivedAt);
+      
+    } catch (error) {
+      console.error('❌ Error parsing ESP32 data:', error);
+      this.onRawDataReceived?.(`❌ Error parsing data: ${error}`);
+    }
+  }
+
+  private emitFrame(frame: PressureFrame, receivedAt: number): void {
+    if (frame.side && this.side && frame.side !== this.side && !this.sideWarning) {
+      this.setSideWarning(`Frames are tagged PRESSURE_${frame.side.toUpperCase()} but this is the ${this.side} insole connection`);
+    }
+
+    const arrival = this.linkQuality.record(frame, receivedAt);
+    if (arrival === 'duplicate') {
+      console.warn('⚠️ Dropped duplicate ESP32 frame:', frame.sequence);
+      this.onRawDataReceived?.(`⚠️ Duplicate frame #${frame.sequence} dropped`);
+      return;
+    }
+    if (arrival === 'out-of-order') {
+      this.onRawDataReceived?.(`⚠️ Frame #${frame.sequence} arrived out of order`);
+    }
+
+    this.onFrameReceived?.(frame, receivedAt);
+
+    const values = this.getPressureUnit() === 'kPa' && this.calibrationProfile
+      ? applyCalibration(frame.values, this.calibrationProfile)
+      : frame.values;
+    this.onDataReceived?.(values, receivedAt, frame);
+  }
+
+  startDataCollection(): void {
+    this.isCollecting = true;
+    console.log('🚀 Starting ESP32 data collection...');
+    this.onRawDataReceived?.('🚀 Starting data collection...');
+    
+    // Data comes via notifications once the device has been told to start
+    this.sendStreamCommand({ type: 'start' });
   }
 
   stopDataCollection(): void {
@@ -288,35 +811,89 @@ class BLEManager {
     console.log('🛑 Stopping ESP32 data collection...');
     this.onRawDataReceived?.('🛑 Stopping data collection...');
     
-    if (this.collectionInterval) {
-      clearInterval(this.collectionInterval);
-      this.collectionInterval = null;
-    }
-    
     // Send stop command to ESP32 if connected
-    if (this.characteristic && !this.device?.id?.startsWith('demo-')) {
-      this.sendStopCommand();
-    }
+    this.sendStreamCommand({ type: 'stop' });
   }
 
-  private async sendStopCommand(): Promise<void> {
-    if (this.characteristic) {
+  // Bare START / STOP unless the profile says the firmware acknowledges commands;
+  // a NAK or timeout there falls back to the bare form
+  private async sendStreamCommand(command: StreamCommand): Promise<void> {
+    if (!this.canWrite()) return;
+    const verb = formatLegacyCommand(command);
+
+    if (this.profile.acknowledgedCommands) {
       try {
-        const stopCommand = new TextEncoder().encode('STOP');
-        await this.characteristic.writeValue(stopCommand);
-        console.log('📡 Sent STOP command to ESP32');
-        this.onRawDataReceived?.('📡 Sent STOP command to ESP32');
+        await this.sendCommand(command);
+        return;
       } catch (error) {
-        console.error('❌ Error sending stop command:', error);
-        this.onRawDataReceived?.(`❌ Error sending stop command: ${error}`);
+        console.warn(`⚠️ ${verb} not confirmed, sending the bare command:`, error);
+        if (!this.canWrite()) return;
       }
     }
+
+    try {
+      await this.writeCommand(new TextEncoder().encode(verb));
+      console.log(`📡 Sent ${verb} command to ESP32`);
+      this.onRawDataReceived?.(`📡 Sent ${verb} command to ESP32`);
+    } catch (error) {
+      console.error(`❌ Error sending ${verb.toLowerCase()} command:`, error);
+      this.onRawDataReceived?.(`❌ Error sending ${verb.toLowerCase()} command: ${error}`);
+    }
+  }
+
+  // Typed device commands. Each resolves once the device acknowledges it and rejects
+  // on NAK, timeout or link loss; every step is also reported on the console.
+  async sendCommand<C extends DeviceCommand>(command: C, timeoutMs?: number): Promise<DeviceCommandResult<C>> {
+    return this.commands.send(command, (bytes) => this.writeCommand(bytes), timeoutMs);
+  }
+
+  async setSampleRate(rateHz: number): Promise<void> {
+    await this.sendCommand({ type: 'set-sample-rate', rateHz });
+  }
+
+  // Zeroes the sensor offsets on the device - the insole must be unloaded
+  async tare(): Promise<void> {
+    await this.sendCommand({ type: 'tare' });
+  }
+
+  async getFirmwareVersion(): Promise<string> {
+    return this.sendCommand({ type: 'get-firmware-version' });
+  }
+
+  async getBatteryLevel(): Promise<number> {
+    return this.sendCommand({ type: 'get-battery' });
+  }
+
+  async setDeviceSide(side: SoleSide): Promise<void> {
+    await this.sendCommand({ type: 'set-side', side });
+  }
+
+  private canWrite(): boolean {
+    return this.transport !== null || this.characteristic !== null;
+  }
+
+  private async writeCommand(bytes: Uint8Array): Promise<void> {
+    if (this.transport) {
+      await this.transport.write(bytes);
+    } else if (this.characteristic) {
+      await (this.commandCharacteristic || this.characteristic).writeValue(bytes);
+    } else {
+      throw new Error('Not connected to an ESP32 device');
+    }
   }
 
   async disconnect(): Promise<void> {
     console.log('🔌 Disconnecting from ESP32...');
     this.onRawDataReceived?.('🔌 Disconnecting from ESP32...');
-    this.stopDataCollection();
+    this.disconnectRequested = true;
+    this.cancelReconnect();
+    this.reconnectAttempt = 0;
+    if (this.isCollecting) {
+      this.stopDataCollection();
+    }
+    this.commands.cancelAll('disconnected');
+    this.stopBatteryMonitoring();
+    this.closeTransport();
     
     if (this.characteristic) {
       try {
@@ -334,13 +911,30 @@ class BLEManager {
     this.server = null;
     this.service = null;
     this.characteristic = null;
+    this.commandCharacteristic = null;
+    this.setCalibrationProfile(null);
+    this.deviceInformation = EMPTY_DEVICE_INFORMATION;
+    this.batteryLevel = null;
+    this.onDeviceMetadataChange?.(this.getDeviceMetadata());
+    this.registeredDevice = null;
+    this.setSideWarning(null);
+    this.restoreReplaySettings();
     
+    this.setConnectionState('disconnected');
     this.onConnectionChange?.(false);
   }
 
+  isCollectingData(): boolean {
+    return this.isCollecting;
+  }
+
+  getDevice(): BluetoothDevice | null {
+    return this.device;
+  }
+
   isConnected(): boolean {
-    if (this.device?.id?.startsWith('demo-')) {
-      return true; // Demo devices are always "connected"
+    if (this.transport) {
+      return this.transport.isConnected();
     }
     return this.server?.connected || false;
   }
@@ -350,7 +944,7 @@ class BLEManager {
     if (!this.device) return null;
     
     return {
-      name: this.device.name || 'Unknown Device',
+      name: this.registeredDevice ? getDeviceDisplayName(this.registeredDevice) : this.device.name || 'Unknown Device',
       id: this.device.id,
       connected: this.isConnected()
     };
@@ -0,0 +1,158 @@
+// Per-channel conversion from raw ADC counts to kPa.
+// Each channel gets a zero-load offset plus a polynomial fitted through
+// known-load reference points: kPa = c0 + c1·x + c2·x², x = raw − offset.
+
+export type PressureUnit = 'kPa' | 'raw';
+
+export type CalibrationModel = 'linear' | 'polynomial';
+
+export interface CalibrationPoint {
+  raw: number; // averaged ADC reading under the reference load
+  load: number; // applied reference pressure, kPa
+}
+
+export interface ChannelCurve {
+  coefficients: number[]; // ascending powers of the offset-corrected reading
+  rSquared: number;
+}
+
+export interface CalibrationProfile {
+  deviceId: string;
+  deviceName: string;
+  sensorLayoutId: string;
+  channelCount: number;
+  model: CalibrationModel;
+  zeroOffsets: number[];
+  referencePoints: CalibrationPoint[][]; // per channel
+  curves: ChannelCurve[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Short description stored with each session so reports can cite the calibration used
+export interface CalibrationSummary {
+  deviceId: string;
+  model: CalibrationModel;
+  calibratedAt: string;
+}
+
+const MODEL_DEGREE: Record<CalibrationModel, number> = {
+  linear: 1,
+  polynomial: 2
+};
+
+export const getPressureUnitLabel = (unit: PressureUnit): string =>
+  unit === 'kPa' ? 'kPa' : 'raw';
+
+// Number of known-load points each channel needs on top of the zero-load capture
+export const getRequiredReferencePoints = (model: CalibrationModel): number => MODEL_DEGREE[model];
+
+export const summarizeCalibration = (profile: CalibrationProfile): CalibrationSummary => ({
+  deviceId: profile.deviceId,
+  model: profile.model,
+  calibratedAt: profile.updatedAt
+});
+
+// Solves A·x = b in place with partial pivoting; null when the system is singular
+const solveLinearSystem = (matrix: number[][], vector: number[]): number[] | null => {
+  const size = vector.length;
+  const a = matrix.map((row, index) => [...row, vector[index]]);
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= size; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const solution = Array(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = a[row][size];
+    for (let k = row + 1; k < size; k++) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+};
+
+const evaluatePolynomial = (coefficients: number[], x: number): number =>
+  coefficients.reduce((sum, coefficient, power) => sum + coefficient * Math.pow(x, power), 0);
+
+// Least-squares polynomial fit through (x, y) pairs via the normal equations
+export const fitPolynomial = (xs: number[], ys: number[], degree: number): ChannelCurve | null => {
+  const terms = degree + 1;
+  if (xs.length < terms) return null;
+
+  const normal = Array.from({ length: terms }, () => Array(terms).fill(0));
+  const rhs = Array(terms).fill(0);
+  xs.forEach((x, index) => {
+    for (let i = 0; i < terms; i++) {
+      rhs[i] += ys[index] * Math.pow(x, i);
+      for (let j = 0; j < terms; j++) {
+        normal[i][j] += Math.pow(x, i + j);
+      }
+    }
+  });
+
+  const coefficients = solveLinearSystem(normal, rhs);
+  if (!coefficients) return null;
+
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const totalSquares = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  const residualSquares = xs.reduce((sum, x, index) => sum + (ys[index] - evaluatePolynomial(coefficients, x)) ** 2, 0);
+
+  return {
+    coefficients,
+    rSquared: totalSquares > 0 ? Math.round((1 - residualSquares / totalSquares) * 10000) / 10000 : 1
+  };
+};
+
+// Fits every channel through its zero-load point and reference points.
+// Throws with the list of channels that lack enough distinct readings.
+export const fitCalibrationCurves = (
+  zeroOffsets: number[],
+  referencePoints: CalibrationPoint[][],
+  model: CalibrationModel
+): ChannelCurve[] => {
+  const degree = MODEL_DEGREE[model];
+  const failedChannels: string[] = [];
+
+  const curves = zeroOffsets.map((offset, channel) => {
+    const points = [{ raw: offset, load: 0 }, ...(referencePoints[channel] || [])];
+    const curve = fitPolynomial(points.map(point => point.raw - offset), points.map(point => point.load), degree);
+    if (!curve) failedChannels.push(`P${channel + 1}`);
+    return curve;
+  });
+
+  if (failedChannels.length > 0) {
+    throw new Error(
+      `${model === 'linear' ? 'Linear' : 'Polynomial'} fit needs ${degree} distinct reference load(s) per sensor - ` +
+      `not enough data for ${failedChannels.join(', ')}`
+    );
+  }
+
+  return curves as ChannelCurve[];
+};
+
+export const isProfileApplicable = (profile: CalibrationProfile | null, channelCount: number): boolean =>
+  !!profile && profile.channelCount === channelCount && profile.curves.length === channelCount;
+
+// Converts one raw frame to kPa (0.1 kPa resolution, never negative)
+export const applyCalibration = (values: number[], profile: CalibrationProfile): number[] =>
+  values.map((raw, channel) => {
+    const curve = profile.curves[channel];
+    if (!curve) return raw;
+
+    const x = Math.max(0, raw - profile.zeroOffsets[channel]);
+    return Math.max(0, Math.round(evaluatePolynomial(curve.coefficients, x) * 10) / 10);
+  });
@@ -0,0 +1,28 @@
+import { STORE_CALIBRATIONS, withStore } from './LocalDatabase';
+import { CalibrationProfile } from './Calibration';
+
+// One calibration profile per insole, keyed by its BLE device ID
+class CalibrationStore {
+  async save(profile: CalibrationProfile): Promise<CalibrationProfile> {
+    const record = { ...profile, updatedAt: new Date().toISOString() };
+    await withStore(STORE_CALIBRATIONS, 'readwrite', store => store.put(record));
+    return record;
+  }
+
+  async get(deviceId: string): Promise<CalibrationProfile | null> {
+    const profile = await withStore<CalibrationProfile | undefined>(STORE_CALIBRATIONS, 'readonly', store => store.get(deviceId));
+    return profile || null;
+  }
+
+  // Most recently calibrated first
+  async list(): Promise<CalibrationProfile[]> {
+    const profiles = await withStore<CalibrationProfile[]>(STORE_CALIBRATIONS, 'readonly', store => store.getAll());
+    return profiles.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async delete(deviceId: string): Promise<void> {
+    await withStore(STORE_CALIBRATIONS, 'readwrite', store => store.delete(deviceId));
+  }
+}
+
+export default CalibrationStore;
@@ -0,0 +1,97 @@
+import { SensorLayout, SensorPoint } from './SensorLayouts';
+
+// Sole artwork is 1024x1536: one unit of normalized x is 1/1.5 of the sole length
+const SOLE_ASPECT_RATIO = 1.5;
+// Chi-square value for 2 degrees of freedom at 95% confidence
+const CHI_SQUARE_95_2DF = 5.991;
+
+export interface CopSample extends SensorPoint {
+  time: number; // ms on the shared clock
+}
+
+// Sway metrics use "% of foot length" (%FL) for both axes so distances and areas are isotropic
+export interface SwayMetrics {
+  sampleCount: number;
+  durationSec: number;
+  pathLength: number;     // %FL
+  meanVelocity: number;   // %FL/s
+  ellipseArea95: number;  // %FL²
+  apRange: number;        // %FL, anterior-posterior (along the sole)
+  mlRange: number;        // %FL, medial-lateral (across the sole)
+}
+
+/**
+ * Pressure-weighted centroid of the sensor positions, normalized to the sole image.
+ * Returns null when no sensor is loaded.
+ */
+export const computeCenterOfPressure = (values: number[], sensorLayout: SensorLayout): SensorPoint | null => {
+  let total = 0;
+  let x = 0;
+  let y = 0;
+
+  sensorLayout.points.forEach((point, index) => {
+    const value = Math.max(0, values[index] || 0);
+    total += value;
+    x += point.x * value;
+    y += point.y * value;
+  });
+
+  return total > 0 ? { x: x / total, y: y / total } : null;
+};
+
+// Normalized image coordinates → %FL
+const toFootLengthUnits = (sample: SensorPoint) => ({
+  ml: (sample.x / SOLE_ASPECT_RATIO) * 100,
+  ap: sample.y * 100
+});
+
+const round = (value: number, decimals = 2) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export const computeSwayMetrics = (trajectory: CopSample[]): SwayMetrics => {
+  const points = trajectory.map(toFootLengthUnits);
+  const sampleCount = points.length;
+  const durationSec = sampleCount > 1 ? (trajectory[sampleCount - 1].time - trajectory[0].time) / 1000 : 0;
+
+  if (sampleCount < 2) {
+    return { sampleCount, durationSec: 0, pathLength: 0, meanVelocity: 0, ellipseArea95: 0, apRange: 0, mlRange: 0 };
+  }
+
+  let pathLength = 0;
+  for (let index = 1; index < sampleCount; index++) {
+    pathLength += Math.hypot(points[index].ml - points[index - 1].ml, points[index].ap - points[index - 1].ap);
+  }
+
+  const meanMl = points.reduce((sum, point) => sum + point.ml, 0) / sampleCount;
+  const meanAp = points.reduce((sum, point) => sum + point.ap, 0) / sampleCount;
+  let varMl = 0;
+  let varAp = 0;
+  let covariance = 0;
+  points.forEach(point => {
+    varMl += (point.ml - meanMl) ** 2;
+    varAp += (point.ap - meanAp) ** 2;
+    covariance += (point.ml - meanMl) * (point.ap - meanAp);
+  });
+  varMl /= sampleCount - 1;
+  varAp /= sampleCount - 1;
+  covariance /= sampleCount - 1;
+
+  // Area of the 95% confidence ellipse: π · χ² · sqrt(λ1 · λ2), where λ1 · λ2 = det(cov)
+  const determinant = Math.max(0, varMl * varAp - covariance * covariance);
+  const ellipseArea95 = Math.PI * CHI_SQUARE_95_2DF * Math.sqrt(determinant);
+
+  const mlValues = points.map(point => point.ml);
+  const apValues = points.map(point => point.ap);
+
+  return {
+    sampleCount,
+    durationSec: round(durationSec),
+    pathLength: round(pathLength),
+    meanVelocity: durationSec > 0 ? round(pathLength / durationSec) : 0,
+    ellipseArea95: round(ellipseArea95),
+    apRange: round(Math.max(...apValues) - Math.min(...apValues)),
+    mlRange: round(Math.max(...mlValues) - Math.min(...mlValues))
+  };
+};
@@ -0,0 +1,167 @@
+import { SensorLayout, SensorPoint, getChannelLabels, getSensorLayout } from './SensorLayouts';
+import { PressureData, SessionRecord } from './SessionStore';
+import { getMissingRecordingSec } from './DataGaps';
+
+// Regions along the sole, in normalized image y (toes at the top of the artwork).
+// The boundaries put every built-in layout's annotated toe/metatarsal/forefoot,
+// midfoot and heel sensors into the region they are annotated as.
+const FOREFOOT_END_Y = 0.47;
+const REARFOOT_START_Y = 0.68;
+
+// Foot axis from the heel centre to the second toe. The artwork is a plantar view
+// with the hallux on the low-x side, and both sides share it, so medial is always
+// the low-x side of this line.
+const FOOT_AXIS_HEEL: SensorPoint = { x: 0.371, y: 0.781 };
+const FOOT_AXIS_TOE: SensorPoint = { x: 0.4, y: 0.098 };
+
+export type LongitudinalRegion = 'forefoot' | 'midfoot' | 'rearfoot';
+export type TransverseRegion = 'medial' | 'lateral';
+export type FootRegion = LongitudinalRegion | TransverseRegion;
+
+export const FOOT_REGIONS: { id: FootRegion; label: string }[] = [
+  { id: 'forefoot', label: 'Forefoot' },
+  { id: 'midfoot', label: 'Midfoot' },
+  { id: 'rearfoot', label: 'Rearfoot' },
+  { id: 'medial', label: 'Medial' },
+  { id: 'lateral', label: 'Lateral' }
+];
+
+export interface SensorMetrics {
+  channel: string; // "P1"
+  mean: number;
+  peak: number;
+  sd: number; // sample standard deviation
+  cv: number | null; // % (sd / mean), null for an unloaded sensor
+  pti: number | null; // pressure-time integral, unit·s; null without a recorded duration
+}
+
+export interface RegionalLoad {
+  region: FootRegion;
+  label: string;
+  channels: string[];
+  loadPercent: number | null; // share of the whole sole's load; null when no sensor is in the region
+  mean: number | null; // mean of the region's sensor means
+  peak: number | null; // highest sensor peak in the region
+}
+
+export interface ClinicalMetrics {
+  sampleCount: number;
+  durationSec: number | null; // recording time the integrals cover
+  sensors: SensorMetrics[];
+  regions: RegionalLoad[];
+  forefootRearfootRatio: number | null; // forefoot load / rearfoot load
+  peakPressure: { channel: string; value: number } | null;
+}
+
+const round = (value: number, decimals = 1) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export const getLongitudinalRegion = (point: SensorPoint): LongitudinalRegion =>
+  point.y < FOREFOOT_END_Y ? 'forefoot' : point.y < REARFOOT_START_Y ? 'midfoot' : 'rearfoot';
+
+export const getTransverseRegion = (point: SensorPoint): TransverseRegion => {
+  const along = (FOOT_AXIS_HEEL.y - point.y) / (FOOT_AXIS_HEEL.y - FOOT_AXIS_TOE.y);
+  const axisX = FOOT_AXIS_HEEL.x + (FOOT_AXIS_TOE.x - FOOT_AXIS_HEEL.x) * along;
+  return point.x < axisX ? 'medial' : 'lateral';
+};
+
+// Channel indices per region for a layout
+export const getRegionChannels = (sensorLayout: SensorLayout): Record<FootRegion, number[]> => {
+  const regions: Record<FootRegion, number[]> = { forefoot: [], midfoot: [], rearfoot: [], medial: [], lateral: [] };
+  sensorLayout.points.forEach((point, index) => {
+    regions[getLongitudinalRegion(point)].push(index);
+    regions[getTransverseRegion(point)].push(index);
+  });
+  return regions;
+};
+
+/**
+ * Per-sensor and regional statistics over the recording-phase samples (settle
+ * samples are excluded, as they are from the averages). Samples are taken to be
+ * evenly spaced over `durationSec`, so each pressure-time integral is the mean
+ * pressure times the recorded time. Regional load is the region's share of the
+ * summed pressure of all sensors.
+ */
+export const computeClinicalMetrics = (
+  pressureData: PressureData[],
+  sensorLayout: SensorLayout,
+  durationSec: number | null
+): ClinicalMetrics => {
+  const samples = pressureData.filter(data => data.phase === 'recording');
+  const channelLabels = getChannelLabels(sensorLayout);
+  const channelCount = sensorLayout.channelCount;
+  const sampleCount = samples.length;
+  const integrationSec = durationSec !== null && durationSec > 0 ? durationSec : null;
+
+  const sums = Array(channelCount).fill(0);
+  const peaks = Array(channelCount).fill(0);
+  samples.forEach(data => {
+    for (let index = 0; index < channelCount; index++) {
+      const value = data.values[index] || 0;
+      sums[index] += value;
+      peaks[index] = Math.max(peaks[index], value);
+    }
+  });
+  const means = sums.map(sum => (sampleCount > 0 ? sum / sampleCount : 0));
+
+  const squaredDeviations = Array(channelCount).fill(0);
+  samples.forEach(data => {
+    for (let index = 0; index < channelCount; index++) {
+      squaredDeviations[index] += ((data.values[index] || 0) - means[index]) ** 2;
+    }
+  });
+
+  const sensors: SensorMetrics[] = channelLabels.map((channel, index) => {
+    const sd = sampleCount > 1 ? Math.sqrt(squaredDeviations[index] / (sampleCount - 1)) : 0;
+    return {
+      channel,
+      mean: round(means[index]),
+      peak: peaks[index],
+      sd: round(sd),
+      cv: means[index] > 0 ? round((sd / means[index]) * 100) : null,
+      pti: integrationSec !== null ? round(means[index] * integrationSec) : null
+    };
+  });
+
+  const totalLoad = sums.reduce((sum, value) => sum + value, 0);
+  const regionChannels = getRegionChannels(sensorLayout);
+  const regionLoad = (region: FootRegion) => regionChannels[region].reduce((sum, index) => sum + sums[index], 0);
+
+  const regions: RegionalLoad[] = FOOT_REGIONS.map(({ id, label }) => {
+    const channels = regionChannels[id];
+    const hasSensors = channels.length > 0;
+    const meanSum = channels.reduce((sum, index) => sum + means[index], 0);
+    return {
+      region: id,
+      label,
+      channels: channels.map(index => channelLabels[index]),
+      loadPercent: hasSensors && totalLoad > 0 ? round((regionLoad(id) / totalLoad) * 100) : null,
+      mean: hasSensors && sampleCount > 0 ? round(meanSum / channels.length) : null,
+      peak: hasSensors && sampleCount > 0 ? Math.max(...channels.map(index => peaks[index])) : null
+    };
+  });
+
+  const rearfootLoad = regionLoad('rearfoot');
+  const peakIndex = peaks.indexOf(Math.max(...peaks));
+
+  return {
+    sampleCount,
+    durationSec: integrationSec,
+    sensors,
+    regions,
+    forefootRearfootRatio: regionChannels.forefoot.length > 0 && rearfootLoad > 0
+      ? round(regionLoad('forefoot') / rearfootLoad, 2)
+      : null,
+    peakPressure: sampleCount > 0 && peakIndex >= 0 ? { channel: channelLabels[peakIndex], value: peaks[peakIndex] } : null
+  };
+};
+
+// Integrals cover the recorded time minus the gaps; legacy records without a recorded time get none
+export const computeSessionMetrics = (session: Pick<SessionRecord, 'pressureData' | 'sensorLayoutId' | 'recordedSec' | 'gaps'>): ClinicalMetrics =>
+  computeClinicalMetrics(
+    session.pressureData,
+    getSensorLayout(session.sensorLayoutId),
+    session.recordedSec !== null ? session.recordedSec - getMissingRecordingSec(session.gaps) : null
+  );
@@ -0,0 +1,42 @@
+export type RGB = [number, number, number];
+
+// Continuous scale matching the color bar printed on the sole artwork (0 → 225+ kPa)
+export const PRESSURE_SCALE_MAX = 225;
+
+const PRESSURE_COLOR_STOPS: { at: number; color: RGB }[] = [
+  { at: 0.0, color: [31, 95, 143] },   // Deep blue
+  { at: 0.1, color: [47, 127, 183] },  // Blue
+  { at: 0.2, color: [79, 195, 191] },  // Teal
+  { at: 0.3, color: [127, 196, 127] }, // Green
+  { at: 0.4, color: [175, 212, 79] },  // Yellow-green
+  { at: 0.5, color: [255, 242, 58] },  // Yellow
+  { at: 0.6, color: [253, 210, 53] },  // Amber
+  { at: 0.7, color: [251, 165, 38] },  // Orange
+  { at: 0.8, color: [249, 122, 38] },  // Dark orange
+  { at: 0.9, color: [236, 81, 42] },   // Red-orange
+  { at: 1.0, color: [200, 40, 26] }    // Hot red
+];
+
+export const pressureToRgb = (value: number, max = PRESSURE_SCALE_MAX): RGB => {
+  const t = Math.max(0, Math.min(1, value / max));
+  const upperIndex = PRESSURE_COLOR_STOPS.findIndex(stop => stop.at >= t);
+  if (upperIndex <= 0) return PRESSURE_COLOR_STOPS[0].color;
+
+  const lower = PRESSURE_COLOR_STOPS[upperIndex - 1];
+  const upper = PRESSURE_COLOR_STOPS[upperIndex];
+  const ratio = (t - lower.at) / (upper.at - lower.at);
+  return lower.color.map((channel, index) =>
+    Math.round(channel + (upper.color[index] - channel) * ratio)
+  ) as RGB;
+};
+
+export const pressureToCss = (value: number, max = PRESSURE_SCALE_MAX): string => {
+  const [r, g, b] = pressureToRgb(value, max);
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+// CSS gradient for legends, left (0) to right (max)
+export const pressureScaleGradient = (): string =>
+  `linear-gradient(to right, ${PRESSURE_COLOR_STOPS
+    .map(stop => `rgb(${stop.color.join(', ')}) ${stop.at * 100}%`)
+    .join(', ')})`;
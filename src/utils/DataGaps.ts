@@ -0,0 +1,36 @@
+// Holes in a recorded sample stream. A gap is any silence longer than the
+// threshold, or any silence that spans a BLE link loss. Gaps are kept with the
+// session so reports can say how much of the averaged period had no data.
+
+export type GapReason = 'link-lost' | 'stream-stall';
+
+export interface DataGap {
+  startSec: number; // from the end of the countdown, like SessionRecord.elapsedSec
+  durationSec: number;
+  missingRecordingSec: number; // part of the gap that fell inside recording phases
+  trial: number;
+  reason: GapReason;
+  beforeSample: number; // index in pressureData of the first sample after the gap
+}
+
+// A few missed notifications at the usual 2-10 Hz are not worth reporting
+export const DEFAULT_GAP_THRESHOLD_MS = 1500;
+
+export const getGapReasonLabel = (reason: GapReason): string =>
+  reason === 'link-lost' ? 'BLE link lost' : 'no data received';
+
+export const getMissingRecordingSec = (gaps: DataGap[]): number =>
+  Math.round(gaps.reduce((sum, gap) => sum + gap.missingRecordingSec, 0) * 10) / 10;
+
+// "2 gaps, 4.5 s of recording missing (18%)"
+export const describeDataGaps = (gaps: DataGap[], recordedSec: number | null): string => {
+  if (gaps.length === 0) return 'None';
+
+  const missingSec = getMissingRecordingSec(gaps);
+  const share = recordedSec ? ` (${Math.round((missingSec / recordedSec) * 100)}%)` : '';
+  return `${gaps.length} gap${gaps.length === 1 ? '' : 's'}, ${missingSec} s of recording missing${share}`;
+};
+
+// "12.5 s, trial 2: 3.2 s (BLE link lost)"
+export const formatDataGap = (gap: DataGap): string =>
+  `${gap.startSec} s${gap.trial > 0 ? `, trial ${gap.trial}` : ''}: ${gap.durationSec} s (${getGapReasonLabel(gap.reason)})`;
@@ -0,0 +1,61 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import CommandChannel, { formatCommandRequest, parseCommandRequest, parseLegacyCommand } from './DeviceCommands';
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('CommandChannel', () => {
+  test('resolves with the value of a reply that arrives after the write', async () => {
+    const channel = new CommandChannel();
+    const result = channel.send({ type: 'get-battery' }, async (bytes) => {
+      const request = parseCommandRequest(decode(bytes));
+      setTimeout(() => channel.handleReply(`ACK #${request?.id} 87%`), 5);
+    });
+
+    assert.equal(await result, 87);
+    assert.equal(channel.getPendingCount(), 0);
+  });
+
+  test('rejects with the NAK when it arrives before the write resolves', async () => {
+    const channel = new CommandChannel();
+    const result = channel.send({ type: 'tare' }, async (bytes) => {
+      const request = parseCommandRequest(decode(bytes));
+      channel.handleReply(`NAK #${request?.id} insole loaded`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+    });
+
+    await assert.rejects(result, /rejected by device: insole loaded/);
+    assert.equal(channel.getPendingCount(), 0);
+  });
+
+  test('reports the write error when the command was cancelled during a failing write', async () => {
+    const channel = new CommandChannel();
+    const result = channel.send({ type: 'tare' }, async () => {
+      channel.cancelAll('disconnected');
+      throw new Error('GATT operation failed');
+    });
+
+    await assert.rejects(result, /could not be sent: GATT operation failed/);
+  });
+
+  test('times out when no reply arrives', async () => {
+    const channel = new CommandChannel();
+    await assert.rejects(channel.send({ type: 'get-firmware-version' }, async () => undefined, 10), /not acknowledged within 10 ms/);
+    assert.equal(channel.getPendingCount(), 0);
+  });
+});
+
+describe('command formats', () => {
+  test('round-trips a request with an id', () => {
+    assert.deepEqual(parseCommandRequest(formatCommandRequest(7, { type: 'set-sample-rate', rateHz: 50 })), {
+      id: 7,
+      command: { type: 'set-sample-rate', rateHz: 50 }
+    });
+  });
+
+  test('reads the bare START / STOP of older firmware', () => {
+    assert.deepEqual(parseLegacyCommand('START\n'), { type: 'start' });
+    assert.deepEqual(parseLegacyCommand('STOP'), { type: 'stop' });
+    assert.equal(parseLegacyCommand('START #3'), null);
+  });
+});
@@ -0,0 +1,259 @@
+import { SoleSide } from './FrameDecoderRegistry';
+import { sharedClockNow } from './SampleAlignment';
+
+// Commands written to the insole's characteristic. Each carries a request ID
+// that the firmware echoes in its reply on the notify stream:
+//   request  RATE 100 #7
+//   reply    ACK #7 [value]   or   NAK #7 <reason>
+// Older firmware only knows a bare START / STOP (matched as the exact string,
+// never answered), so those stay the default unless the device profile says
+// the firmware takes acknowledged commands.
+export type DeviceCommand =
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'set-sample-rate'; rateHz: number }
+  | { type: 'tare' }
+  | { type: 'get-firmware-version' }
+  | { type: 'get-battery' }
+  | { type: 'set-side'; side: SoleSide };
+
+export type DeviceCommandType = DeviceCommand['type'];
+
+// What each command resolves with once acknowledged
+export interface DeviceCommandResults {
+  start: void;
+  stop: void;
+  'set-sample-rate': void;
+  tare: void;
+  'get-firmware-version': string;
+  'get-battery': number; // percent
+  'set-side': void;
+}
+
+export type DeviceCommandResult<C extends DeviceCommand> = DeviceCommandResults[C['type']];
+
+export type CommandReply = { ok: true; value?: string } | { ok: false; reason: string };
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 2000;
+export const SAMPLE_RATES_HZ = [10, 25, 50, 100];
+const MAX_SAMPLE_RATE_HZ = 1000;
+const MAX_REQUEST_ID = 65535;
+
+const REQUEST_PATTERN = /^([A-Z]+\??)(?: (\S+))? #(\d+)$/;
+const REPLY_PATTERN = /^(ACK|NAK) #(\d+)(?: (.*))?$/;
+
+const VERBS: Record<DeviceCommandType, string> = {
+  start: 'START',
+  stop: 'STOP',
+  'set-sample-rate': 'RATE',
+  tare: 'TARE',
+  'get-firmware-version': 'VERSION?',
+  'get-battery': 'BATTERY?',
+  'set-side': 'SIDE'
+};
+
+export const describeCommand = (command: DeviceCommand): string => {
+  switch (command.type) {
+    case 'start': return 'START';
+    case 'stop': return 'STOP';
+    case 'set-sample-rate': return `SET SAMPLE RATE ${command.rateHz} Hz`;
+    case 'tare': return 'TARE (zero sensors)';
+    case 'get-firmware-version': return 'GET FIRMWARE VERSION';
+    case 'get-battery': return 'GET BATTERY';
+    case 'set-side': return `SET SIDE ${command.side.toUpperCase()}`;
+  }
+};
+
+export const formatCommandRequest = (id: number, command: DeviceCommand): string => {
+  const verb = VERBS[command.type];
+  switch (command.type) {
+    case 'set-sample-rate': return `${verb} ${command.rateHz} #${id}`;
+    case 'set-side': return `${verb} ${command.side === 'left' ? 'L' : 'R'} #${id}`;
+    default: return `${verb} #${id}`;
+  }
+};
+
+export type StreamCommand = Extract<DeviceCommand, { type: 'start' | 'stop' }>;
+
+export const formatLegacyCommand = (command: StreamCommand): string => VERBS[command.type];
+
+// Firmware-side parsing, used by the virtual devices
+export const parseLegacyCommand = (text: string): StreamCommand | null => {
+  switch (text.trim()) {
+    case 'START': return { type: 'start' };
+    case 'STOP': return { type: 'stop' };
+    default: return null;
+  }
+};
+
+export const parseCommandRequest = (text: string): { id: number; command: DeviceCommand } | null => {
+  const match = text.trim().match(REQUEST_PATTERN);
+  if (!match) return null;
+
+  const [, verb, argument, idText] = match;
+  const id = Number(idText);
+  const type = (Object.keys(VERBS) as DeviceCommandType[]).find(key => VERBS[key] === verb);
+
+  switch (type) {
+    case 'set-sample-rate': {
+      const rateHz = Number(argument);
+      return Number.isFinite(rateHz) ? { id, command: { type, rateHz } } : null;
+    }
+    case 'set-side':
+      return argument === 'L' || argument === 'R' ? { id, command: { type, side: argument === 'L' ? 'left' : 'right' } } : null;
+    case undefined:
+      return null;
+    default:
+      return { id, command: { type } };
+  }
+};
+
+export const formatCommandReply = (id: number, reply: CommandReply): string =>
+  reply.ok
+    ? `ACK #${id}${reply.value !== undefined ? ` ${reply.value}` : ''}`
+    : `NAK #${id} ${reply.reason}`;
+
+export const parseCommandReply = (text: string): { id: number; reply: CommandReply } | null => {
+  const match = text.trim().match(REPLY_PATTERN);
+  if (!match) return null;
+
+  const [, status, idText, rest] = match;
+  const reply: CommandReply = status === 'ACK'
+    ? { ok: true, value: rest?.trim() || undefined }
+    : { ok: false, reason: rest?.trim() || 'no reason given' };
+  return { id: Number(idText), reply };
+};
+
+// Turns the ACK value into the command's typed result
+const readResult = (command: DeviceCommand, value: string | undefined): unknown => {
+  switch (command.type) {
+    case 'get-firmware-version':
+      if (!value) throw new Error('Device did not report a firmware version');
+      return value;
+    case 'get-battery': {
+      const percent = Number(value?.replace('%', ''));
+      if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+        throw new Error(`Invalid battery level "${value ?? ''}"`);
+      }
+      return percent;
+    }
+    default:
+      return undefined;
+  }
+};
+
+interface PendingCommand {
+  command: DeviceCommand;
+  sentAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  resolve: (value: string | undefined) => void;
+  reject: (error: Error) => void;
+}
+
+// Request/response correlation for one connection. Every command and its
+// outcome - ACK, NAK, timeout or cancellation - is reported through onLog.
+class CommandChannel {
+  private nextId = 1;
+  private pending = new Map<number, PendingCommand>();
+  private readonly clock: () => number;
+
+  public onLog: ((message: string) => void) | null = null;
+
+  constructor(clock: () => number = sharedClockNow) {
+    this.clock = clock;
+  }
+
+  async send<C extends DeviceCommand>(
+    command: C,
+    write: (bytes: Uint8Array) => Promise<void>,
+    timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS
+  ): Promise<DeviceCommandResult<C>> {
+    if (command.type === 'set-sample-rate' && !(Number.isInteger(command.rateHz) && command.rateHz > 0 && command.rateHz <= MAX_SAMPLE_RATE_HZ)) {
+      const reason = `Sample rate must be a whole number between 1 and ${MAX_SAMPLE_RATE_HZ} Hz`;
+      this.onLog?.(`❌ Command ${describeCommand(command)} not sent: ${reason}`);
+      throw new Error(reason);
+    }
+
+    const id = this.takeId();
+    const label = `#${id} ${describeCommand(command)}`;
+
+    // Registered before writing - a fast device can reply before writeValue resolves
+    const reply = new Promise<string | undefined>((resolve, reject) => {
+      this.pending.set(id, { command, sentAt: this.clock(), timer: null, resolve, reject });
+    });
+    // A NAK or cancelAll() can land while the write is still pending, or the write can fail
+    // after one did - mark the rejection handled now; it is still raised by the await below
+    reply.catch(() => undefined);
+
+    this.onLog?.(`➡️ Command ${label}`);
+    try {
+      await write(new TextEncoder().encode(formatCommandRequest(id, command)));
+    } catch (error) {
+      this.pending.delete(id);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.onLog?.(`❌ Command ${label} could not be sent: ${errorMessage}`);
+      throw new Error(`${describeCommand(command)} could not be sent: ${errorMessage}`);
+    }
+
+    // The timeout runs from the completed write; the reply may already be in
+    const entry = this.pending.get(id);
+    if (entry) {
+      entry.timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.onLog?.(`⏱️ Command ${label} timed out after ${timeoutMs} ms`);
+        entry.reject(new Error(`${describeCommand(command)} was not acknowledged within ${timeoutMs} ms`));
+      }, timeoutMs);
+    }
+
+    return readResult(command, await reply) as DeviceCommandResult<C>;
+  }
+
+  // Returns true when the text was a command reply, so it is not decoded as a pressure frame
+  handleReply(text: string): boolean {
+    const parsed = parseCommandReply(text);
+    if (!parsed) return false;
+
+    const entry = this.pending.get(parsed.id);
+    if (!entry) {
+      this.onLog?.(`⚠️ Ignored reply for unknown or expired command #${parsed.id}`);
+      return true;
+    }
+
+    if (entry.timer) clearTimeout(entry.timer);
+    this.pending.delete(parsed.id);
+    const label = `#${parsed.id} ${describeCommand(entry.command)}`;
+    const elapsedMs = Math.round(this.clock() - entry.sentAt);
+
+    if (parsed.reply.ok) {
+      const value = parsed.reply.value;
+      this.onLog?.(`✅ Command ${label} acknowledged in ${elapsedMs} ms${value !== undefined ? `: ${value}` : ''}`);
+      entry.resolve(value);
+    } else {
+      this.onLog?.(`❌ Command ${label} rejected by device: ${parsed.reply.reason}`);
+      entry.reject(new Error(`${describeCommand(entry.command)} rejected by device: ${parsed.reply.reason}`));
+    }
+    return true;
+  }
+
+  // The link is gone - no reply can arrive for anything still waiting
+  cancelAll(reason: string): void {
+    this.pending.forEach((entry, id) => {
+      if (entry.timer) clearTimeout(entry.timer);
+      this.onLog?.(`⚠️ Command #${id} ${describeCommand(entry.command)} cancelled: ${reason}`);
+      entry.reject(new Error(`${describeCommand(entry.command)} cancelled: ${reason}`));
+    });
+    this.pending.clear();
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  private takeId(): number {
+    const id = this.nextId;
+    this.nextId = this.nextId >= MAX_REQUEST_ID ? 1 : this.nextId + 1;
+    return id;
+  }
+}
+
+export default CommandChannel;
@@ -0,0 +1,77 @@
+// Standard GATT Battery (0x180F) and Device Information (0x180A) services.
+// Both are optional on the insole firmware; anything missing stays null.
+export interface DeviceInformation {
+  manufacturer: string | null;
+  model: string | null;
+  serialNumber: string | null;
+  firmwareRevision: string | null;
+  hardwareRevision: string | null;
+}
+
+export interface DeviceMetadata extends DeviceInformation {
+  batteryLevel: number | null; // percent
+}
+
+export const EMPTY_DEVICE_INFORMATION: DeviceInformation = {
+  manufacturer: null,
+  model: null,
+  serialNumber: null,
+  firmwareRevision: null,
+  hardwareRevision: null
+};
+
+export const EMPTY_DEVICE_METADATA: DeviceMetadata = { ...EMPTY_DEVICE_INFORMATION, batteryLevel: null };
+
+export const BATTERY_SERVICE_UUID = '0000180f-0000-1000-8000-00805f9b34fb';
+export const BATTERY_LEVEL_UUID = '00002a19-0000-1000-8000-00805f9b34fb';
+export const DEVICE_INFORMATION_SERVICE_UUID = '0000180a-0000-1000-8000-00805f9b34fb';
+
+const DEVICE_INFORMATION_FIELDS: { key: keyof DeviceInformation; label: string; uuid: string }[] = [
+  { key: 'manufacturer', label: 'Manufacturer', uuid: '00002a29-0000-1000-8000-00805f9b34fb' },
+  { key: 'model', label: 'Model', uuid: '00002a24-0000-1000-8000-00805f9b34fb' },
+  { key: 'serialNumber', label: 'Serial Number', uuid: '00002a25-0000-1000-8000-00805f9b34fb' },
+  { key: 'firmwareRevision', label: 'Firmware', uuid: '00002a26-0000-1000-8000-00805f9b34fb' },
+  { key: 'hardwareRevision', label: 'Hardware', uuid: '00002a27-0000-1000-8000-00805f9b34fb' }
+];
+
+// Below this a measurement may not start - the insole could die mid-test
+export const LOW_BATTERY_PERCENT = 20;
+
+export const isBatteryLow = (batteryLevel: number | null): boolean =>
+  batteryLevel !== null && batteryLevel < LOW_BATTERY_PERCENT;
+
+export const formatBatteryLevel = (batteryLevel: number | null): string =>
+  batteryLevel === null ? 'Unknown' : `${batteryLevel}%${isBatteryLow(batteryLevel) ? ' (low)' : ''}`;
+
+// Reads whatever the Device Information Service offers; throws only when the service itself is missing
+export const readDeviceInformation = async (server: BluetoothRemoteGATTServer): Promise<DeviceInformation> => {
+  const service = await server.getPrimaryService(DEVICE_INFORMATION_SERVICE_UUID);
+  const information: DeviceInformation = { ...EMPTY_DEVICE_INFORMATION };
+  const decoder = new TextDecoder();
+
+  for (const field of DEVICE_INFORMATION_FIELDS) {
+    try {
+      const characteristic = await service.getCharacteristic(field.uuid);
+      const value = await characteristic.readValue();
+      // Firmware often pads strings with NULs
+      information[field.key] = decoder.decode(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)).replace(/\0+$/, '').trim() || null;
+    } catch {
+      information[field.key] = null;
+    }
+  }
+  return information;
+};
+
+// Label/value pairs for panels and reports, in display order
+export const getDeviceMetadataRows = (metadata: DeviceMetadata): [string, string][] => [
+  ...DEVICE_INFORMATION_FIELDS.map(field => [field.label, metadata[field.key] || '—'] as [string, string]),
+  ['Battery', formatBatteryLevel(metadata.batteryLevel)]
+];
+
+// One-line summary for session overviews
+export const describeDeviceMetadata = (metadata: DeviceMetadata): string =>
+  [
+    metadata.model,
+    metadata.firmwareRevision && `firmware ${metadata.firmwareRevision}`,
+    `battery ${formatBatteryLevel(metadata.batteryLevel)}`
+  ].filter(Boolean).join(', ');
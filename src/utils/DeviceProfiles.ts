@@ -0,0 +1,169 @@
+import { STORE_DEVICE_PROFILES, withStore } from './LocalDatabase';
+import { DecoderSelection } from './FrameDecoderRegistry';
+
+// GATT layout of one insole vendor: where the pressure stream lives, where
+// commands are written, how the devices advertise and how their frames decode
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  description: string;
+  serviceUuid: string;
+  dataCharacteristicUuid: string; // notifications with pressure frames
+  commandCharacteristicUuid: string | null; // null = commands go to the data characteristic
+  namePrefixes: string[]; // advertised name filters for the device chooser
+  decoderSelection: DecoderSelection;
+  acknowledgedCommands: boolean; // firmware answers "VERB #id" with ACK/NAK; false = bare START/STOP only
+}
+
+export const DEFAULT_DEVICE_PROFILE: DeviceProfile = {
+  id: 'esp32-reference',
+  name: 'ESP32 reference firmware',
+  description: 'Single read/write/notify characteristic, PRESSURE_LEFT/RIGHT text frames',
+  serviceUuid: '12345678-1234-1234-1234-1234567890ab',
+  dataCharacteristicUuid: 'abcd1234-5678-90ab-cdef-1234567890ab',
+  commandCharacteristicUuid: null,
+  namePrefixes: ['ESP32', 'FootPressure', 'Foot'],
+  decoderSelection: 'auto',
+  acknowledgedCommands: false
+};
+
+export const BUILT_IN_DEVICE_PROFILES: DeviceProfile[] = [
+  DEFAULT_DEVICE_PROFILE,
+  {
+    id: 'nordic-uart',
+    name: 'Nordic UART Service',
+    description: 'Frames on the TX characteristic, commands written to RX',
+    serviceUuid: '6e400001-b5a3-f393-e0a9-e50e24dcca9e',
+    dataCharacteristicUuid: '6e400003-b5a3-f393-e0a9-e50e24dcca9e',
+    commandCharacteristicUuid: '6e400002-b5a3-f393-e0a9-e50e24dcca9e',
+    namePrefixes: [],
+    decoderSelection: 'auto',
+    acknowledgedCommands: false
+  }
+];
+
+export const isBuiltInProfile = (profileId: string): boolean =>
+  BUILT_IN_DEVICE_PROFILES.some(profile => profile.id === profileId);
+
+// The chosen profile applies to every insole, so it is remembered per browser
+const ACTIVE_PROFILE_KEY = 'foot-pressure-device-profile';
+
+export const getActiveProfileId = (): string => localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_DEVICE_PROFILE.id;
+
+export const setActiveProfileId = (profileId: string): void => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+};
+
+const FULL_UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const SHORT_UUID_PATTERN = /^(?:0x)?([0-9a-f]{4})$/;
+
+// Lower-case 128-bit form; 16-bit SIG UUIDs ("180F", "0x180f") are expanded
+export const normalizeUuid = (value: string): string | null => {
+  const uuid = value.trim().toLowerCase();
+  if (FULL_UUID_PATTERN.test(uuid)) return uuid;
+  const short = uuid.match(SHORT_UUID_PATTERN);
+  return short ? `0000${short[1]}-0000-1000-8000-00805f9b34fb` : null;
+};
+
+// Checks one imported profile and returns it normalized; throws with the field at fault
+export const validateDeviceProfile = (input: unknown): DeviceProfile => {
+  const profile = input as Partial<DeviceProfile> | null;
+  if (!profile || typeof profile !== 'object') {
+    throw new Error('Profile must be a JSON object');
+  }
+  if (typeof profile.id !== 'string' || !/^[a-z0-9-]+$/.test(profile.id)) {
+    throw new Error('Profile "id" must use lower-case letters, digits and dashes');
+  }
+  const label = `Profile "${profile.id}"`;
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    throw new Error(`${label} needs a "name"`);
+  }
+
+  const readUuid = (field: 'serviceUuid' | 'dataCharacteristicUuid' | 'commandCharacteristicUuid'): string => {
+    const uuid = typeof profile[field] === 'string' ? normalizeUuid(profile[field] as string) : null;
+    if (!uuid) throw new Error(`${label}: "${field}" is not a valid UUID`);
+    return uuid;
+  };
+
+  if (profile.namePrefixes !== undefined &&
+    (!Array.isArray(profile.namePrefixes) || profile.namePrefixes.some(prefix => typeof prefix !== 'string'))) {
+    throw new Error(`${label}: "namePrefixes" must be a list of strings`);
+  }
+
+  return {
+    id: profile.id,
+    name: profile.name.trim(),
+    description: typeof profile.description === 'string' ? profile.description : '',
+    serviceUuid: readUuid('serviceUuid'),
+    dataCharacteristicUuid: readUuid('dataCharacteristicUuid'),
+    commandCharacteristicUuid: profile.commandCharacteristicUuid == null ? null : readUuid('commandCharacteristicUuid'),
+    namePrefixes: (profile.namePrefixes || []).map(prefix => prefix.trim()).filter(Boolean),
+    decoderSelection: typeof profile.decoderSelection === 'string' && profile.decoderSelection ? profile.decoderSelection : 'auto',
+    acknowledgedCommands: profile.acknowledgedCommands === true
+  };
+};
+
+interface DeviceProfileFile {
+  format: 'foot-pressure-device-profiles';
+  version: 1;
+  profiles: DeviceProfile[];
+}
+
+// Accepts an exported file or a bare profile object
+export const parseDeviceProfiles = (text: string): DeviceProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Profile file is not valid JSON');
+  }
+
+  const file = data as Partial<DeviceProfileFile>;
+  if (file?.format === 'foot-pressure-device-profiles') {
+    if (file.version !== 1) throw new Error(`Unsupported profile file version ${file.version}`);
+    if (!Array.isArray(file.profiles) || file.profiles.length === 0) throw new Error('Profile file contains no profiles');
+    return file.profiles.map(validateDeviceProfile);
+  }
+  return [validateDeviceProfile(data)];
+};
+
+export const downloadDeviceProfiles = (profiles: DeviceProfile[]): void => {
+  const file: DeviceProfileFile = { format: 'foot-pressure-device-profiles', version: 1, profiles };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = profiles.length === 1 ? `device_profile_${profiles[0].id}.json` : 'device_profiles.json';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Imported profiles; the built-in ones are never stored
+class DeviceProfileStore {
+  // Built-in profiles first, then custom ones by name
+  async list(): Promise<DeviceProfile[]> {
+    const custom = await withStore<DeviceProfile[]>(STORE_DEVICE_PROFILES, 'readonly', store => store.getAll());
+    return [...BUILT_IN_DEVICE_PROFILES, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+  }
+
+  async get(profileId: string): Promise<DeviceProfile | null> {
+    const builtIn = BUILT_IN_DEVICE_PROFILES.find(profile => profile.id === profileId);
+    if (builtIn) return builtIn;
+    const profile = await withStore<DeviceProfile | undefined>(STORE_DEVICE_PROFILES, 'readonly', store => store.get(profileId));
+    return profile || null;
+  }
+
+  async save(profile: DeviceProfile): Promise<DeviceProfile> {
+    if (isBuiltInProfile(profile.id)) {
+      throw new Error(`"${profile.id}" is a built-in profile - import it under a different id`);
+    }
+    await withStore(STORE_DEVICE_PROFILES, 'readwrite', store => store.put(profile));
+    return profile;
+  }
+
+  async delete(profileId: string): Promise<void> {
+    await withStore(STORE_DEVICE_PROFILES, 'readwrite', store => store.delete(profileId));
+  }
+}
+
+export default DeviceProfileStore;
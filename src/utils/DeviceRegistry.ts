@@ -0,0 +1,80 @@
+import { STORE_DEVICES, withStore } from './LocalDatabase';
+import { SoleSide } from './FrameDecoderRegistry';
+
+// An insole that has been connected before, keyed by its BLE device ID
+export interface RegisteredDevice {
+  deviceId: string;
+  bluetoothName: string; // as advertised
+  friendlyName: string; // given by the user, '' when not set
+  side: SoleSide | null; // the foot this insole is for
+  firstConnectedAt: string;
+  lastConnectedAt: string;
+}
+
+export const getDeviceDisplayName = (device: Pick<RegisteredDevice, 'friendlyName' | 'bluetoothName'>): string =>
+  device.friendlyName || device.bluetoothName || 'Unknown Device';
+
+export const getSideLabel = (side: SoleSide | null): string =>
+  side === 'left' ? 'Left' : side === 'right' ? 'Right' : 'Unassigned';
+
+// Devices this origin already has permission for, so they can be reconnected
+// without the chooser. Empty where the browser lacks getDevices().
+export const getPermittedDevices = async (): Promise<BluetoothDevice[]> => {
+  if (!navigator.bluetooth?.getDevices) return [];
+  try {
+    return await navigator.bluetooth.getDevices();
+  } catch (error) {
+    console.warn('Could not list permitted Bluetooth devices:', error);
+    return [];
+  }
+};
+
+// Warning text when an insole bound to one foot is used for the other, otherwise null
+export const checkSideBinding = (device: RegisteredDevice | null, side: SoleSide): string | null =>
+  device?.side && device.side !== side
+    ? `${getDeviceDisplayName(device)} is registered as the ${device.side} insole but is connected on the ${side} side`
+    : null;
+
+class DeviceRegistry {
+  async get(deviceId: string): Promise<RegisteredDevice | null> {
+    const device = await withStore<RegisteredDevice | undefined>(STORE_DEVICES, 'readonly', store => store.get(deviceId));
+    return device || null;
+  }
+
+  // Most recently connected first
+  async list(): Promise<RegisteredDevice[]> {
+    const devices = await withStore<RegisteredDevice[]>(STORE_DEVICES, 'readonly', store => store.getAll());
+    return devices.sort((a, b) => b.lastConnectedAt.localeCompare(a.lastConnectedAt));
+  }
+
+  async save(device: RegisteredDevice): Promise<RegisteredDevice> {
+    await withStore(STORE_DEVICES, 'readwrite', store => store.put(device));
+    return device;
+  }
+
+  // Adds a first-time insole or refreshes a known one; an unbound insole is
+  // bound to the side it was first connected on
+  async rememberConnection(deviceId: string, bluetoothName: string, side: SoleSide | null): Promise<RegisteredDevice> {
+    const now = new Date().toISOString();
+    const existing = await this.get(deviceId);
+    return this.save(existing
+      ? { ...existing, bluetoothName, side: existing.side ?? side, lastConnectedAt: now }
+      : { deviceId, bluetoothName, friendlyName: '', side, firstConnectedAt: now, lastConnectedAt: now });
+  }
+
+  async rename(deviceId: string, friendlyName: string): Promise<RegisteredDevice | null> {
+    const device = await this.get(deviceId);
+    return device ? this.save({ ...device, friendlyName: friendlyName.trim() }) : null;
+  }
+
+  async setSide(deviceId: string, side: SoleSide | null): Promise<RegisteredDevice | null> {
+    const device = await this.get(deviceId);
+    return device ? this.save({ ...device, side }) : null;
+  }
+
+  async delete(deviceId: string): Promise<void> {
+    await withStore(STORE_DEVICES, 'readwrite', store => store.delete(deviceId));
+  }
+}
+
+export default DeviceRegistry;
@@ -0,0 +1,19 @@
+import { FramePayload } from './FrameDecoderRegistry';
+import { SensorLayout } from './SensorLayouts';
+
+export type TransportKind = 'bluetooth' | 'serial' | 'gateway' | 'simulator' | 'replay';
+
+// A link to an insole that BLEManager drives instead of a GATT connection - a USB
+// serial port, a WebSocket gateway or a stand-in such as the simulator. Payloads it produces go through
+// the same decoders as BLE notifications, and it carries commands (see DeviceCommands)
+// the same way, answered with ACK/NAK on onPayload.
+export interface DeviceTransport {
+  readonly kind: Exclude<TransportKind, 'bluetooth'>;
+  onPayload: ((payload: FramePayload) => void) | null;
+  onDisconnect: (() => void) | null; // link lost without disconnect() being called
+  connect(): Promise<void>;
+  disconnect(): void;
+  isConnected(): boolean;
+  write(bytes: Uint8Array): Promise<void>;
+  setSensorLayout(sensorLayout: SensorLayout): void;
+}
@@ -1,58 +1,392 @@
 import * as XLSX from 'xlsx';
 import html2canvas from 'html2canvas';
 import JSZip from 'jszip';
-
-interface PressureData {
-  timestamp: string;
-  values: number[];
-}
+import { getChannelLabels, getSensorLayout } from './SensorLayouts';
+import { computeSwayMetrics } from './CenterOfPressure';
+import { SessionRecord } from './SessionStore';
+import { Patient, calculateAge } from './PatientStore';
+import { getPressureUnitLabel } from './Calibration';
+import { describeDataGaps, formatDataGap, getGapReasonLabel } from './DataGaps';
+import { assessLinkQuality } from './LinkQuality';
+import { getDeviceMetadataRows } from './DeviceInformation';
+import { computeSessionMetrics } from './ClinicalMetrics';
+import { SymmetryEntry, compareSessions } from './Symmetry';
+import { TriggeredAlert, formatAlert, getSeverityLabel } from './AlertRules';
+import { getSampleTimeline, getTimeAxisLabel } from './PressureTimeline';
 
 class ExportManager {
-  async exportToExcel(
-    pressureData: PressureData[], 
-    averagePressures: number[], 
-    doctorNotes: string,
-    soleType: 'left' | 'right'
-  ): Promise<void> {
-    try {
-      const workbook = XLSX.utils.book_new();
-      
-      // Raw data sheet
-      const rawDataRows = [
-        ['Timestamp', 'P1', 'P2', 'P3', 'P4', 'P5', 'P6', 'P7', 'P8'],
-        ...pressureData.map(data => [data.timestamp, ...data.values])
-      ];
-      
-      const rawDataSheet = XLSX.utils.aoa_to_sheet(rawDataRows);
-      XLSX.utils.book_append_sheet(workbook, rawDataSheet, 'Raw Data');
-      
-      // Summary sheet
-      const summaryRows = [
-        ['Foot Pressure Analysis Summary'],
-        [''],
-        ['Sole Type:', soleType.toUpperCase()],
-        ['Test Date:', new Date().toLocaleDateString()],
-        ['Test Time:', new Date().toLocaleTimeString()],
-        ['Duration:', '20 seconds'],
-        [''],
-        ['Pressure Point Averages (kPa):'],
-        ['Point', 'Average Pressure'],
-        ...averagePressures.map((pressure, index) => [`P${index + 1}`, pressure]),
-        [''],
-        ['Overall Statistics:'],
-        ['Total Average:', Math.round(averagePressures.reduce((sum, val) => sum + val, 0) / averagePressures.length)],
-        ['Maximum Pressure:', Math.max(...averagePressures)],
-        ['Minimum Pressure:', Math.min(...averagePressures)],
-        [''],
-        ['Doctor Notes:'],
-        [doctorNotes || 'No notes provided']
+  private getPatientRows(patient: Patient | null, testDate: Date): (string | number)[][] {
+    if (!patient) {
+      return [['Patient:', 'Not assigned']];
+    }
+
+    const age = calculateAge(patient.dateOfBirth, testDate);
+    return [
+      ['Patient ID:', patient.patientCode || '—'],
+      ['Patient Name:', patient.name],
+      ['Date of Birth:', patient.dateOfBirth ? `${patient.dateOfBirth}${age !== null ? ` (age ${age})` : ''}` : '—'],
+      ['Weight (kg):', patient.weightKg ?? '—'],
+      ['Shoe Size:', patient.shoeSize || '—'],
+      ['Diagnosis:', patient.diagnosisTags.length > 0 ? patient.diagnosisTags.join(', ') : '—']
+    ];
+  }
+
+  private getCalibrationRows(session: SessionRecord): string[][] {
+    if (session.pressureUnit === 'raw' || !session.calibration) {
+      return [
+        ['Pressure Units:', 'RAW ADC COUNTS (uncalibrated - not kPa)'],
+        ['Calibration:', 'None']
       ];
-      
-      const summarySheet = XLSX.utils.aoa_to_sheet(summaryRows);
-      XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+    }
+
+    const { model, calibratedAt, deviceId } = session.calibration;
+    return [
+      ['Pressure Units:', 'kPa (calibrated)'],
+      ['Calibration:', `${model === 'linear' ? 'Linear' : 'Polynomial'} fit, ${new Date(calibratedAt).toLocaleString()} (device ${deviceId})`]
+    ];
+  }
+
+  private getProtocolRows(session: SessionRecord): (string | number)[][] {
+    const { protocol, elapsedSec, recordedSec, stoppedEarly } = session;
+    return [
+      ['Protocol:', `${protocol.name} (${protocol.description})`],
+      ['Duration:', elapsedSec !== null
+        ? `${elapsedSec} seconds${stoppedEarly ? ` (stopped early, planned ${protocol.plannedSec} s)` : ''}`
+        : 'Not recorded'],
+      ['Averaged Time:', recordedSec !== null ? `${recordedSec} seconds` : 'Not recorded']
+    ];
+  }
+
+  // Gaps are listed so readers know the averages cover incomplete data
+  private getGapRows(session: SessionRecord): string[][] {
+    return [
+      ['Data Gaps:', describeDataGaps(session.gaps, session.recordedSec)],
+      ...session.gaps.map(gap => ['', formatDataGap(gap)])
+    ];
+  }
+
+  private getDeviceRows(session: SessionRecord): string[][] {
+    if (!session.device) {
+      return [['Device:', 'Not recorded']];
+    }
+
+    return [
+      ['Device:', `${session.device.name} (${session.device.id})`],
+      ...getDeviceMetadataRows(session.device).map(([label, value]) => [`${label}:`, value])
+    ];
+  }
+
+  private getLinkQualityRows(session: SessionRecord): (string | number)[][] {
+    const stats = session.linkQuality;
+    if (!stats) {
+      return [['Link Quality:', 'Not recorded'], ['']];
+    }
+
+    const problems = assessLinkQuality(stats);
+    return [
+      ['Link Quality:'],
+      ['Frames Received:', stats.frameCount],
+      ['Effective Rate (Hz):', stats.effectiveRateHz],
+      ['Lost Frames:', stats.lostFrames ?? 'Unknown (no sequence numbers)'],
+      ['Loss (%):', stats.lossPercent ?? 'Unknown (no sequence numbers)'],
+      ['Duplicate Frames:', stats.duplicateCount],
+      ['Out-of-Order Frames:', stats.outOfOrderCount],
+      ['Jitter (ms):', stats.jitterMs],
+      ['Device Timestamps:', stats.deviceTimestampSupported ? 'Yes' : 'No'],
+      ['Assessment:', problems.length > 0 ? `POOR - ${problems.join(', ')}` : 'OK'],
+      ['']
+    ];
+  }
+
+  // Raw samples with a marker row wherever the stream had a gap
+  private getRawDataRows(session: SessionRecord): (string | number)[][] {
+    const rows: (string | number)[][] = [];
+    const pushGaps = (matches: (beforeSample: number) => boolean) => session.gaps
+      .filter(gap => matches(gap.beforeSample))
+      .forEach(gap => rows.push([`GAP ${gap.durationSec} s (${getGapReasonLabel(gap.reason)})`, gap.startSec, '', '', gap.trial, 'gap']));
+
+    session.pressureData.forEach((data, index) => {
+      pushGaps(beforeSample => beforeSample === index);
+      rows.push([
+        data.timestamp,
+        data.elapsedMs !== null ? data.elapsedMs / 1000 : '',
+        data.sequence ?? '',
+        data.deviceTimestamp ?? '',
+        data.trial,
+        data.phase,
+        ...data.values
+      ]);
+    });
+    pushGaps(beforeSample => beforeSample >= session.pressureData.length);
+    return rows;
+  }
+
+  // Data series behind the pressure-over-time chart: summed and highest sensor pressure per sample
+  private getTimelineRows(session: SessionRecord): (string | number)[][] {
+    const unit = getPressureUnitLabel(session.pressureUnit);
+    const { timesSec, timeBase } = getSampleTimeline(session.pressureData, session.elapsedSec);
+    return [
+      [getTimeAxisLabel(timeBase), 'Trial', 'Phase', `Total Load (${unit})`, `Peak (${unit})`],
+      ...session.pressureData.map((data, index) => [
+        Math.round(timesSec[index] * 1000) / 1000,
+        data.trial,
+        data.phase,
+        data.values.reduce((sum, value) => sum + value, 0),
+        Math.max(0, ...data.values)
+      ])
+    ];
+  }
+
+  // Per-trial means, only for multi-trial protocols
+  private getTrialRows(session: SessionRecord): (string | number)[][] {
+    const rows: (string | number)[][] = [];
+    const trials = Array.from(new Set(session.pressureData.map(data => data.trial))).sort((a, b) => a - b);
+    if (trials.length > 1) {
+      rows.push(['Trial Averages:'], ['Trial', 'Samples', 'Mean Pressure']);
+      trials.forEach(trial => {
+        const samples = session.pressureData.filter(data => data.trial === trial && data.phase === 'recording');
+        const total = samples.reduce((sum, data) => sum + data.values.reduce((a, b) => a + b, 0) / data.values.length, 0);
+        rows.push([trial, samples.length, samples.length > 0 ? Math.round(total / samples.length) : '—']);
+      });
+      rows.push(['']);
+    }
+    return rows;
+  }
+
+  private getClinicalMetricsRows(session: SessionRecord): (string | number)[][] {
+    const metrics = computeSessionMetrics(session);
+    const unit = getPressureUnitLabel(session.pressureUnit);
+    const orBlank = (value: number | null) => value ?? '—';
+
+    return [
+      ['Clinical Metrics'],
+      [''],
+      ['Samples:', metrics.sampleCount],
+      ['Integrated Time (s):', metrics.durationSec ?? 'Not recorded'],
+      ['Peak Pressure:', metrics.peakPressure ? `${metrics.peakPressure.channel} - ${metrics.peakPressure.value} ${unit}` : '—'],
+      ['Forefoot / Rearfoot Ratio:', orBlank(metrics.forefootRearfootRatio)],
+      [''],
+      ['Regional Loading:'],
+      ['Region', 'Load (%)', `Mean (${unit})`, `Peak (${unit})`, 'Sensors'],
+      ...metrics.regions.map(region => [
+        region.label,
+        orBlank(region.loadPercent),
+        orBlank(region.mean),
+        orBlank(region.peak),
+        region.channels.join(', ')
+      ]),
+      [''],
+      ['Per-Sensor Statistics:'],
+      ['Point', `Mean (${unit})`, `Peak (${unit})`, `PTI (${unit}·s)`, `SD (${unit})`, 'CV (%)'],
+      ...metrics.sensors.map(sensor => [
+        sensor.channel,
+        sensor.mean,
+        sensor.peak,
+        orBlank(sensor.pti),
+        sensor.sd,
+        orBlank(sensor.cv)
+      ]),
+      [''],
+      ['PTI = pressure-time integral over the recorded time, gaps excluded. Regional load = share of the summed pressure of all sensors.']
+    ];
+  }
+
+  private getAlertRows(alerts: TriggeredAlert[]): string[][] {
+    return [
+      ['Clinical Alerts:', alerts.length > 0 ? `${alerts.length} triggered` : 'None'],
+      ...alerts.map(alert => [`${getSeverityLabel(alert.severity).toUpperCase()}:`, formatAlert(alert)])
+    ];
+  }
+
+  private getAlertLines(alerts: TriggeredAlert[]): string[] {
+    return alerts.length > 0
+      ? alerts.map(alert => `[${getSeverityLabel(alert.severity).toUpperCase()}] ${formatAlert(alert)}`)
+      : ['No alert rule was triggered'];
+  }
+
+  // Symmetry index per row, flagged when it exceeds the threshold
+  private getSymmetryRows(entries: SymmetryEntry[], unit: string): (string | number)[][] {
+    return [
+      ['', `Left (${unit})`, `Right (${unit})`, 'SI (%)', 'Asymmetric'],
+      ...entries.map(entry => [
+        entry.label,
+        entry.left ?? '—',
+        entry.right ?? '—',
+        entry.symmetryIndex ?? '—',
+        entry.asymmetric ? 'YES' : ''
+      ])
+    ];
+  }
+
+  private getComparisonRows(
+    left: SessionRecord,
+    right: SessionRecord,
+    thresholdPercent: number,
+    alerts: TriggeredAlert[]
+  ): (string | number)[][] {
+    const comparison = compareSessions(left, right, thresholdPercent);
+    const unit = getPressureUnitLabel(left.pressureUnit);
+    const sessionLabel = (session: SessionRecord) =>
+      `${new Date(session.createdAt).toLocaleString()} - ${session.protocol.name}${session.device ? ` (${session.device.name})` : ''}`;
+
+    return [
+      ['Bilateral Symmetry Report'],
+      [''],
+      ...this.getPatientRows(left.patient, new Date(left.createdAt)),
+      [''],
+      ['Left Session:', sessionLabel(left)],
+      ['Right Session:', sessionLabel(right)],
+      ['Sensor Layout:', getSensorLayout(left.sensorLayoutId).name],
+      ['Pressure Units:', comparison.unitsMatch
+        ? unit
+        : `MIXED (left ${getPressureUnitLabel(left.pressureUnit)}, right ${getPressureUnitLabel(right.pressureUnit)}) - indices are not comparable`],
+      ['Asymmetry Threshold (|SI| %):', thresholdPercent],
+      [''],
+      ['Load Distribution:'],
+      ['Left (%):', comparison.leftLoadShare ?? '—'],
+      ['Right (%):', comparison.leftLoadShare !== null ? Math.round((100 - comparison.leftLoadShare) * 10) / 10 : '—'],
+      ['Load SI (%):', comparison.loadSymmetryIndex ?? '—'],
+      ['Asymmetric Sensors/Regions:', comparison.asymmetricCount],
+      [''],
+      ...this.getAlertRows(alerts),
+      [''],
+      ['Regional Mean Pressure:'],
+      ...this.getSymmetryRows(comparison.regions, unit),
+      [''],
+      ['Per-Sensor Mean Pressure:'],
+      ...this.getSymmetryRows(comparison.sensors, unit),
+      [''],
+      ['SI = (L - R) / ((L + R) / 2) x 100; positive values mean the left foot carries more.']
+    ];
+  }
+
+  private getSummaryRows(session: SessionRecord): (string | number)[][] {
+    const { averagePressures, doctorNotes, soleType, copTrajectory } = session;
+    const sensorLayout = getSensorLayout(session.sensorLayoutId);
+    const testDate = new Date(session.createdAt);
+    const channelLabels = getChannelLabels(sensorLayout);
+    const sway = computeSwayMetrics(copTrajectory);
+    const unit = getPressureUnitLabel(session.pressureUnit);
+
+    return [
+      ['Foot Pressure Analysis Summary'],
+      [''],
+      ...this.getPatientRows(session.patient, testDate),
+      [''],
+      ['Sole Type:', soleType.toUpperCase()],
+      ['Sensor Layout:', `${sensorLayout.name} (${sensorLayout.channelCount} channels)`],
+      ...this.getDeviceRows(session),
+      ['Test Date:', testDate.toLocaleDateString()],
+      ['Test Time:', testDate.toLocaleTimeString()],
+      ...this.getProtocolRows(session),
+      ...this.getGapRows(session),
+      ...this.getCalibrationRows(session),
+      [''],
+      ...this.getAlertRows(session.alerts),
+      [''],
+      [`Pressure Point Averages (${unit}):`],
+      ['Point', 'Average Pressure'],
+      ...averagePressures.map((pressure, index) => [channelLabels[index], pressure]),
+      [''],
+      ['Overall Statistics:'],
+      ['Total Average:', Math.round(averagePressures.reduce((sum, val) => sum + val, 0) / averagePressures.length)],
+      ['Maximum Pressure:', Math.max(...averagePressures)],
+      ['Minimum Pressure:', Math.min(...averagePressures)],
+      [''],
+      ...this.getTrialRows(session),
+      ...this.getLinkQualityRows(session),
+      ['Center of Pressure Sway (%FL = percent of foot length):'],
+      ['COP Samples:', sway.sampleCount],
+      ['Path Length (%FL):', sway.pathLength],
+      ['95% Ellipse Area (%FL²):', sway.ellipseArea95],
+      ['Mean Velocity (%FL/s):', sway.meanVelocity],
+      ['AP Range (%FL):', sway.apRange],
+      ['ML Range (%FL):', sway.mlRange],
+      [''],
+      ['Doctor Notes:'],
+      [doctorNotes || 'No notes provided']
+    ];
+  }
+
+  private buildWorkbook(session: SessionRecord): XLSX.WorkBook {
+    const { copTrajectory } = session;
+    const workbook = XLSX.utils.book_new();
+    const channelLabels = getChannelLabels(getSensorLayout(session.sensorLayoutId));
+    const unit = getPressureUnitLabel(session.pressureUnit);
+    
+    // Raw data sheet
+    const rawDataRows = [
+      ['Timestamp', 'Elapsed (s)', 'Sequence', 'Device Time (ms)', 'Trial', 'Phase', ...channelLabels.map(label => `${label} (${unit})`)],
+      ...this.getRawDataRows(session)
+    ];
+    
+    const rawDataSheet = XLSX.utils.aoa_to_sheet(rawDataRows);
+    XLSX.utils.book_append_sheet(workbook, rawDataSheet, 'Raw Data');
+    
+    // Summary sheet
+    const summarySheet = XLSX.utils.aoa_to_sheet(this.getSummaryRows(session));
+    XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+
+    const metricsSheet = XLSX.utils.aoa_to_sheet(this.getClinicalMetricsRows(session));
+    XLSX.utils.book_append_sheet(workbook, metricsSheet, 'Clinical Metrics');
+
+    const timelineSheet = XLSX.utils.aoa_to_sheet(this.getTimelineRows(session));
+    XLSX.utils.book_append_sheet(workbook, timelineSheet, 'Pressure Timeline');
+    
+    // COP trajectory sheet, time relative to the first sample
+    const copStart = copTrajectory.length > 0 ? copTrajectory[0].time : 0;
+    const copRows = [
+      ['Time (s)', 'COP X (normalized)', 'COP Y (normalized)'],
+      ...copTrajectory.map(sample => [
+        Math.round(sample.time - copStart) / 1000,
+        Math.round(sample.x * 10000) / 10000,
+        Math.round(sample.y * 10000) / 10000
+      ])
+    ];
+    
+    const copSheet = XLSX.utils.aoa_to_sheet(copRows);
+    XLSX.utils.book_append_sheet(workbook, copSheet, 'COP Trajectory');
+    
+    return workbook;
+  }
+
+  // Symmetry sheet followed by each side's summary and metrics
+  private buildComparisonWorkbook(
+    left: SessionRecord,
+    right: SessionRecord,
+    thresholdPercent: number,
+    alerts: TriggeredAlert[]
+  ): XLSX.WorkBook {
+    const workbook = XLSX.utils.book_new();
+    const comparisonRows = this.getComparisonRows(left, right, thresholdPercent, alerts);
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(comparisonRows), 'Symmetry');
+
+    [left, right].forEach(session => {
+      const sideLabel = session.soleType === 'left' ? 'Left' : 'Right';
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(this.getSummaryRows(session)), `${sideLabel} Summary`);
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(this.getClinicalMetricsRows(session)), `${sideLabel} Clinical Metrics`);
+    });
+
+    return workbook;
+  }
+
+  // Date part of the file names, taken from the measurement rather than the export
+  private getFileDate(session: SessionRecord): string {
+    return session.createdAt.split('T')[0];
+  }
+
+  // "_P-1042" so reports can be filed per patient; empty when no patient ID is set
+  private getPatientFileTag(session: SessionRecord): string {
+    const code = session.patient?.patientCode.replace(/[^A-Za-z0-9-]/g, '');
+    return code ? `_${code}` : '';
+  }
+
+  async exportToExcel(session: SessionRecord): Promise<void> {
+    try {
+      const workbook = this.buildWorkbook(session);
       
       // Export file
-      const fileName = `foot_pressure_${soleType}_${new Date().toISOString().split('T')[0]}.xlsx`;
+      const fileName = `foot_pressure${this.getPatientFileTag(session)}_${session.soleType}_${this.getFileDate(session)}.xlsx`;
       XLSX.writeFile(workbook, fileName);
       
     } catch (error) {
@@ -61,6 +395,74 @@ class ExportManager {
     }
   }
 
+  // `alerts` are the bilateral ones (asymmetry); each side's own alerts travel with its session
+  async exportComparisonToExcel(
+    left: SessionRecord,
+    right: SessionRecord,
+    thresholdPercent: number,
+    alerts: TriggeredAlert[]
+  ): Promise<void> {
+    try {
+      const workbook = this.buildComparisonWorkbook(left, right, thresholdPercent, alerts);
+      XLSX.writeFile(workbook, `foot_pressure${this.getPatientFileTag(left)}_bilateral_${this.getFileDate(left)}.xlsx`);
+    } catch (error) {
+      console.error('Error exporting bilateral report:', error);
+      throw error;
+    }
+  }
+
+  async exportComparisonAll(
+    left: SessionRecord,
+    right: SessionRecord,
+    thresholdPercent: number,
+    alerts: TriggeredAlert[],
+    heatmapContainerId: string
+  ): Promise<void> {
+    try {
+      const zip = new JSZip();
+
+      const workbook = this.buildComparisonWorkbook(left, right, thresholdPercent, alerts);
+      zip.file('foot_pressure_bilateral_data.xlsx', XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+
+      const element = document.getElementById(heatmapContainerId);
+      if (element) {
+        const canvas = await html2canvas(element, {
+          backgroundColor: '#1e1e1e',
+          scale: 2,
+          logging: false
+        });
+        zip.file('bilateral_heatmaps.png', canvas.toDataURL('image/png').split(',')[1], { base64: true });
+      }
+
+      zip.file('doctor_notes.txt', [
+        `Left sole:\n${left.doctorNotes || 'No notes provided'}`,
+        `Right sole:\n${right.doctorNotes || 'No notes provided'}`
+      ].join('\n\n'));
+
+      zip.file('alerts.txt', [
+        'Bilateral:', ...this.getAlertLines(alerts), '',
+        'Left sole:', ...this.getAlertLines(left.alerts), '',
+        'Right sole:', ...this.getAlertLines(right.alerts)
+      ].join('\n'));
+
+      // Same patient block as the single-foot package, taken from the left session like the report header
+      const patientLines = this.getPatientRows(left.patient, new Date(left.createdAt))
+        .map(row => row.join(' '));
+      zip.file('patient.txt', patientLines.join('\n'));
+
+      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(zipBlob);
+      link.download = `foot_pressure${this.getPatientFileTag(left)}_bilateral_complete_${this.getFileDate(left)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      console.error('Error creating bilateral export package:', error);
+      throw error;
+    }
+  }
+
   async exportHeatmapImage(containerId: string, fileName: string): Promise<void> {
     try {
       const element = document.getElementById(containerId);
@@ -88,51 +490,13 @@ class ExportManager {
     }
   }
 
-  async exportAll(
-    pressureData: PressureData[],
-    averagePressures: number[],
-    doctorNotes: string,
-    soleType: 'left' | 'right',
-    heatmapContainerId: string
-  ): Promise<void> {
+  async exportAll(session: SessionRecord, heatmapContainerId: string): Promise<void> {
+    const { soleType, doctorNotes } = session;
     try {
       const zip = new JSZip();
       
       // Add Excel file
-      const workbook = XLSX.utils.book_new();
-      
-      const rawDataRows = [
-        ['Timestamp', 'P1', 'P2', 'P3', 'P4', 'P5', 'P6', 'P7', 'P8'],
-        ...pressureData.map(data => [data.timestamp, ...data.values])
-      ];
-      
-      const rawDataSheet = XLSX.utils.aoa_to_sheet(rawDataRows);
-      XLSX.utils.book_append_sheet(workbook, rawDataSheet, 'Raw Data');
-      
-      const summaryRows = [
-        ['Foot Pressure Analysis Summary'],
-        [''],
-        ['Sole Type:', soleType.toUpperCase()],
-        ['Test Date:', new Date().toLocaleDateString()],
-        ['Test Time:', new Date().toLocaleTimeString()],
-        ['Duration:', '20 seconds'],
-        [''],
-        ['Pressure Point Averages (kPa):'],
-        ['Point', 'Average Pressure'],
-        ...averagePressures.map((pressure, index) => [`P${index + 1}`, pressure]),
-        [''],
-        ['Overall Statistics:'],
-        ['Total Average:', Math.round(averagePressures.reduce((sum, val) => sum + val, 0) / averagePressures.length)],
-        ['Maximum Pressure:', Math.max(...averagePressures)],
-        ['Minimum Pressure:', Math.min(...averagePressures)],
-        [''],
-        ['Doctor Notes:'],
-        [doctorNotes || 'No notes provided']
-      ];
-      
-      const summarySheet = XLSX.utils.aoa_to_sheet(summaryRows);
-      XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
-      
+      const workbook = this.buildWorkbook(session);
       const excelBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
       zip.file(`foot_pressure_${soleType}_data.xlsx`, excelBuffer);
       
@@ -147,16 +511,30 @@ class ExportManager {
         
         const imageData = canvas.toDataURL('image/png').split(',')[1];
         zip.file(`${soleType}_sole_heatmap.png`, imageData, { base64: true });
+
+        // Vector copy of the pressure-over-time chart for reports
+        const timelineChart = element.querySelector('svg[data-timeline-chart]');
+        if (timelineChart) {
+          zip.file(`${soleType}_pressure_timeline.svg`, new XMLSerializer().serializeToString(timelineChart));
+        }
       }
       
       // Add doctor notes
       zip.file('doctor_notes.txt', doctorNotes || 'No notes provided');
       
+      // Add clinical alerts
+      zip.file('alerts.txt', this.getAlertLines(session.alerts).join('\n'));
+      
+      // Add patient details
+      const patientLines = this.getPatientRows(session.patient, new Date(session.createdAt))
+        .map(row => row.join(' '));
+      zip.file('patient.txt', patientLines.join('\n'));
+      
       // Generate and download ZIP
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       const link = document.createElement('a');
       link.href = URL.createObjectURL(zipBlob);
-      link.download = `foot_pressure_${soleType}_complete_${new Date().toISOString().split('T')[0]}.zip`;
+      link.download = `foot_pressure${this.getPatientFileTag(session)}_${soleType}_complete_${this.getFileDate(session)}.zip`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -0,0 +1,270 @@
+export type SoleSide = 'left' | 'right';
+
+// Raw notification payload handed to every decoder
+export interface FramePayload {
+  bytes: Uint8Array;
+  text: string;
+}
+
+// Structured frame produced by a decoder
+export interface PressureFrame {
+  decoderId: string;
+  side: SoleSide | null; // null when the payload does not say which foot it is
+  values: number[];
+  deviceTimestamp: number | null; // device clock in ms, if the firmware sends one
+  sequence: number | null; // frame counter, if the firmware sends one
+}
+
+// Per-device settings a decoder needs to interpret a payload
+export interface DecodeContext {
+  channelCount: number;
+}
+
+export type DecodeResult =
+  | { ok: true; frame: PressureFrame }
+  | { ok: false; reason: string };
+
+export interface FrameDecoder {
+  id: string;
+  name: string;
+  description: string;
+  // Cheap check used by auto-detection before attempting a full decode
+  canDecode(payload: FramePayload, context: DecodeContext): boolean;
+  decode(payload: FramePayload, context: DecodeContext): DecodeResult;
+}
+
+// 'auto' tries every registered decoder in order, anything else pins one decoder
+export type DecoderSelection = 'auto' | string;
+
+const MAX_RAW_VALUE = 255;
+const MIN_CSV_VALUES = 4;
+// uint16 sequence + uint32 device timestamp, little-endian, after the sensor bytes
+const RAW_METADATA_BYTES = 6;
+
+type FrameMetadata = Pick<PressureFrame, 'sequence' | 'deviceTimestamp'>;
+
+// Only clamp to valid range, don't assume any value is "wrong"
+const toPressureValue = (raw: string): number => {
+  const num = parseInt(raw.trim(), 10);
+  return isNaN(num) ? 0 : Math.max(0, Math.min(MAX_RAW_VALUE, num));
+};
+
+const fitToChannels = (values: number[], channelCount: number): number[] => {
+  const fitted = values.slice(0, channelCount);
+  while (fitted.length < channelCount) {
+    fitted.push(0);
+  }
+  return fitted;
+};
+
+// Optional trailer on text frames: "...;SEQ=17;TS=123456" (frame counter, device clock in ms)
+const splitFrameMetadata = (text: string): { body: string } & FrameMetadata => {
+  const [body, ...fields] = text.trim().split(';');
+  const metadata: FrameMetadata = { sequence: null, deviceTimestamp: null };
+
+  fields.forEach(field => {
+    const [key, value] = field.split('=');
+    const num = parseInt(value ?? '', 10);
+    if (isNaN(num)) return;
+
+    const name = key.trim().toUpperCase();
+    if (name === 'SEQ') metadata.sequence = num;
+    else if (name === 'TS') metadata.deviceTimestamp = num;
+  });
+
+  return { body, ...metadata };
+};
+
+// Format: "PRESSURE_LEFT:50,100,150,200,250,255,128,64" or "PRESSURE_RIGHT:..."
+export const prefixedTextDecoder: FrameDecoder = {
+  id: 'prefixed-text',
+  name: 'Prefixed text',
+  description: 'PRESSURE_LEFT:v1,v2,... / PRESSURE_RIGHT:v1,v2,...',
+  canDecode: ({ text }) => /PRESSURE_(?:LEFT|RIGHT):/.test(text),
+  decode: ({ text }, { channelCount }) => {
+    const { body, sequence, deviceTimestamp } = splitFrameMetadata(text);
+    const match = body.match(/PRESSURE_(LEFT|RIGHT):(.+)/);
+    if (!match) {
+      return { ok: false, reason: 'missing PRESSURE_LEFT:/PRESSURE_RIGHT: prefix' };
+    }
+
+    const fields = match[2].trim().split(',');
+    return {
+      ok: true,
+      frame: {
+        decoderId: 'prefixed-text',
+        side: match[1] === 'LEFT' ? 'left' : 'right',
+        values: fitToChannels(fields.map(toPressureValue), channelCount),
+        deviceTimestamp,
+        sequence
+      }
+    };
+  }
+};
+
+// Format: "50,100,150,200,250,255,128,64" without a side prefix
+export const csvDecoder: FrameDecoder = {
+  id: 'csv',
+  name: 'Bare CSV',
+  description: 'v1,v2,... without a side prefix',
+  canDecode: ({ text }) => text.includes(','),
+  decode: ({ text }, { channelCount }) => {
+    const { body, sequence, deviceTimestamp } = splitFrameMetadata(text);
+    const fields = body.split(',');
+    const validCount = fields.filter(field => !isNaN(parseInt(field.trim(), 10))).length;
+    const minValues = Math.min(MIN_CSV_VALUES, channelCount);
+    if (validCount < minValues) {
+      return { ok: false, reason: `expected at least ${minValues} numeric CSV values, got ${validCount}` };
+    }
+
+    return {
+      ok: true,
+      frame: {
+        decoderId: 'csv',
+        side: null,
+        values: fitToChannels(fields.map(toPressureValue), channelCount),
+        deviceTimestamp,
+        sequence
+      }
+    };
+  }
+};
+
+// Format: uint8_t[N], one byte per sensor, optionally followed by uint16 sequence + uint32 timestamp (LE)
+export const rawBytesDecoder: FrameDecoder = {
+  id: 'raw-bytes',
+  name: 'Raw bytes',
+  description: 'uint8_t[N] [+ uint16 seq, uint32 ms]',
+  canDecode: ({ bytes }, { channelCount }) =>
+    bytes.byteLength === channelCount || bytes.byteLength === channelCount + RAW_METADATA_BYTES,
+  decode: ({ bytes }, { channelCount }) => {
+    if (bytes.byteLength !== channelCount && bytes.byteLength !== channelCount + RAW_METADATA_BYTES) {
+      return {
+        ok: false,
+        reason: `expected ${channelCount} or ${channelCount + RAW_METADATA_BYTES} bytes, got ${bytes.byteLength}`
+      };
+    }
+
+    const metadata = bytes.byteLength > channelCount
+      ? new DataView(bytes.buffer, bytes.byteOffset + channelCount, RAW_METADATA_BYTES)
+      : null;
+
+    return {
+      ok: true,
+      frame: {
+        decoderId: 'raw-bytes',
+        side: null,
+        values: Array.from(bytes.subarray(0, channelCount)),
+        deviceTimestamp: metadata ? metadata.getUint32(2, true) : null,
+        sequence: metadata ? metadata.getUint16(0, true) : null
+      }
+    };
+  }
+};
+
+class FrameDecoderRegistry {
+  private decoders: FrameDecoder[] = [];
+  // Decoder that last succeeded in auto mode, per device, tried first next time
+  private detectedDecoders = new Map<string, string>();
+
+  constructor(decoders: FrameDecoder[] = [prefixedTextDecoder, csvDecoder, rawBytesDecoder]) {
+    decoders.forEach(decoder => this.register(decoder));
+  }
+
+  register(decoder: FrameDecoder, position?: number): void {
+    this.unregister(decoder.id);
+    if (position === undefined) {
+      this.decoders.push(decoder);
+    } else {
+      this.decoders.splice(position, 0, decoder);
+    }
+  }
+
+  unregister(decoderId: string): void {
+    this.decoders = this.decoders.filter(decoder => decoder.id !== decoderId);
+    this.detectedDecoders.forEach((id, deviceId) => {
+      if (id === decoderId) this.detectedDecoders.delete(deviceId);
+    });
+  }
+
+  // Reorder auto-detection; decoders missing from the list keep their relative order at the end
+  setOrder(decoderIds: string[]): void {
+    const ordered = decoderIds
+      .map(id => this.get(id))
+      .filter((decoder): decoder is FrameDecoder => decoder !== undefined);
+    const rest = this.decoders.filter(decoder => !decoderIds.includes(decoder.id));
+    this.decoders = [...ordered, ...rest];
+  }
+
+  get(decoderId: string): FrameDecoder | undefined {
+    return this.decoders.find(decoder => decoder.id === decoderId);
+  }
+
+  list(): FrameDecoder[] {
+    return [...this.decoders];
+  }
+
+  getDetectedDecoder(deviceId: string): FrameDecoder | undefined {
+    const decoderId = this.detectedDecoders.get(deviceId);
+    return decoderId ? this.get(decoderId) : undefined;
+  }
+
+  resetDetection(deviceId?: string): void {
+    if (deviceId) {
+      this.detectedDecoders.delete(deviceId);
+    } else {
+      this.detectedDecoders.clear();
+    }
+  }
+
+  decode(
+    payload: FramePayload,
+    context: DecodeContext,
+    selection: DecoderSelection = 'auto',
+    deviceId = 'default'
+  ): DecodeResult {
+    if (selection !== 'auto') {
+      const decoder = this.get(selection);
+      if (!decoder) {
+        return { ok: false, reason: `decoder "${selection}" is not registered` };
+      }
+      return this.runDecoder(decoder, payload, context);
+    }
+
+    const detected = this.getDetectedDecoder(deviceId);
+    const candidates = detected
+      ? [detected, ...this.decoders.filter(decoder => decoder !== detected)]
+      : this.decoders;
+
+    const reasons: string[] = [];
+    for (const decoder of candidates) {
+      if (!decoder.canDecode(payload, context)) {
+        reasons.push(`${decoder.name}: format not recognised`);
+        continue;
+      }
+
+      const result = this.runDecoder(decoder, payload, context);
+      if (result.ok) {
+        this.detectedDecoders.set(deviceId, decoder.id);
+        return result;
+      }
+      reasons.push(result.reason);
+    }
+
+    return {
+      ok: false,
+      reason: reasons.length > 0 ? reasons.join('; ') : 'no decoders registered'
+    };
+  }
+
+  private runDecoder(decoder: FrameDecoder, payload: FramePayload, context: DecodeContext): DecodeResult {
+    try {
+      const result = decoder.decode(payload, context);
+      return result.ok ? result : { ok: false, reason: `${decoder.name}: ${result.reason}` };
+    } catch (error) {
+      return { ok: false, reason: `${decoder.name} threw: ${error}` };
+    }
+  }
+}
+
+export default FrameDecoderRegistry;
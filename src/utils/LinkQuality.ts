@@ -0,0 +1,209 @@
+import { PressureFrame } from './FrameDecoderRegistry';
+
+// Statistics over every frame seen since the last reset. Loss, duplicate and
+// ordering figures need firmware sequence numbers; jitter uses device timestamps
+// when present and falls back to the spread of arrival intervals.
+export interface LinkQualityStats {
+  frameCount: number;
+  durationSec: number;
+  effectiveRateHz: number;
+  sequenceSupported: boolean;
+  deviceTimestampSupported: boolean;
+  expectedFrames: number | null; // null without sequence numbers
+  lostFrames: number | null;
+  lossPercent: number | null;
+  duplicateCount: number;
+  outOfOrderCount: number;
+  jitterMs: number;
+}
+
+export type FrameArrival = 'ok' | 'duplicate' | 'out-of-order';
+
+export const LINK_QUALITY_LIMITS = {
+  maxLossPercent: 5,
+  maxJitterMs: 100,
+  maxReorderPercent: 2
+};
+
+// Counters wider than 16 bits are fine, but the common uint16 counter wraps
+const SEQUENCE_MODULUS = 65536;
+
+const round = (value: number, digits = 1): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+class LinkQualityMonitor {
+  private frameCount = 0;
+  private firstArrival: number | null = null;
+  private lastArrival: number | null = null;
+  private intervalStart: number | null = null; // cleared at discontinuities so reconnect pauses don't count as jitter
+  private lastInterval: number | null = null;
+  private lastTransit: number | null = null;
+  private jitter = 0;
+  private duplicateCount = 0;
+  private outOfOrderCount = 0;
+  private sequenceFrames = 0;
+  private timestampFrames = 0;
+  // Sequence numbers are unwrapped and tracked per segment; a reconnect starts a new one
+  private seenSequences = new Set<number>();
+  private segmentFirst: number | null = null;
+  private segmentHighest: number | null = null;
+  private lastRawSequence: number | null = null;
+  private wrapOffset = 0;
+  private expectedBefore = 0;
+  private receivedBefore = 0;
+
+  reset(): void {
+    this.frameCount = 0;
+    this.firstArrival = null;
+    this.lastArrival = null;
+    this.intervalStart = null;
+    this.lastInterval = null;
+    this.lastTransit = null;
+    this.jitter = 0;
+    this.duplicateCount = 0;
+    this.outOfOrderCount = 0;
+    this.sequenceFrames = 0;
+    this.timestampFrames = 0;
+    this.expectedBefore = 0;
+    this.receivedBefore = 0;
+    this.markDiscontinuity();
+  }
+
+  // The firmware may restart its counter after a reconnect; don't count that as loss
+  markDiscontinuity(): void {
+    if (this.segmentFirst !== null && this.segmentHighest !== null) {
+      this.expectedBefore += this.segmentHighest - this.segmentFirst + 1;
+      this.receivedBefore += this.seenSequences.size;
+    }
+    this.seenSequences.clear();
+    this.segmentFirst = null;
+    this.segmentHighest = null;
+    this.lastRawSequence = null;
+    this.wrapOffset = 0;
+    this.lastTransit = null;
+    this.intervalStart = null;
+    this.lastInterval = null;
+  }
+
+  record(frame: Pick<PressureFrame, 'sequence' | 'deviceTimestamp'>, receivedAt: number): FrameArrival {
+    const arrival = frame.sequence !== null ? this.recordSequence(frame.sequence) : 'ok';
+    if (arrival === 'duplicate') {
+      this.duplicateCount++;
+      return arrival;
+    }
+
+    this.frameCount++;
+    if (this.firstArrival === null) this.firstArrival = receivedAt;
+
+    // RFC 3550 style running jitter: smoothed change in transit time, or in arrival interval
+    let variation: number | null = null;
+    if (frame.deviceTimestamp !== null) {
+      this.timestampFrames++;
+      const transit = receivedAt - frame.deviceTimestamp;
+      if (this.lastTransit !== null) variation = Math.abs(transit - this.lastTransit);
+      this.lastTransit = transit;
+    } else if (this.intervalStart !== null) {
+      const interval = receivedAt - this.intervalStart;
+      if (this.lastInterval !== null) variation = Math.abs(interval - this.lastInterval);
+      this.lastInterval = interval;
+    }
+    if (variation !== null) {
+      this.jitter += (variation - this.jitter) / 16;
+    }
+    this.lastArrival = receivedAt;
+    this.intervalStart = receivedAt;
+
+    if (arrival === 'out-of-order') this.outOfOrderCount++;
+    return arrival;
+  }
+
+  getStats(): LinkQualityStats {
+    const durationSec = this.firstArrival !== null && this.lastArrival !== null
+      ? (this.lastArrival - this.firstArrival) / 1000
+      : 0;
+    const sequenceSupported = this.sequenceFrames > 0;
+    const segmentExpected = this.segmentFirst !== null && this.segmentHighest !== null
+      ? this.segmentHighest - this.segmentFirst + 1
+      : 0;
+    const expectedFrames = this.expectedBefore + segmentExpected;
+    const lostFrames = Math.max(0, expectedFrames - this.receivedBefore - this.seenSequences.size);
+
+    return {
+      frameCount: this.frameCount,
+      durationSec: round(durationSec),
+      effectiveRateHz: durationSec > 0 ? round((this.frameCount - 1) / durationSec) : 0,
+      sequenceSupported,
+      deviceTimestampSupported: this.timestampFrames > 0,
+      expectedFrames: sequenceSupported ? expectedFrames : null,
+      lostFrames: sequenceSupported ? lostFrames : null,
+      lossPercent: sequenceSupported && expectedFrames > 0 ? round((lostFrames / expectedFrames) * 100) : null,
+      duplicateCount: this.duplicateCount,
+      outOfOrderCount: this.outOfOrderCount,
+      jitterMs: round(this.jitter)
+    };
+  }
+
+  private recordSequence(rawSequence: number): FrameArrival {
+    this.sequenceFrames++;
+    let sequence = rawSequence + this.wrapOffset;
+    if (this.lastRawSequence !== null && this.lastRawSequence - rawSequence > SEQUENCE_MODULUS / 2) {
+      this.wrapOffset += SEQUENCE_MODULUS;
+      sequence = rawSequence + this.wrapOffset;
+      this.lastRawSequence = rawSequence;
+    } else if (this.lastRawSequence !== null && rawSequence - this.lastRawSequence > SEQUENCE_MODULUS / 2) {
+      sequence -= SEQUENCE_MODULUS; // a late frame from before the last wrap
+    } else {
+      this.lastRawSequence = rawSequence;
+    }
+
+    if (this.seenSequences.has(sequence)) return 'duplicate';
+    this.seenSequences.add(sequence);
+
+    if (this.segmentFirst === null || this.segmentHighest === null) {
+      this.segmentFirst = sequence;
+      this.segmentHighest = sequence;
+      return 'ok';
+    }
+
+    if (sequence < this.segmentFirst) {
+      this.segmentFirst = sequence;
+      return 'out-of-order';
+    }
+    if (sequence < this.segmentHighest) return 'out-of-order';
+
+    this.segmentHighest = sequence;
+    return 'ok';
+  }
+}
+
+// "9.8 Hz, 0.5% loss, 12 ms jitter"
+export const describeLinkQuality = (stats: LinkQualityStats | null): string => {
+  if (!stats || stats.frameCount === 0) return 'No frames';
+
+  const parts = [`${stats.effectiveRateHz} Hz`];
+  parts.push(stats.lossPercent !== null ? `${stats.lossPercent}% loss` : 'loss unknown (no sequence numbers)');
+  parts.push(`${stats.jitterMs} ms jitter`);
+  return parts.join(', ');
+};
+
+// Human-readable reasons a recording's link was not good enough; empty when it was fine
+export const assessLinkQuality = (stats: LinkQualityStats | null): string[] => {
+  if (!stats || stats.frameCount < 2) return [];
+
+  const problems: string[] = [];
+  if (stats.lossPercent !== null && stats.lossPercent > LINK_QUALITY_LIMITS.maxLossPercent) {
+    problems.push(`${stats.lossPercent}% of frames lost`);
+  }
+  if (stats.jitterMs > LINK_QUALITY_LIMITS.maxJitterMs) {
+    problems.push(`${stats.jitterMs} ms jitter`);
+  }
+  const reordered = stats.outOfOrderCount + stats.duplicateCount;
+  if ((reordered / stats.frameCount) * 100 > LINK_QUALITY_LIMITS.maxReorderPercent) {
+    problems.push(`${stats.outOfOrderCount} out-of-order and ${stats.duplicateCount} duplicate frames`);
+  }
+  return problems;
+};
+
+export default LinkQualityMonitor;
@@ -0,0 +1,100 @@
+// Single IndexedDB database shared by every local store (sessions, patients, calibrations, ...).
+// Bump DATABASE_VERSION and add an upgrade step when a store is added.
+import { DEFAULT_ALERT_RULES } from './AlertRules';
+
+const DATABASE_NAME = 'foot-pressure-heatmap';
+const DATABASE_VERSION = 6;
+
+export const STORE_SESSIONS = 'sessions';
+export const STORE_PATIENTS = 'patients';
+export const STORE_CALIBRATIONS = 'calibrations';
+export const STORE_DEVICES = 'devices';
+export const STORE_DEVICE_PROFILES = 'device-profiles';
+export const STORE_ALERT_RULES = 'alert-rules';
+export const STORE_ALERT_OVERRIDES = 'alert-overrides';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (database: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const sessions = database.createObjectStore(STORE_SESSIONS, { keyPath: 'id' });
+    sessions.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    const patients = database.createObjectStore(STORE_PATIENTS, { keyPath: 'id' });
+    patients.createIndex('patientCode', 'patientCode');
+  }
+  if (oldVersion < 3) {
+    database.createObjectStore(STORE_CALIBRATIONS, { keyPath: 'deviceId' });
+  }
+  if (oldVersion < 4) {
+    database.createObjectStore(STORE_DEVICES, { keyPath: 'deviceId' });
+  }
+  if (oldVersion < 5) {
+    database.createObjectStore(STORE_DEVICE_PROFILES, { keyPath: 'id' });
+  }
+  if (oldVersion < 6) {
+    // Rules are seeded once so the defaults can be edited like any other rule
+    const rules = database.createObjectStore(STORE_ALERT_RULES, { keyPath: 'id' });
+    DEFAULT_ALERT_RULES.forEach(rule => rules.put(rule));
+    database.createObjectStore(STORE_ALERT_OVERRIDES, { keyPath: 'patientId' });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const database = request.result;
+      // Another tab is upgrading: step aside so its open is not blocked, and reopen on next use
+      database.onversionchange = () => {
+        database.close();
+        databasePromise = null;
+      };
+      resolve(database);
+    };
+    request.onerror = () => reject(request.error);
+    // The open completes by itself once the other tabs close their connections
+    request.onblocked = () => console.warn('⚠️ Database upgrade waiting for other tabs of this app to close');
+  });
+
+  // Allow a retry after a failed open instead of caching the rejection
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `operation` against one object store and resolves once the transaction commits
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, mode);
+  const result = requestToPromise(operation(transaction.objectStore(storeName)));
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+  const [value] = await Promise.all([result, committed]);
+  return value;
+};
@@ -0,0 +1,145 @@
+// Timing plans for a measurement. A run is an optional countdown, then
+// `trialCount` trials of [settle → recording], separated by rest periods.
+// Only the recording phase contributes to averages and sway metrics.
+
+export interface MeasurementProtocol {
+  id: string;
+  name: string;
+  countdownSec: number; // lead-in before the first trial, nothing is stored
+  settleSec: number; // start of every trial, stored but excluded from averages
+  recordingSec: number; // averaged part of every trial
+  trialCount: number;
+  restSec: number; // between trials, nothing is stored
+}
+
+export type ProtocolPhase = 'countdown' | 'settle' | 'recording' | 'rest' | 'complete';
+
+export interface ProtocolState {
+  phase: ProtocolPhase;
+  trial: number; // 1-based, 0 during the countdown
+  phaseRemainingSec: number;
+  totalRemainingSec: number;
+}
+
+// Stored with each session so reports say exactly how the data was taken
+export interface ProtocolSummary {
+  id: string;
+  name: string;
+  description: string;
+  plannedSec: number; // excluding the countdown, comparable to SessionRecord.elapsedSec
+}
+
+export const MEASUREMENT_PROTOCOLS: MeasurementProtocol[] = [
+  {
+    id: 'standard-20s',
+    name: 'Standard 20s',
+    countdownSec: 0,
+    settleSec: 0,
+    recordingSec: 20,
+    trialCount: 1,
+    restSec: 0
+  },
+  {
+    id: 'quiet-standing-30s',
+    name: 'Quiet standing 30s',
+    countdownSec: 5,
+    settleSec: 5,
+    recordingSec: 30,
+    trialCount: 1,
+    restSec: 0
+  },
+  {
+    id: 'quiet-standing-60s',
+    name: 'Quiet standing 60s',
+    countdownSec: 5,
+    settleSec: 5,
+    recordingSec: 60,
+    trialCount: 1,
+    restSec: 0
+  },
+  {
+    id: 'trials-3x10s',
+    name: '3×10s trials',
+    countdownSec: 5,
+    settleSec: 2,
+    recordingSec: 10,
+    trialCount: 3,
+    restSec: 15
+  }
+];
+
+export const DEFAULT_PROTOCOL = MEASUREMENT_PROTOCOLS[0];
+
+export const getMeasurementProtocol = (id: string): MeasurementProtocol =>
+  MEASUREMENT_PROTOCOLS.find(protocol => protocol.id === id) || DEFAULT_PROTOCOL;
+
+export const getProtocolDurationSec = (protocol: MeasurementProtocol): number =>
+  protocol.countdownSec +
+  protocol.trialCount * (protocol.settleSec + protocol.recordingSec) +
+  (protocol.trialCount - 1) * protocol.restSec;
+
+// "3 × 10 s, 5 s countdown, 2 s settle, 15 s rest"
+export const describeProtocol = (protocol: MeasurementProtocol): string => {
+  const parts = [
+    protocol.trialCount > 1 ? `${protocol.trialCount} × ${protocol.recordingSec} s` : `${protocol.recordingSec} s`
+  ];
+  if (protocol.countdownSec > 0) parts.push(`${protocol.countdownSec} s countdown`);
+  if (protocol.settleSec > 0) parts.push(`${protocol.settleSec} s settle`);
+  if (protocol.trialCount > 1 && protocol.restSec > 0) parts.push(`${protocol.restSec} s rest`);
+  return parts.join(', ');
+};
+
+export const summarizeProtocol = (protocol: MeasurementProtocol): ProtocolSummary => ({
+  id: protocol.id,
+  name: protocol.name,
+  description: describeProtocol(protocol),
+  plannedSec: getProtocolDurationSec(protocol) - protocol.countdownSec
+});
+
+export const getProtocolState = (protocol: MeasurementProtocol, elapsedMs: number): ProtocolState => {
+  const elapsedSec = Math.max(0, elapsedMs / 1000);
+  const totalRemainingSec = Math.max(0, getProtocolDurationSec(protocol) - elapsedSec);
+
+  if (elapsedSec < protocol.countdownSec) {
+    return { phase: 'countdown', trial: 0, phaseRemainingSec: protocol.countdownSec - elapsedSec, totalRemainingSec };
+  }
+
+  let cursor = protocol.countdownSec;
+  for (let trial = 1; trial <= protocol.trialCount; trial++) {
+    const phases: [ProtocolPhase, number][] = [['settle', protocol.settleSec], ['recording', protocol.recordingSec]];
+    if (trial < protocol.trialCount) phases.push(['rest', protocol.restSec]);
+
+    for (const [phase, length] of phases) {
+      if (elapsedSec < cursor + length) {
+        return { phase, trial, phaseRemainingSec: cursor + length - elapsedSec, totalRemainingSec };
+      }
+      cursor += length;
+    }
+  }
+
+  return { phase: 'complete', trial: protocol.trialCount, phaseRemainingSec: 0, totalRemainingSec: 0 };
+};
+
+// Seconds spent in the recording phase after `elapsedMs`, i.e. what actually went into the averages
+export const getRecordedSec = (protocol: MeasurementProtocol, elapsedMs: number): number => {
+  let recorded = 0;
+  let cursor = protocol.countdownSec + protocol.settleSec;
+  const elapsedSec = elapsedMs / 1000;
+
+  for (let trial = 1; trial <= protocol.trialCount; trial++) {
+    recorded += Math.max(0, Math.min(elapsedSec, cursor + protocol.recordingSec) - cursor);
+    cursor += protocol.recordingSec + protocol.restSec + protocol.settleSec;
+  }
+  return Math.round(recorded * 10) / 10;
+};
+
+export const getProtocolPhaseLabel = (state: ProtocolState, protocol: MeasurementProtocol): string => {
+  const trialLabel = protocol.trialCount > 1 ? ` - trial ${state.trial}/${protocol.trialCount}` : '';
+  switch (state.phase) {
+    case 'countdown': return 'Get ready...';
+    case 'settle': return `Settling${trialLabel} (not averaged)`;
+    case 'recording': return `Recording${trialLabel}... Stand still!`;
+    case 'rest': return `Rest${trialLabel} - step off if needed`;
+    case 'complete': return 'Protocol complete';
+  }
+};
@@ -0,0 +1,159 @@
+import { describe, test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import MeasurementSession from './MeasurementSession';
+import { MeasurementProtocol, getProtocolState, getRecordedSec } from './MeasurementProtocols';
+import { DEFAULT_SENSOR_LAYOUT, createEmptyFrame } from './SensorLayouts';
+
+// 1 s countdown, then two trials of 1 s settle + 2 s recording with 1 s rest in between
+const PROTOCOL: MeasurementProtocol = {
+  id: 'test',
+  name: 'Test',
+  countdownSec: 1,
+  settleSec: 1,
+  recordingSec: 2,
+  trialCount: 2,
+  restSec: 1
+};
+
+const frame = (value: number) => createEmptyFrame(DEFAULT_SENSOR_LAYOUT).map(() => value);
+
+// The session's clock and interval timer both advance only when the test says so
+const createSession = (t: TestContext) => {
+  t.mock.timers.enable({ apis: ['setInterval'] });
+  let now = 0;
+  const session = new MeasurementSession({
+    protocol: PROTOCOL,
+    sensorLayout: DEFAULT_SENSOR_LAYOUT,
+    tickMs: 100,
+    gapThresholdMs: 500,
+    clock: () => now
+  });
+  const advance = (ms: number) => {
+    now += ms;
+    t.mock.timers.tick(ms);
+  };
+  return { session, advance };
+};
+
+describe('getProtocolState', () => {
+  test('walks countdown, settle, recording and rest for every trial', () => {
+    const phases = [0, 1000, 2000, 4000, 5000, 6000, 8000].map(ms => {
+      const { phase, trial } = getProtocolState(PROTOCOL, ms);
+      return `${phase}:${trial}`;
+    });
+    assert.deepEqual(phases, [
+      'countdown:0',
+      'settle:1',
+      'recording:1',
+      'rest:1',
+      'settle:2',
+      'recording:2',
+      'complete:2'
+    ]);
+  });
+
+  test('counts down the phase and the whole run', () => {
+    const state = getProtocolState(PROTOCOL, 2500);
+    assert.equal(state.phaseRemainingSec, 1.5);
+    assert.equal(state.totalRemainingSec, 5.5);
+  });
+
+  test('only counts recording time as recorded', () => {
+    assert.equal(getRecordedSec(PROTOCOL, 1500), 0);
+    assert.equal(getRecordedSec(PROTOCOL, 3000), 1);
+    assert.equal(getRecordedSec(PROTOCOL, 5500), 2);
+    assert.equal(getRecordedSec(PROTOCOL, 8000), 4);
+  });
+});
+
+describe('MeasurementSession', () => {
+  test('reports each phase once and completes when the protocol ends', (t) => {
+    const { session, advance } = createSession(t);
+    const phases: string[] = [];
+    let completed = 0;
+    session.on('phase', state => phases.push(`${state.phase}:${state.trial}`));
+    session.on('complete', () => completed++);
+
+    session.start();
+    assert.equal(session.isRunning(), true);
+    for (let ms = 0; ms < 8000; ms += 100) advance(100);
+
+    assert.deepEqual(phases, ['countdown:0', 'settle:1', 'recording:1', 'rest:1', 'settle:2', 'recording:2']);
+    assert.equal(completed, 1);
+    assert.equal(session.isRunning(), false);
+    assert.equal(session.getState(), null);
+    assert.equal(session.getResult()?.stoppedEarly, false);
+  });
+
+  test('stores settle and recording samples but averages only the recording ones', (t) => {
+    const { session, advance } = createSession(t);
+    session.start();
+
+    session.addSample(frame(99), 0); // countdown - dropped
+    advance(1000);
+    session.addSample(frame(50), 0); // settle - stored, not averaged
+    advance(1000);
+    session.addSample(frame(10), 0);
+    advance(400);
+    session.addSample(frame(20), 0);
+
+    const result = session.stop();
+    assert.ok(result);
+    assert.deepEqual(result.pressureData.map(data => data.phase), ['settle', 'recording', 'recording']);
+    assert.deepEqual(result.pressureData.map(data => data.elapsedMs), [0, 1000, 1400]);
+    assert.equal(result.recordedSampleCount, 2);
+    assert.deepEqual(result.averagePressures, frame(15));
+    assert.equal(result.stoppedEarly, true);
+    assert.equal(result.elapsedSec, 1.4);
+  });
+
+  test('keeps a running average of the recording samples', (t) => {
+    const { session, advance } = createSession(t);
+    session.start();
+    advance(1000);
+    session.addSample(frame(50), 0);
+    assert.equal(session.getRunningAverages(), null);
+
+    advance(1000);
+    session.addSample(frame(10), 0);
+    session.addSample(frame(30), 0);
+    assert.deepEqual(session.getRunningAverages(), frame(20));
+  });
+
+  test('has no averages when stopped before recording', (t) => {
+    const { session, advance } = createSession(t);
+    session.start();
+    advance(1200);
+    session.addSample(frame(30), 0);
+
+    assert.equal(session.stop()?.averagePressures, null);
+  });
+
+  test('records a stall during recording as a gap', (t) => {
+    const { session, advance } = createSession(t);
+    const gaps: number[] = [];
+    session.on('gap', gap => gaps.push(gap.missingRecordingSec));
+    session.start();
+
+    advance(2000);
+    session.addSample(frame(10), 0);
+    advance(1000);
+    session.addSample(frame(10), 0);
+
+    assert.deepEqual(gaps, [1]);
+    assert.equal(session.stop()?.gaps[0].reason, 'stream-stall');
+  });
+
+  test('cannot be started twice and ignores samples once stopped', (t) => {
+    const { session, advance } = createSession(t);
+    session.start();
+    assert.throws(() => session.start(), /already been started/);
+
+    advance(2000);
+    const result = session.stop();
+    session.addSample(frame(10), 0);
+    assert.equal(session.stop(), result);
+    assert.equal(result?.pressureData.length, 0);
+    assert.throws(() => session.start(), /already been started/);
+  });
+});
@@ -0,0 +1,265 @@
+import { SensorLayout, createEmptyFrame } from './SensorLayouts';
+import { CopSample, SwayMetrics, computeCenterOfPressure, computeSwayMetrics } from './CenterOfPressure';
+import { MeasurementProtocol, ProtocolState, getProtocolState, getRecordedSec } from './MeasurementProtocols';
+import { sharedClockNow } from './SampleAlignment';
+import { PressureData } from './SessionStore';
+import { DEFAULT_GAP_THRESHOLD_MS, DataGap } from './DataGaps';
+import { PressureFrame } from './FrameDecoderRegistry';
+
+export interface MeasurementResult {
+  protocol: MeasurementProtocol;
+  startedAt: Date;
+  pressureData: PressureData[]; // settle and recording samples
+  recordedSampleCount: number;
+  averagePressures: number[] | null; // null when nothing was recorded outside the settle period
+  copTrajectory: CopSample[];
+  swayMetrics: SwayMetrics;
+  elapsedSec: number; // counted from the end of the countdown
+  recordedSec: number;
+  stoppedEarly: boolean;
+  gaps: DataGap[];
+}
+
+export interface MeasurementSessionEvents {
+  sample: { data: PressureData; cop: CopSample | null }; // a stored sample
+  tick: ProtocolState;
+  phase: ProtocolState; // phase or trial changed
+  gap: DataGap; // reported once the stream resumes, or when the run ends
+  complete: MeasurementResult;
+}
+
+type Listener<T> = (payload: T) => void;
+
+type ListenerMap = { [K in keyof MeasurementSessionEvents]: Listener<MeasurementSessionEvents[K]>[] };
+
+const createListenerMap = (): ListenerMap => ({ sample: [], tick: [], phase: [], gap: [], complete: [] });
+
+interface MeasurementSessionOptions {
+  protocol: MeasurementProtocol;
+  sensorLayout: SensorLayout;
+  tickMs?: number;
+  gapThresholdMs?: number;
+  clock?: () => number; // ms, defaults to the shared page clock
+}
+
+// Owns one recording from start to result: protocol timer, sample buffer and
+// averaging. Screens feed it samples and react to its events; every value in
+// the result is computed from the session's own buffer, never from React state.
+class MeasurementSession {
+  private readonly protocol: MeasurementProtocol;
+  private readonly sensorLayout: SensorLayout;
+  private readonly tickMs: number;
+  private readonly gapThresholdMs: number;
+  private readonly clock: () => number;
+  private listeners = createListenerMap();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private startedAt = new Date();
+  private startedAtMs = 0;
+  private state: ProtocolState | null = null;
+  private samples: PressureData[] = [];
+  private recordingSums: number[];
+  private recordingCount = 0;
+  private copTrajectory: CopSample[] = [];
+  private gaps: DataGap[] = [];
+  private lastSampleAt = 0;
+  private linkLost = false;
+  private result: MeasurementResult | null = null;
+
+  constructor({
+    protocol,
+    sensorLayout,
+    tickMs = 250,
+    gapThresholdMs = DEFAULT_GAP_THRESHOLD_MS,
+    clock = sharedClockNow
+  }: MeasurementSessionOptions) {
+    this.protocol = protocol;
+    this.sensorLayout = sensorLayout;
+    this.tickMs = tickMs;
+    this.gapThresholdMs = gapThresholdMs;
+    this.clock = clock;
+    this.recordingSums = createEmptyFrame(sensorLayout);
+  }
+
+  on<K extends keyof MeasurementSessionEvents>(event: K, listener: Listener<MeasurementSessionEvents[K]>): () => void {
+    const listeners: Listener<MeasurementSessionEvents[K]>[] = this.listeners[event];
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index >= 0) listeners.splice(index, 1);
+    };
+  }
+
+  private emit<K extends keyof MeasurementSessionEvents>(event: K, payload: MeasurementSessionEvents[K]): void {
+    const listeners: Listener<MeasurementSessionEvents[K]>[] = this.listeners[event];
+    [...listeners].forEach(listener => listener(payload));
+  }
+
+  start(): void {
+    if (this.timer || this.result) {
+      throw new Error('Measurement session has already been started');
+    }
+
+    this.startedAt = new Date();
+    this.startedAtMs = this.clock();
+    this.lastSampleAt = this.startedAtMs;
+    this.state = getProtocolState(this.protocol, 0);
+    this.emit('phase', this.state);
+    this.emit('tick', this.state);
+    this.timer = setInterval(() => this.tick(), this.tickMs);
+  }
+
+  // Called for every decoded frame; countdown and rest samples are ignored
+  addSample(
+    values: number[],
+    receivedAt: number,
+    { sequence, deviceTimestamp }: Pick<PressureFrame, 'sequence' | 'deviceTimestamp'> = { sequence: null, deviceTimestamp: null }
+  ): void {
+    if (!this.isRunning()) return;
+
+    // Every arrival counts for gap detection, including countdown and rest samples
+    const now = this.clock();
+    this.closeGap(now);
+    this.lastSampleAt = now;
+
+    // Phase is evaluated at arrival rather than taken from the last tick
+    const state = getProtocolState(this.protocol, now - this.startedAtMs);
+    if (state.phase !== 'settle' && state.phase !== 'recording') return;
+
+    const data: PressureData = {
+      timestamp: new Date().toLocaleTimeString(),
+      elapsedMs: Math.round(now - this.startedAtMs - this.protocol.countdownSec * 1000),
+      values,
+      trial: state.trial,
+      phase: state.phase,
+      sequence,
+      deviceTimestamp
+    };
+    this.samples.push(data);
+    if (state.phase === 'recording') {
+      values.forEach((value, index) => {
+        if (index < this.recordingSums.length) this.recordingSums[index] += value;
+      });
+      this.recordingCount++;
+    }
+
+    const point = state.phase === 'recording' ? computeCenterOfPressure(values, this.sensorLayout) : null;
+    const cop = point ? { ...point, time: receivedAt } : null;
+    if (cop) {
+      this.copTrajectory.push(cop);
+    }
+
+    this.emit('sample', { data, cop });
+  }
+
+  // The transport dropped; the silence until the next sample is reported as a link loss
+  markLinkLost(): void {
+    if (this.isRunning()) {
+      this.linkLost = true;
+    }
+  }
+
+  // Ends the run before the protocol finishes
+  stop(): MeasurementResult | null {
+    if (!this.isRunning()) return this.result;
+    return this.finish(true);
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getState(): ProtocolState | null {
+    return this.state;
+  }
+
+  // Average of the recording-phase samples so far, null before the first one
+  getRunningAverages(): number[] | null {
+    if (this.recordingCount === 0) return null;
+    return this.recordingSums.map(sum => Math.round(sum / this.recordingCount));
+  }
+
+  getResult(): MeasurementResult | null {
+    return this.result;
+  }
+
+  // Stops the timer without producing a result, e.g. when the screen unmounts
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.state = null;
+    this.listeners = createListenerMap();
+  }
+
+  private tick(): void {
+    const previous = this.state;
+    const state = getProtocolState(this.protocol, this.clock() - this.startedAtMs);
+    this.state = state;
+
+    if (state.phase === 'complete') {
+      this.finish(false);
+      return;
+    }
+
+    if (!previous || previous.phase !== state.phase || previous.trial !== state.trial) {
+      this.emit('phase', state);
+    }
+    this.emit('tick', state);
+  }
+
+  private finish(stoppedEarly: boolean): MeasurementResult {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    const now = this.clock();
+    this.closeGap(now);
+    const elapsedMs = now - this.startedAtMs;
+    this.state = null;
+    this.result = {
+      protocol: this.protocol,
+      startedAt: this.startedAt,
+      pressureData: [...this.samples],
+      recordedSampleCount: this.samples.filter(data => data.phase === 'recording').length,
+      averagePressures: this.getRunningAverages(), // settle samples are stored but never averaged
+      copTrajectory: [...this.copTrajectory],
+      swayMetrics: computeSwayMetrics(this.copTrajectory),
+      elapsedSec: Math.round(Math.max(0, elapsedMs / 1000 - this.protocol.countdownSec) * 10) / 10,
+      recordedSec: getRecordedSec(this.protocol, elapsedMs),
+      stoppedEarly,
+      gaps: [...this.gaps]
+    };
+
+    this.emit('complete', this.result);
+    return this.result;
+  }
+
+  // Records the silence since the last sample if it was long enough, or if the link dropped in between.
+  // Only gaps that cost recording time are kept - a dropout during rest does not affect the averages.
+  private closeGap(now: number): void {
+    const linkLost = this.linkLost;
+    this.linkLost = false;
+    if (!linkLost && now - this.lastSampleAt <= this.gapThresholdMs) return;
+
+    const startMs = this.lastSampleAt - this.startedAtMs;
+    const endMs = now - this.startedAtMs;
+    const missingRecordingSec = Math.round((getRecordedSec(this.protocol, endMs) - getRecordedSec(this.protocol, startMs)) * 10) / 10;
+    if (missingRecordingSec <= 0) return;
+
+    const countdownMs = this.protocol.countdownSec * 1000;
+    const gap: DataGap = {
+      startSec: Math.round(Math.max(0, startMs - countdownMs) / 100) / 10,
+      durationSec: Math.round((endMs - startMs) / 100) / 10,
+      missingRecordingSec,
+      trial: getProtocolState(this.protocol, Math.max(startMs, countdownMs)).trial,
+      reason: linkLost ? 'link-lost' : 'stream-stall',
+      beforeSample: this.samples.length
+    };
+    this.gaps.push(gap);
+    this.emit('gap', gap);
+  }
+}
+
+export default MeasurementSession;
@@ -0,0 +1,110 @@
+import { STORE_PATIENTS, withStore } from './LocalDatabase';
+
+export interface Patient {
+  id: string;
+  patientCode: string; // clinic's own patient ID / record number
+  name: string;
+  dateOfBirth: string; // YYYY-MM-DD
+  weightKg: number | null;
+  shoeSize: string;
+  diagnosisTags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PatientDraft = Omit<Patient, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Active patient is kept per browser tab so it follows the clinician across screens
+const ACTIVE_PATIENT_KEY = 'foot-pressure-active-patient';
+
+export const createPatientId = (): string =>
+  `patient-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getActivePatientId = (): string | null => sessionStorage.getItem(ACTIVE_PATIENT_KEY);
+
+export const setActivePatientId = (patientId: string | null): void => {
+  if (patientId) {
+    sessionStorage.setItem(ACTIVE_PATIENT_KEY, patientId);
+  } else {
+    sessionStorage.removeItem(ACTIVE_PATIENT_KEY);
+  }
+};
+
+export const calculateAge = (dateOfBirth: string, at: Date = new Date()): number | null => {
+  const birth = new Date(dateOfBirth);
+  if (isNaN(birth.getTime())) return null;
+
+  let age = at.getFullYear() - birth.getFullYear();
+  const beforeBirthday = at.getMonth() < birth.getMonth() ||
+    (at.getMonth() === birth.getMonth() && at.getDate() < birth.getDate());
+  if (beforeBirthday) age--;
+  return age;
+};
+
+// "Jane Doe (P-1042)" for headers and dropdowns
+export const formatPatientLabel = (patient: Pick<Patient, 'name' | 'patientCode'>): string =>
+  patient.patientCode ? `${patient.name} (${patient.patientCode})` : patient.name;
+
+export const parseDiagnosisTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+class PatientStore {
+  async create(draft: PatientDraft): Promise<Patient> {
+    const now = new Date().toISOString();
+    const patient: Patient = { ...draft, id: createPatientId(), createdAt: now, updatedAt: now };
+    await this.assertUniqueCode(patient);
+    await withStore(STORE_PATIENTS, 'readwrite', store => store.add(patient));
+    return patient;
+  }
+
+  async update(patient: Patient): Promise<Patient> {
+    const updated = { ...patient, updatedAt: new Date().toISOString() };
+    await this.assertUniqueCode(updated);
+    await withStore(STORE_PATIENTS, 'readwrite', store => store.put(updated));
+    return updated;
+  }
+
+  async get(patientId: string): Promise<Patient | null> {
+    const patient = await withStore<Patient | undefined>(STORE_PATIENTS, 'readonly', store => store.get(patientId));
+    return patient || null;
+  }
+
+  // Alphabetical by name
+  async list(): Promise<Patient[]> {
+    const patients = await withStore<Patient[]>(STORE_PATIENTS, 'readonly', store => store.getAll());
+    return patients.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Case-insensitive match on name, patient ID or diagnosis tag
+  async search(query: string): Promise<Patient[]> {
+    const patients = await this.list();
+    const needle = query.trim().toLowerCase();
+    if (!needle) return patients;
+
+    return patients.filter(patient =>
+      patient.name.toLowerCase().includes(needle) ||
+      patient.patientCode.toLowerCase().includes(needle) ||
+      patient.diagnosisTags.some(tag => tag.includes(needle))
+    );
+  }
+
+  async delete(patientId: string): Promise<void> {
+    await withStore(STORE_PATIENTS, 'readwrite', store => store.delete(patientId));
+    if (getActivePatientId() === patientId) {
+      setActivePatientId(null);
+    }
+  }
+
+  private async assertUniqueCode(patient: Patient): Promise<void> {
+    if (!patient.patientCode) return;
+
+    const existing = await withStore<Patient[]>(STORE_PATIENTS, 'readonly', store =>
+      store.index('patientCode').getAll(patient.patientCode)
+    );
+    if (existing.some(other => other.id !== patient.id)) {
+      throw new Error(`Patient ID ${patient.patientCode} is already assigned to another patient`);
+    }
+  }
+}
+
+export default PatientStore;
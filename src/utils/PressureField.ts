@@ -0,0 +1,112 @@
+import { SensorPoint } from './SensorLayouts';
+
+// Sole artwork is 1024x1536, so one unit of normalized y is 1.5 units of x
+const SOLE_ASPECT_RATIO = 1.5;
+
+/**
+ * Inverse-distance-weighted estimate at (x, y), both normalized to the sole image.
+ * Exactly on a sensor the sensor's own value is returned.
+ */
+export const interpolateIDW = (
+  points: SensorPoint[],
+  values: number[],
+  x: number,
+  y: number,
+  power = 2
+): number => {
+  let weightedSum = 0;
+  let weightTotal = 0;
+
+  for (let index = 0; index < points.length; index++) {
+    const dx = x - points[index].x;
+    const dy = (y - points[index].y) * SOLE_ASPECT_RATIO;
+    const distanceSq = dx * dx + dy * dy;
+    const value = values[index] || 0;
+
+    if (distanceSq < 1e-8) return value;
+
+    const weight = 1 / Math.pow(distanceSq, power / 2);
+    weightedSum += weight * value;
+    weightTotal += weight;
+  }
+
+  return weightTotal > 0 ? weightedSum / weightTotal : 0;
+};
+
+/**
+ * Samples the interpolated field on a width×height grid (row-major).
+ * Cells where `mask` is false are left at 0 and skipped.
+ */
+export const buildPressureField = (
+  points: SensorPoint[],
+  values: number[],
+  width: number,
+  height: number,
+  mask?: Uint8Array,
+  power = 2
+): Float32Array => {
+  const field = new Float32Array(width * height);
+
+  for (let row = 0; row < height; row++) {
+    const y = (row + 0.5) / height;
+    for (let col = 0; col < width; col++) {
+      const cell = row * width + col;
+      if (mask && !mask[cell]) continue;
+      field[cell] = interpolateIDW(points, values, (col + 0.5) / width, y, power);
+    }
+  }
+
+  return field;
+};
+
+/**
+ * Builds a sole silhouette mask from the RGB artwork: everything reachable from the
+ * image border through near-white pixels is background, the rest is foot. Pixels right
+ * of `maxX` (the printed color bar) are always excluded.
+ */
+export const buildSilhouetteMask = (
+  image: ImageData,
+  maxX = 0.78,
+  whiteThreshold = 235
+): Uint8Array => {
+  const { width, height, data } = image;
+  const outside = new Uint8Array(width * height);
+  const stack: number[] = [];
+
+  const isBackground = (cell: number) => {
+    const offset = cell * 4;
+    return data[offset] >= whiteThreshold && data[offset + 1] >= whiteThreshold && data[offset + 2] >= whiteThreshold;
+  };
+
+  const visit = (cell: number) => {
+    if (!outside[cell] && isBackground(cell)) {
+      outside[cell] = 1;
+      stack.push(cell);
+    }
+  };
+
+  for (let col = 0; col < width; col++) {
+    visit(col);
+    visit((height - 1) * width + col);
+  }
+  for (let row = 0; row < height; row++) {
+    visit(row * width);
+    visit(row * width + width - 1);
+  }
+
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    const col = cell % width;
+    if (col > 0) visit(cell - 1);
+    if (col < width - 1) visit(cell + 1);
+    if (cell >= width) visit(cell - width);
+    if (cell < width * (height - 1)) visit(cell + width);
+  }
+
+  const mask = new Uint8Array(width * height);
+  const cutoff = Math.floor(width * maxX);
+  for (let cell = 0; cell < mask.length; cell++) {
+    mask[cell] = !outside[cell] && cell % width < cutoff ? 1 : 0;
+  }
+  return mask;
+};
@@ -0,0 +1,139 @@
+import { PressureData } from './SessionStore';
+
+// 'estimated' = legacy record spread evenly over its duration, 'index' = no duration either
+export type TimeBase = 'measured' | 'estimated' | 'index';
+
+export interface SampleTimeline {
+  timesSec: number[]; // per sample, ascending; seconds since the countdown ended
+  timeBase: TimeBase;
+}
+
+export interface TimeSpan {
+  startSec: number;
+  endSec: number;
+}
+
+export const getTimeAxisLabel = (timeBase: TimeBase): string => {
+  if (timeBase === 'index') return 'Sample';
+  return timeBase === 'estimated' ? 'Time (s, estimated)' : 'Time (s)';
+};
+
+// Legacy samples only carry a wall-clock time with one-second resolution, so they are spaced evenly instead
+export const getSampleTimeline = (pressureData: PressureData[], elapsedSec: number | null): SampleTimeline => {
+  if (pressureData.every(data => data.elapsedMs !== null)) {
+    return { timesSec: pressureData.map(data => (data.elapsedMs as number) / 1000), timeBase: 'measured' };
+  }
+  if (elapsedSec !== null && elapsedSec > 0) {
+    const intervalSec = elapsedSec / pressureData.length;
+    return { timesSec: pressureData.map((_, index) => index * intervalSec), timeBase: 'estimated' };
+  }
+  return { timesSec: pressureData.map((_, index) => index), timeBase: 'index' };
+};
+
+// Index of the sample closest to the given time
+export const findNearestSample = (timesSec: number[], timeSec: number): number => {
+  if (timesSec.length === 0) return -1;
+
+  let low = 0;
+  let high = timesSec.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (timesSec[middle] < timeSec) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low > 0 && timeSec - timesSec[low - 1] < timesSec[low] - timeSec ? low - 1 : low;
+};
+
+// Stretches of settle-period samples, shaded on charts because they are not averaged
+export const getSettleSpans = (pressureData: PressureData[], timesSec: number[]): TimeSpan[] => {
+  const spans: TimeSpan[] = [];
+  pressureData.forEach((data, index) => {
+    if (data.phase !== 'settle') return;
+    const last = spans[spans.length - 1];
+    if (last && index > 0 && pressureData[index - 1].phase === 'settle') {
+      last.endSec = timesSec[index];
+    } else {
+      spans.push({ startSec: timesSec[index], endSec: timesSec[index] });
+    }
+  });
+  return spans;
+};
+
+/**
+ * One channel's samples between two times, reduced to at most two points (the
+ * minimum and the maximum, in time order) per bucket so that long recordings
+ * stay cheap to draw without flattening their peaks.
+ */
+export const decimateChannel = (
+  pressureData: PressureData[],
+  timesSec: number[],
+  channel: number,
+  range: TimeSpan,
+  maxBuckets: number
+): [number, number][] => {
+  // One sample either side so lines run to the plot edges
+  const first = Math.max(0, findNearestSample(timesSec, range.startSec) - 1);
+  const last = Math.min(timesSec.length - 1, findNearestSample(timesSec, range.endSec) + 1);
+  const point = (index: number): [number, number] => [timesSec[index], pressureData[index].values[channel] || 0];
+
+  const count = last - first + 1;
+  if (count <= maxBuckets * 2) {
+    return Array.from({ length: Math.max(0, count) }, (_, offset) => point(first + offset));
+  }
+
+  const points: [number, number][] = [];
+  const bucketSize = count / maxBuckets;
+  for (let bucket = 0; bucket < maxBuckets; bucket++) {
+    const start = first + Math.floor(bucket * bucketSize);
+    const end = Math.min(last, first + Math.floor((bucket + 1) * bucketSize) - 1);
+    let minIndex = start;
+    let maxIndex = start;
+    for (let index = start + 1; index <= end; index++) {
+      const value = pressureData[index].values[channel] || 0;
+      if (value < (pressureData[minIndex].values[channel] || 0)) minIndex = index;
+      if (value > (pressureData[maxIndex].values[channel] || 0)) maxIndex = index;
+    }
+    if (minIndex === maxIndex) {
+      points.push(point(minIndex));
+    } else {
+      points.push(point(Math.min(minIndex, maxIndex)), point(Math.max(minIndex, maxIndex)));
+    }
+  }
+  return points;
+};
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface PeakFrame {
+  index: number; // sample index
+  channel: number; // the most loaded sensor in that frame
+  value: number;
+}
+
+/**
+ * Recording-phase frames with the highest single-sensor pressure, strongest
+ * first. Picks are kept apart by a fraction of the recording so one sustained
+ * peak does not take every slot.
+ */
+export const findPeakFrames = (pressureData: PressureData[], maxCount = 5): PeakFrame[] => {
+  const minSeparation = Math.max(1, Math.floor(pressureData.length / 50));
+  const candidates = pressureData
+    .map((data, index) => {
+      const value = Math.max(0, ...data.values);
+      return { index, channel: data.values.indexOf(value), value, phase: data.phase };
+    })
+    .filter(frame => frame.phase === 'recording' && frame.value > 0)
+    .sort((a, b) => b.value - a.value || a.index - b.index);
+
+  const peaks: PeakFrame[] = [];
+  for (const { index, channel, value } of candidates) {
+    if (peaks.length >= maxCount) break;
+    if (peaks.every(peak => Math.abs(peak.index - index) >= minSeparation)) {
+      peaks.push({ index, channel, value });
+    }
+  }
+  return peaks;
+};
@@ -0,0 +1,124 @@
+import { FramePayload } from './FrameDecoderRegistry';
+import {
+  CommandReply,
+  DeviceCommand,
+  formatCommandReply,
+  parseCommandReply,
+  parseCommandRequest,
+  parseLegacyCommand
+} from './DeviceCommands';
+import { StreamCapture, toFramePayload } from './StreamCapture';
+import { DeviceTransport } from './DeviceTransport';
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+// Plays a capture back with its original spacing (divided by `speed`).
+// Every START restarts from the first notification, so each measurement sees the same stream.
+// Command replies in older captures are skipped so they cannot settle commands sent during the replay.
+class ReplayDevice implements DeviceTransport {
+  readonly kind = 'replay';
+  private readonly capture: StreamCapture;
+  private readonly notifications: { t: number; payload: FramePayload }[];
+  private readonly speed: number;
+  private connected = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private index = 0;
+
+  public onPayload: ((payload: FramePayload) => void) | null = null;
+  public onDisconnect: (() => void) | null = null;
+  public onFinished: (() => void) | null = null;
+
+  constructor(capture: StreamCapture, speed = 1) {
+    this.capture = capture;
+    this.notifications = capture.notifications
+      .map(notification => ({ t: notification.t, payload: toFramePayload(notification) }))
+      .filter(({ payload }) => !parseCommandReply(payload.text));
+    this.speed = speed;
+  }
+
+  getCapture(): StreamCapture {
+    return this.capture;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  disconnect(): void {
+    this.stopStreaming();
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // START and STOP drive playback; a capture cannot answer anything else
+  async write(bytes: Uint8Array): Promise<void> {
+    if (!this.connected) throw new Error('Replay is not connected');
+    const text = new TextDecoder().decode(bytes);
+    // Bare START / STOP from the original protocol run without a reply
+    const legacy = parseLegacyCommand(text);
+    if (legacy) {
+      this.runCommand(legacy);
+      return;
+    }
+    const request = parseCommandRequest(text);
+    if (!request) return;
+    const reply = formatCommandReply(request.id, this.runCommand(request.command));
+    setTimeout(() => this.onPayload?.({ bytes: new TextEncoder().encode(reply), text: reply }), 0);
+  }
+
+  startStreaming(): void {
+    if (!this.connected) return;
+    this.stopStreaming();
+    this.index = 0;
+    this.scheduleNext();
+  }
+
+  stopStreaming(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // The capture's frames are replayed as recorded; the layout is the decoder's concern
+  setSensorLayout(): void {}
+
+  private runCommand(command: DeviceCommand): CommandReply {
+    switch (command.type) {
+      case 'start':
+        this.startStreaming();
+        return { ok: true };
+      case 'stop':
+        this.stopStreaming();
+        return { ok: true };
+      default:
+        return { ok: false, reason: 'not available during replay' };
+    }
+  }
+
+  private scheduleNext(): void {
+    const notifications = this.notifications;
+    if (this.index >= notifications.length) {
+      this.timer = null;
+      this.onFinished?.();
+      return;
+    }
+
+    const previousT = this.index > 0 ? notifications[this.index - 1].t : notifications[0].t;
+    const delayMs = Math.max(0, (notifications[this.index].t - previousT) / this.speed);
+    this.timer = setTimeout(() => {
+      this.onPayload?.(notifications[this.index].payload);
+      this.index++;
+      this.scheduleNext();
+    }, delayMs);
+  }
+}
+
+export default ReplayDevice;
@@ -0,0 +1,73 @@
+// Sample stamped on the shared clock, in ms
+export interface TimedSample {
+  time: number;
+  values: number[];
+}
+
+export interface AlignedSample {
+  time: number; // ms since the start of the aligned window
+  left: number[];
+  right: number[];
+}
+
+// Monotonic page clock shared by every connection, so samples from both insoles
+// can be compared regardless of which notification arrived first
+export const sharedClockNow = (): number => performance.now();
+
+const medianInterval = (samples: TimedSample[]): number => {
+  const intervals = samples
+    .slice(1)
+    .map((sample, index) => sample.time - samples[index].time)
+    .filter(interval => interval > 0)
+    .sort((a, b) => a - b);
+  return intervals.length > 0 ? intervals[Math.floor(intervals.length / 2)] : 0;
+};
+
+// Linear interpolation between the two samples surrounding `time`; `cursor` is advanced in place
+const interpolateAt = (samples: TimedSample[], time: number, cursor: { index: number }): number[] => {
+  while (cursor.index < samples.length - 2 && samples[cursor.index + 1].time <= time) {
+    cursor.index++;
+  }
+
+  const before = samples[cursor.index];
+  const after = samples[Math.min(cursor.index + 1, samples.length - 1)];
+  if (after.time <= before.time || time <= before.time) return [...before.values];
+  if (time >= after.time) return [...after.values];
+
+  const ratio = (time - before.time) / (after.time - before.time);
+  return before.values.map((value, channel) =>
+    Math.round(value + ((after.values[channel] ?? value) - value) * ratio)
+  );
+};
+
+/**
+ * Resamples the left and right streams onto one common time grid covering only the
+ * window where both insoles were sending data. The grid step defaults to the slower
+ * stream's median sample interval.
+ */
+export const alignSampleStreams = (
+  left: TimedSample[],
+  right: TimedSample[],
+  intervalMs?: number
+): AlignedSample[] => {
+  if (left.length === 0 || right.length === 0) return [];
+
+  const start = Math.max(left[0].time, right[0].time);
+  const end = Math.min(left[left.length - 1].time, right[right.length - 1].time);
+  if (end < start) return [];
+
+  const step = intervalMs || Math.max(medianInterval(left), medianInterval(right)) || 100;
+  const leftCursor = { index: 0 };
+  const rightCursor = { index: 0 };
+  const aligned: AlignedSample[] = [];
+
+  for (let time = start; time <= end; time += step) {
+    aligned.push({
+      time: Math.round(time - start),
+      left: interpolateAt(left, time, leftCursor),
+      right: interpolateAt(right, time, rightCursor)
+    });
+  }
+
+  return aligned;
+};
@@ -0,0 +1,112 @@
+// Sensor position, normalized to the sole image (0 = left/top edge, 1 = right/bottom edge).
+// left_sole.png and right_sole.png share the same artwork, so one set of points serves both sides.
+export interface SensorPoint {
+  x: number;
+  y: number;
+}
+
+export interface SensorLayout {
+  id: string;
+  name: string;
+  channelCount: number;
+  points: SensorPoint[]; // one entry per channel, P1 first
+}
+
+const layout = (id: string, name: string, points: SensorPoint[]): SensorLayout => ({
+  id,
+  name,
+  channelCount: points.length,
+  points
+});
+
+export const SENSOR_LAYOUTS: SensorLayout[] = [
+  layout('insole-8', '8-sensor insole', [
+    { x: 0.276, y: 0.267 },  // P1
+    { x: 0.486, y: 0.267 },  // P2
+    { x: 0.305, y: 0.455 },  // P3
+    { x: 0.580, y: 0.371 },  // P4
+    { x: 0.301, y: 0.598 },  // P5
+    { x: 0.550, y: 0.496 },  // P6
+    { x: 0.353, y: 0.753 },  // P7
+    { x: 0.510, y: 0.620 }   // P8
+  ]),
+  layout('insole-16', '16-sensor insole', [
+    // Toes
+    { x: 0.250, y: 0.115 },
+    { x: 0.400, y: 0.105 },
+    { x: 0.560, y: 0.165 },
+    // Metatarsal heads
+    { x: 0.260, y: 0.270 },
+    { x: 0.400, y: 0.270 },
+    { x: 0.510, y: 0.300 },
+    { x: 0.600, y: 0.370 },
+    // Forefoot
+    { x: 0.280, y: 0.400 },
+    { x: 0.550, y: 0.450 },
+    // Midfoot
+    { x: 0.320, y: 0.520 },
+    { x: 0.440, y: 0.560 },
+    { x: 0.560, y: 0.550 },
+    { x: 0.530, y: 0.650 },
+    // Heel
+    { x: 0.300, y: 0.740 },
+    { x: 0.440, y: 0.760 },
+    { x: 0.370, y: 0.830 }
+  ]),
+  layout('insole-32', '32-sensor insole', [
+    // Toes
+    { x: 0.250, y: 0.110 },
+    { x: 0.400, y: 0.100 },
+    { x: 0.490, y: 0.130 },
+    { x: 0.570, y: 0.160 },
+    { x: 0.630, y: 0.200 },
+    // Metatarsal heads
+    { x: 0.220, y: 0.260 },
+    { x: 0.320, y: 0.260 },
+    { x: 0.420, y: 0.260 },
+    { x: 0.520, y: 0.270 },
+    // Forefoot
+    { x: 0.200, y: 0.330 },
+    { x: 0.310, y: 0.330 },
+    { x: 0.420, y: 0.330 },
+    { x: 0.530, y: 0.340 },
+    { x: 0.620, y: 0.360 },
+    { x: 0.220, y: 0.420 },
+    { x: 0.340, y: 0.420 },
+    { x: 0.460, y: 0.420 },
+    { x: 0.580, y: 0.420 },
+    // Midfoot
+    { x: 0.270, y: 0.520 },
+    { x: 0.390, y: 0.520 },
+    { x: 0.510, y: 0.520 },
+    { x: 0.600, y: 0.520 },
+    { x: 0.280, y: 0.620 },
+    { x: 0.420, y: 0.620 },
+    { x: 0.550, y: 0.620 },
+    // Heel
+    { x: 0.240, y: 0.720 },
+    { x: 0.360, y: 0.720 },
+    { x: 0.480, y: 0.720 },
+    { x: 0.240, y: 0.800 },
+    { x: 0.360, y: 0.800 },
+    { x: 0.480, y: 0.800 },
+    { x: 0.360, y: 0.860 }
+  ])
+];
+
+export const DEFAULT_SENSOR_LAYOUT = SENSOR_LAYOUTS[0];
+
+export const getSensorLayout = (layoutId: string): SensorLayout =>
+  SENSOR_LAYOUTS.find(sensorLayout => sensorLayout.id === layoutId) || DEFAULT_SENSOR_LAYOUT;
+
+export const getChannelLabels = (sensorLayout: SensorLayout): string[] =>
+  Array.from({ length: sensorLayout.channelCount }, (_, index) => `P${index + 1}`);
+
+export const createEmptyFrame = (sensorLayout: SensorLayout): number[] =>
+  Array(sensorLayout.channelCount).fill(0);
+
+// "val1,val2,...,valN" for the expected-format hints
+export const describeFrameFormat = (sensorLayout: SensorLayout): string =>
+  sensorLayout.channelCount <= 8
+    ? Array.from({ length: sensorLayout.channelCount }, (_, index) => `val${index + 1}`).join(',')
+    : `val1,val2,...,val${sensorLayout.channelCount}`;
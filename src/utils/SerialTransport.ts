@@ -0,0 +1,148 @@
+import { FramePayload } from './FrameDecoderRegistry';
+import { DeviceTransport } from './DeviceTransport';
+
+export const SERIAL_BAUD_RATES = [9600, 57600, 115200, 230400, 460800, 921600];
+export const DEFAULT_BAUD_RATE = 115200;
+
+// Longer lines are line noise (wrong baud rate, boot messages), not frames
+const MAX_LINE_LENGTH = 4096;
+
+export const isSerialSupported = (): boolean => 'serial' in navigator;
+
+// Opens the browser's port chooser; rejects with NotFoundError when nothing is picked
+export const requestSerialPort = async (): Promise<SerialPort> => {
+  if (!isSerialSupported()) {
+    throw new Error('Web Serial is not supported in this browser. Please use Chrome or Edge.');
+  }
+  return navigator.serial.requestPort();
+};
+
+// Stable label for a port, e.g. "USB 10c4:ea60" - ports have no name or serial number
+export const describeSerialPort = (port: SerialPort): string => {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  if (usbVendorId === undefined) return 'Serial port';
+  const hex = (id: number | undefined) => (id ?? 0).toString(16).padStart(4, '0');
+  return `USB ${hex(usbVendorId)}:${hex(usbProductId)}`;
+};
+
+// ESP32 firmware streaming over USB: the same text frames and commands as over BLE,
+// one per line. Bytes arrive in arbitrary chunks, so they are split on newlines here
+// and every complete line becomes one payload.
+class SerialTransport implements DeviceTransport {
+  readonly kind = 'serial';
+  private readonly port: SerialPort;
+  private readonly baudRate: number;
+  public onPayload: ((payload: FramePayload) => void) | null = null;
+  public onDisconnect: (() => void) | null = null;
+
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private readLoop: Promise<void> | null = null;
+  private connected = false;
+  private closing = false;
+  private lineBuffer = '';
+
+  constructor(port: SerialPort, baudRate = DEFAULT_BAUD_RATE) {
+    this.port = port;
+    this.baudRate = baudRate;
+  }
+
+  getPort(): SerialPort {
+    return this.port;
+  }
+
+  getBaudRate(): number {
+    return this.baudRate;
+  }
+
+  async connect(): Promise<void> {
+    // A previous close must finish before the port can be opened again
+    await this.readLoop;
+    this.closing = false;
+    this.lineBuffer = '';
+    await this.port.open({ baudRate: this.baudRate });
+    this.connected = true;
+    this.readLoop = this.read();
+  }
+
+  disconnect(): void {
+    this.closing = true;
+    this.connected = false;
+    this.reader?.cancel().catch((error: unknown) => console.warn('Error cancelling serial read:', error));
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async write(bytes: Uint8Array): Promise<void> {
+    if (!this.connected || !this.port.writable) {
+      throw new Error('Serial port is not open');
+    }
+    const writer = this.port.writable.getWriter();
+    try {
+      await writer.write(bytes);
+      // The firmware reads commands line by line
+      if (bytes[bytes.length - 1] !== 0x0a) {
+        await writer.write(new Uint8Array([0x0a]));
+      }
+    } finally {
+      writer.releaseLock();
+    }
+  }
+
+  setSensorLayout(): void {
+    // The firmware decides the frame layout
+  }
+
+  private async read(): Promise<void> {
+    const decoder = new TextDecoder();
+    // readable is replaced after recoverable errors (framing, parity, buffer
+    // overrun) and becomes null once the device is gone
+    while (this.port.readable && !this.closing) {
+      const reader = this.port.readable.getReader();
+      this.reader = reader;
+      try {
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          if (value) this.receiveChunk(decoder.decode(value, { stream: true }));
+        }
+      } catch (error) {
+        if (!this.closing) console.warn('⚠️ Serial read error:', error);
+      } finally {
+        reader.releaseLock();
+        this.reader = null;
+      }
+    }
+
+    try {
+      await this.port.close();
+    } catch (error) {
+      console.warn('Error closing serial port:', error);
+    }
+
+    const lost = !this.closing;
+    this.connected = false;
+    this.readLoop = null;
+    if (lost) {
+      this.onDisconnect?.();
+    }
+  }
+
+  private receiveChunk(chunk: string): void {
+    const lines = (this.lineBuffer + chunk).split('\n');
+    this.lineBuffer = lines.pop() || '';
+    if (this.lineBuffer.length > MAX_LINE_LENGTH) {
+      console.warn('⚠️ Discarding serial input without line breaks - check the baud rate');
+      this.lineBuffer = '';
+    }
+
+    for (const line of lines) {
+      const text = line.replace(/\r$/, '');
+      if (!text.trim()) continue;
+      this.onPayload?.({ bytes: new TextEncoder().encode(text), text });
+    }
+  }
+}
+
+export default SerialTransport;
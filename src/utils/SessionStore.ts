@@ -0,0 +1,108 @@
+import { STORE_SESSIONS, withStore } from './LocalDatabase';
+import { SoleSide } from './FrameDecoderRegistry';
+import { CopSample } from './CenterOfPressure';
+import { Patient } from './PatientStore';
+import { CalibrationSummary, PressureUnit } from './Calibration';
+import { DEFAULT_PROTOCOL, ProtocolSummary, summarizeProtocol } from './MeasurementProtocols';
+import { DataGap } from './DataGaps';
+import { LinkQualityStats } from './LinkQuality';
+import { DeviceMetadata, EMPTY_DEVICE_METADATA } from './DeviceInformation';
+import { TriggeredAlert } from './AlertRules';
+
+export interface PressureData {
+  timestamp: string;
+  elapsedMs: number | null; // since the countdown ended, same origin as gaps and elapsedSec; null for legacy records
+  values: number[];
+  trial: number; // 1-based protocol trial
+  phase: 'settle' | 'recording'; // settle samples are kept but not averaged
+  sequence: number | null; // firmware frame counter, when sent
+  deviceTimestamp: number | null; // firmware clock in ms, when sent
+}
+
+// Battery level is the one read when the measurement finished
+export interface SessionDevice extends DeviceMetadata {
+  name: string;
+  id: string;
+}
+
+// Everything needed to reopen a measurement and re-run its exports offline
+export interface SessionRecord {
+  id: string;
+  soleType: SoleSide;
+  createdAt: string; // ISO timestamp of the measurement
+  updatedAt: string;
+  sensorLayoutId: string;
+  device: SessionDevice | null;
+  patient: Patient | null; // snapshot taken when the measurement started
+  pressureUnit: PressureUnit; // 'raw' = uncalibrated ADC counts
+  calibration: CalibrationSummary | null;
+  protocol: ProtocolSummary;
+  elapsedSec: number | null; // wall-clock run time after the countdown; null for legacy records
+  recordedSec: number | null; // time that went into the averages
+  stoppedEarly: boolean;
+  gaps: DataGap[]; // stretches of the recording without samples
+  linkQuality: LinkQualityStats | null; // over the whole run, countdown and rest included
+  pressureData: PressureData[];
+  averagePressures: number[];
+  copTrajectory: CopSample[];
+  alerts: TriggeredAlert[]; // raised by the rules in force when the measurement finished
+  doctorNotes: string;
+}
+
+// Fill in fields added after a record was first stored
+const normalizeSession = (session: SessionRecord): SessionRecord => ({
+  ...session,
+  device: session.device ? { ...EMPTY_DEVICE_METADATA, ...session.device } : null,
+  patient: session.patient ?? null,
+  pressureUnit: session.pressureUnit ?? 'raw', // stored before calibration existed, so never converted
+  calibration: session.calibration ?? null,
+  protocol: session.protocol ?? summarizeProtocol(DEFAULT_PROTOCOL),
+  elapsedSec: session.elapsedSec ?? null,
+  recordedSec: session.recordedSec ?? null,
+  stoppedEarly: session.stoppedEarly ?? false,
+  gaps: session.gaps ?? [],
+  linkQuality: session.linkQuality ?? null,
+  alerts: session.alerts ?? [],
+  pressureData: session.pressureData.map(data => ({
+    ...data,
+    elapsedMs: data.elapsedMs ?? null,
+    trial: data.trial ?? 1,
+    phase: data.phase ?? 'recording',
+    sequence: data.sequence ?? null,
+    deviceTimestamp: data.deviceTimestamp ?? null
+  }))
+});
+
+export const createSessionId = (): string =>
+  `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+class SessionStore {
+  async save(session: SessionRecord): Promise<void> {
+    const record = { ...session, updatedAt: new Date().toISOString() };
+    await withStore(STORE_SESSIONS, 'readwrite', store => store.put(record));
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | null> {
+    const session = await withStore<SessionRecord | undefined>(STORE_SESSIONS, 'readonly', store => store.get(sessionId));
+    return session ? normalizeSession(session) : null;
+  }
+
+  // Newest first
+  async list(): Promise<SessionRecord[]> {
+    const sessions = await withStore<SessionRecord[]>(STORE_SESSIONS, 'readonly', store => store.getAll());
+    return sessions
+      .map(normalizeSession)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async listForPatient(patientId: string): Promise<SessionRecord[]> {
+    const sessions = await this.list();
+    return sessions.filter(session => session.patient?.id === patientId);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await withStore(STORE_SESSIONS, 'readwrite', store => store.delete(sessionId));
+  }
+}
+
+export default SessionStore;
@@ -0,0 +1,328 @@
+import { FramePayload, SoleSide } from './FrameDecoderRegistry';
+import { SensorLayout, SensorPoint } from './SensorLayouts';
+import { sharedClockNow } from './SampleAlignment';
+import { DeviceTransport } from './DeviceTransport';
+import { CommandReply, DeviceCommand, formatCommandReply, parseCommandRequest, parseLegacyCommand } from './DeviceCommands';
+
+// Load patterns a simulated insole can produce. Each scenario picks one and can
+// add sensor faults or link trouble on top, so the whole pipeline - decoder,
+// calibration, gap and link-quality handling - can be exercised without hardware.
+export type SimulatorPattern = 'quiet-standing' | 'gait' | 'weight-shift';
+
+export interface SimulatorScenario {
+  id: string;
+  name: string;
+  description: string;
+  pattern: SimulatorPattern;
+  deadChannel?: number; // 0-based channel that always reads 0
+  saturatedChannel?: number; // 0-based channel stuck at full scale
+  dropRate?: number; // share of frames never sent
+  duplicateRate?: number; // share of frames sent twice
+  reorderRate?: number; // share of frames swapped with the next one
+  outage?: { everySec: number; durationSec: number }; // periodic link loss
+  batteryPercent?: number; // charge at connection, 100 when omitted
+}
+
+export const SIMULATOR_SCENARIOS: SimulatorScenario[] = [
+  {
+    id: 'quiet-standing',
+    name: 'Quiet standing',
+    description: 'Steady bipedal stance with slow postural sway',
+    pattern: 'quiet-standing'
+  },
+  {
+    id: 'gait',
+    name: 'Gait cycle',
+    description: 'Walking at ~1.1 s per stride, heel strike to toe-off',
+    pattern: 'gait'
+  },
+  {
+    id: 'weight-shift',
+    name: 'Weight shifts',
+    description: 'Load moves between the feet every 6 s',
+    pattern: 'weight-shift'
+  },
+  {
+    id: 'dead-sensor',
+    name: 'Dead sensor',
+    description: 'Quiet standing with P3 reading 0',
+    pattern: 'quiet-standing',
+    deadChannel: 2
+  },
+  {
+    id: 'saturated-sensor',
+    name: 'Saturated sensor',
+    description: 'Quiet standing with P2 stuck at full scale',
+    pattern: 'quiet-standing',
+    saturatedChannel: 1
+  },
+  {
+    id: 'disconnects',
+    name: 'Disconnects',
+    description: 'Quiet standing, link drops for 4 s every 15 s',
+    pattern: 'quiet-standing',
+    outage: { everySec: 15, durationSec: 4 }
+  },
+  {
+    id: 'packet-loss',
+    name: 'Packet loss',
+    description: 'Quiet standing with 10% lost, 2% duplicated and 2% reordered frames',
+    pattern: 'quiet-standing',
+    dropRate: 0.1,
+    duplicateRate: 0.02,
+    reorderRate: 0.02
+  },
+  {
+    id: 'low-battery',
+    name: 'Low battery',
+    description: 'Quiet standing with the battery at 12%',
+    pattern: 'quiet-standing',
+    batteryPercent: 12
+  }
+];
+
+export const DEFAULT_SIMULATOR_SCENARIO = SIMULATOR_SCENARIOS[0];
+
+export const getSimulatorScenario = (id: string): SimulatorScenario =>
+  SIMULATOR_SCENARIOS.find(scenario => scenario.id === id) || DEFAULT_SIMULATOR_SCENARIO;
+
+interface SimulatedDeviceOptions {
+  side: SoleSide;
+  scenario: SimulatorScenario;
+  sensorLayout: SensorLayout;
+  rateHz?: number;
+  seed?: number; // fixed seed = reproducible stream for automated tests
+  clock?: () => number;
+}
+
+const FULL_SCALE = 255;
+const PEAK_LOAD = 230;
+const SEQUENCE_MODULUS = 65536;
+const GAIT_STRIDE_SEC = 1.1;
+const GAIT_STANCE_SHARE = 0.6;
+const FIRMWARE_VERSION = 'simulator-1.0.0';
+const REPLY_DELAY_MS = 15; // roughly one BLE connection interval
+
+// Small deterministic PRNG (mulberry32)
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Pressure under each sensor for a load centred on `center`; a broad base keeps
+// the whole sole loaded while standing, the narrow term gives the hot spot
+const distributeLoad = (points: SensorPoint[], center: SensorPoint, load: number, spread: number): number[] =>
+  points.map(point => {
+    const distanceSq = (point.x - center.x) ** 2 + (point.y - center.y) ** 2;
+    return load * (0.35 * Math.exp(-distanceSq / 0.08) + 0.65 * Math.exp(-distanceSq / (2 * spread * spread)));
+  });
+
+class SimulatedDevice implements DeviceTransport {
+  readonly kind = 'simulator';
+  private readonly side: SoleSide;
+  private readonly scenario: SimulatorScenario;
+  private sensorLayout: SensorLayout;
+  private rateHz: number;
+  private readonly clock: () => number;
+  private readonly random: () => number;
+  private readonly createdAt: number;
+  private connected = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sequence = 0;
+  private heldFrame: string | null = null;
+
+  // Same shape a GATT notification has, so frames go through the normal decoders
+  public onPayload: ((payload: FramePayload) => void) | null = null;
+  public onDisconnect: (() => void) | null = null;
+
+  constructor({ side, scenario, sensorLayout, rateHz = 10, seed = Date.now(), clock = sharedClockNow }: SimulatedDeviceOptions) {
+    this.side = side;
+    this.scenario = scenario;
+    this.sensorLayout = sensorLayout;
+    this.rateHz = rateHz;
+    this.clock = clock;
+    this.random = createRandom(seed);
+    this.createdAt = clock();
+  }
+
+  getScenario(): SimulatorScenario {
+    return this.scenario;
+  }
+
+  setSensorLayout(sensorLayout: SensorLayout): void {
+    this.sensorLayout = sensorLayout;
+  }
+
+  // Fails while a scripted outage is in progress, like an out-of-range insole
+  async connect(): Promise<void> {
+    if (this.isInOutage()) {
+      throw new Error('Simulated device is out of range');
+    }
+    this.connected = true;
+  }
+
+  disconnect(): void {
+    this.stopStreaming();
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // Firmware command handling, answered after a BLE-like round trip
+  async write(bytes: Uint8Array): Promise<void> {
+    if (!this.connected) throw new Error('Simulated device is not connected');
+    const text = new TextDecoder().decode(bytes);
+    // Bare START / STOP from the original protocol run without a reply
+    const legacy = parseLegacyCommand(text);
+    if (legacy) {
+      this.runCommand(legacy);
+      return;
+    }
+    const request = parseCommandRequest(text);
+    if (!request) return; // the firmware ignores writes it does not understand
+    const reply = formatCommandReply(request.id, this.runCommand(request.command));
+    setTimeout(() => this.send(reply), REPLY_DELAY_MS);
+  }
+
+  // Equivalent of the firmware's START command
+  startStreaming(): void {
+    if (!this.connected || this.timer) return;
+    this.timer = setInterval(() => this.tick(), 1000 / this.rateHz);
+  }
+
+  // Equivalent of the firmware's STOP command
+  stopStreaming(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.heldFrame = null;
+  }
+
+  // Sensor values at `timeSec` since the device was created, before faults are applied
+  generateValues(timeSec: number): number[] {
+    const points = this.sensorLayout.points;
+    let values: number[];
+
+    switch (this.scenario.pattern) {
+      case 'gait': {
+        const phase = (timeSec % GAIT_STRIDE_SEC) / GAIT_STRIDE_SEC;
+        // The right foot is half a stride behind the left
+        const stance = ((this.side === 'left' ? phase : phase + 0.5) % 1) / GAIT_STANCE_SHARE;
+        if (stance >= 1) {
+          values = points.map(() => 0); // swing
+          break;
+        }
+        // Heel strike → midstance → toe-off; vertical force has the classic double hump
+        const center = { x: 0.38 + 0.08 * stance, y: 0.82 - 0.7 * stance };
+        const load = PEAK_LOAD * (0.15 + 0.85 * Math.abs(Math.sin(Math.PI * stance)) * (1 - 0.25 * Math.sin(2 * Math.PI * stance) ** 2));
+        values = distributeLoad(points, center, load, 0.12);
+        break;
+      }
+      case 'weight-shift': {
+        const share = 0.5 + 0.4 * Math.sin((2 * Math.PI * timeSec) / 12) * (this.side === 'left' ? 1 : -1);
+        const center = { x: 0.42, y: 0.55 + 0.05 * Math.sin((2 * Math.PI * timeSec) / 7) };
+        values = distributeLoad(points, center, PEAK_LOAD * (0.2 + share), 0.2);
+        break;
+      }
+      case 'quiet-standing':
+      default: {
+        // Two slow sway components plus a little tremor, a few %FL in each direction
+        const center = {
+          x: 0.42 + 0.02 * Math.sin(2 * Math.PI * 0.15 * timeSec) + 0.01 * Math.sin(2 * Math.PI * 0.4 * timeSec + 1),
+          y: 0.58 + 0.03 * Math.sin(2 * Math.PI * 0.1 * timeSec + 0.5) + 0.01 * Math.sin(2 * Math.PI * 0.35 * timeSec)
+        };
+        values = distributeLoad(points, center, PEAK_LOAD * 0.8, 0.22);
+        break;
+      }
+    }
+
+    return values.map((value, channel) => {
+      if (channel === this.scenario.deadChannel) return 0;
+      if (channel === this.scenario.saturatedChannel) return FULL_SCALE;
+      const noisy = value > 0 ? value + (this.random() - 0.5) * 6 : 0;
+      return Math.max(0, Math.min(FULL_SCALE, Math.round(noisy)));
+    });
+  }
+
+  private runCommand(command: DeviceCommand): CommandReply {
+    switch (command.type) {
+      case 'start':
+        this.startStreaming();
+        return { ok: true };
+      case 'stop':
+        this.stopStreaming();
+        return { ok: true };
+      case 'set-sample-rate':
+        if (command.rateHz > 200) return { ok: false, reason: 'rate above 200 Hz not supported' };
+        this.rateHz = command.rateHz;
+        if (this.timer) {
+          this.stopStreaming();
+          this.startStreaming();
+        }
+        return { ok: true };
+      case 'tare':
+        return { ok: true }; // synthetic sensors have no offset to remove
+      case 'get-firmware-version':
+        return { ok: true, value: FIRMWARE_VERSION };
+      case 'get-battery': {
+        // Drains 1 % per minute
+        const elapsedMin = (this.clock() - this.createdAt) / 60000;
+        return { ok: true, value: String(Math.max(0, (this.scenario.batteryPercent ?? 100) - Math.floor(elapsedMin))) };
+      }
+      case 'set-side':
+        return command.side === this.side ? { ok: true } : { ok: false, reason: `simulator is the ${this.side} insole` };
+    }
+  }
+
+  private isInOutage(): boolean {
+    const outage = this.scenario.outage;
+    if (!outage) return false;
+    const cycleSec = ((this.clock() - this.createdAt) / 1000) % outage.everySec;
+    return cycleSec >= outage.everySec - outage.durationSec;
+  }
+
+  private tick(): void {
+    if (this.isInOutage()) {
+      this.disconnect();
+      this.onDisconnect?.();
+      return;
+    }
+
+    const now = this.clock();
+    const values = this.generateValues((now - this.createdAt) / 1000);
+    const sequence = this.sequence;
+    this.sequence = (this.sequence + 1) % SEQUENCE_MODULUS;
+    const frame = `PRESSURE_${this.side.toUpperCase()}:${values.join(',')};SEQ=${sequence};TS=${Math.round(now - this.createdAt)}`;
+
+    if (this.random() < (this.scenario.dropRate ?? 0)) return;
+
+    if (this.random() < (this.scenario.reorderRate ?? 0) && !this.heldFrame) {
+      this.heldFrame = frame;
+      return;
+    }
+
+    this.send(frame);
+    if (this.heldFrame) {
+      this.send(this.heldFrame);
+      this.heldFrame = null;
+    }
+    if (this.random() < (this.scenario.duplicateRate ?? 0)) {
+      this.send(frame);
+    }
+  }
+
+  private send(text: string): void {
+    this.onPayload?.({ bytes: new TextEncoder().encode(text), text });
+  }
+}
+
+export default SimulatedDevice;
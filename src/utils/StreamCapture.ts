@@ -0,0 +1,109 @@
+import { DecoderSelection, FramePayload, SoleSide } from './FrameDecoderRegistry';
+
+// Every raw notification exactly as it arrived, so a problem stream can be
+// replayed through the parsing pipeline later. Bytes are stored as base64 to
+// keep binary firmware formats intact.
+export interface CapturedNotification {
+  t: number; // ms since the capture started
+  data: string; // base64
+}
+
+export interface StreamCapture {
+  format: 'foot-pressure-capture';
+  version: 1;
+  side: SoleSide | null;
+  deviceId: string;
+  deviceName: string;
+  sensorLayoutId: string;
+  decoderSelection: DecoderSelection;
+  startedAt: string; // ISO timestamp
+  notifications: CapturedNotification[];
+}
+
+type CaptureInfo = Pick<StreamCapture, 'side' | 'deviceId' | 'deviceName' | 'sensorLayoutId' | 'decoderSelection'>;
+
+export const encodeBytes = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const decodeBytes = (data: string): Uint8Array =>
+  Uint8Array.from(atob(data), char => char.charCodeAt(0));
+
+export const toFramePayload = (notification: CapturedNotification): FramePayload => {
+  const bytes = decodeBytes(notification.data);
+  return { bytes, text: new TextDecoder().decode(bytes) };
+};
+
+export const getCaptureDurationSec = (capture: StreamCapture): number => {
+  const last = capture.notifications[capture.notifications.length - 1];
+  return last ? Math.round(last.t / 100) / 10 : 0;
+};
+
+// Throws with a readable message when the file is not a capture
+export const parseCapture = (text: string): StreamCapture => {
+  let capture: StreamCapture;
+  try {
+    capture = JSON.parse(text);
+  } catch {
+    throw new Error('Capture file is not valid JSON');
+  }
+
+  if (capture?.format !== 'foot-pressure-capture' || !Array.isArray(capture.notifications)) {
+    throw new Error('Not a foot pressure stream capture');
+  }
+  if (capture.version !== 1) {
+    throw new Error(`Unsupported capture version ${capture.version}`);
+  }
+  const invalid = capture.notifications.findIndex(item => typeof item?.t !== 'number' || typeof item?.data !== 'string');
+  if (invalid >= 0) {
+    throw new Error(`Capture notification #${invalid + 1} is malformed`);
+  }
+  return capture;
+};
+
+export const downloadCapture = (capture: StreamCapture): void => {
+  const blob = new Blob([JSON.stringify(capture)], { type: 'application/json' });
+  const deviceTag = capture.deviceId.replace(/[^A-Za-z0-9-]/g, '').slice(0, 24);
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `ble_capture_${capture.side || 'unknown'}_${deviceTag}_${capture.startedAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+class StreamRecorder {
+  private readonly info: CaptureInfo;
+  private readonly startedAt = new Date();
+  private startedAtMs: number | null = null;
+  private notifications: CapturedNotification[] = [];
+
+  constructor(info: CaptureInfo) {
+    this.info = info;
+  }
+
+  record(bytes: Uint8Array, receivedAt: number): void {
+    if (this.startedAtMs === null) this.startedAtMs = receivedAt;
+    this.notifications.push({ t: Math.round((receivedAt - this.startedAtMs) * 10) / 10, data: encodeBytes(bytes) });
+  }
+
+  getCount(): number {
+    return this.notifications.length;
+  }
+
+  finish(): StreamCapture {
+    return {
+      format: 'foot-pressure-capture',
+      version: 1,
+      ...this.info,
+      startedAt: this.startedAt.toISOString(),
+      notifications: [...this.notifications]
+    };
+  }
+}
+
+export default StreamRecorder;
@@ -0,0 +1,141 @@
+import { SessionRecord } from './SessionStore';
+import { FOOT_REGIONS, computeSessionMetrics, getRegionChannels } from './ClinicalMetrics';
+import { SensorLayout, getChannelLabels, getSensorLayout } from './SensorLayouts';
+
+export const DEFAULT_ASYMMETRY_THRESHOLD = 10; // % |SI|
+const ASYMMETRY_THRESHOLD_KEY = 'foot-pressure-asymmetry-threshold';
+
+export const getAsymmetryThreshold = (): number => {
+  const stored = Number(localStorage.getItem(ASYMMETRY_THRESHOLD_KEY));
+  return stored > 0 ? stored : DEFAULT_ASYMMETRY_THRESHOLD;
+};
+
+export const setAsymmetryThreshold = (thresholdPercent: number): void => {
+  localStorage.setItem(ASYMMETRY_THRESHOLD_KEY, String(thresholdPercent));
+};
+
+export interface SymmetryEntry {
+  label: string; // "P3" or "Forefoot"
+  left: number | null;
+  right: number | null;
+  symmetryIndex: number | null; // %, positive = left carries more; null when neither side is loaded
+  asymmetric: boolean; // |SI| above the threshold
+}
+
+export interface BilateralComparison {
+  thresholdPercent: number;
+  unitsMatch: boolean; // false when only one session is calibrated - indices are then meaningless
+  leftLoadShare: number | null; // % of the summed load of both feet
+  loadSymmetryIndex: number | null;
+  sensors: SymmetryEntry[];
+  regions: SymmetryEntry[];
+  asymmetricCount: number; // sensors and regions above the threshold
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Robinson symmetry index: difference relative to the mean of both sides
+export const computeSymmetryIndex = (left: number, right: number): number | null => {
+  const mean = (left + right) / 2;
+  return mean > 0 ? round(((left - right) / mean) * 100) : null;
+};
+
+const compareValues = (label: string, left: number | null, right: number | null, thresholdPercent: number): SymmetryEntry => {
+  const symmetryIndex = left !== null && right !== null ? computeSymmetryIndex(left, right) : null;
+  return {
+    label,
+    left,
+    right,
+    symmetryIndex,
+    asymmetric: symmetryIndex !== null && Math.abs(symmetryIndex) > thresholdPercent
+  };
+};
+
+/**
+ * Per-sensor and regional symmetry of two feet measured with the same sensor layout.
+ * Both sides share one layout, so P1 on the left is P1 on the right; a region's value
+ * is the mean of its sensors' means.
+ */
+export const compareChannelMeans = (
+  leftMeans: number[],
+  rightMeans: number[],
+  sensorLayout: SensorLayout,
+  thresholdPercent: number,
+  unitsMatch: boolean
+): BilateralComparison => {
+  const sensors = getChannelLabels(sensorLayout).map((label, index) =>
+    compareValues(label, leftMeans[index] || 0, rightMeans[index] || 0, thresholdPercent)
+  );
+
+  const regionChannels = getRegionChannels(sensorLayout);
+  const regionMean = (means: number[], indices: number[]) =>
+    indices.length > 0 ? round(indices.reduce((sum, index) => sum + (means[index] || 0), 0) / indices.length) : null;
+  const regions = FOOT_REGIONS.map(({ id, label }) =>
+    compareValues(label, regionMean(leftMeans, regionChannels[id]), regionMean(rightMeans, regionChannels[id]), thresholdPercent)
+  );
+
+  const totalLoad = (means: number[]) => means.reduce((sum, value) => sum + value, 0);
+  const leftLoad = totalLoad(leftMeans);
+  const rightLoad = totalLoad(rightMeans);
+
+  return {
+    thresholdPercent,
+    unitsMatch,
+    leftLoadShare: leftLoad + rightLoad > 0 ? round((leftLoad / (leftLoad + rightLoad)) * 100) : null,
+    loadSymmetryIndex: computeSymmetryIndex(leftLoad, rightLoad),
+    sensors,
+    regions,
+    asymmetricCount: [...sensors, ...regions].filter(entry => entry.asymmetric).length
+  };
+};
+
+// A left and a right session compared on their recording means
+export const compareSessions = (
+  left: SessionRecord,
+  right: SessionRecord,
+  thresholdPercent: number
+): BilateralComparison => {
+  if (left.soleType !== 'left' || right.soleType !== 'right') {
+    throw new Error('Pick one left and one right sole session');
+  }
+  if (left.sensorLayoutId !== right.sensorLayoutId) {
+    throw new Error('Both sessions must use the same sensor layout');
+  }
+
+  const means = (session: SessionRecord) => computeSessionMetrics(session).sensors.map(sensor => sensor.mean);
+  return compareChannelMeans(
+    means(left),
+    means(right),
+    getSensorLayout(left.sensorLayoutId),
+    thresholdPercent,
+    left.pressureUnit === right.pressureUnit
+  );
+};
+
+const sameDay = (a: string, b: string) => new Date(a).toDateString() === new Date(b).toDateString();
+
+// The other side's session from the same visit: same patient, same day, closest in time.
+// Sessions without a patient are never paired - nothing says they were the same person.
+export const findVisitPartner = (session: SessionRecord, sessions: SessionRecord[]): SessionRecord | null => {
+  const patientId = session.patient?.id;
+  if (!patientId) return null;
+
+  const measuredAt = new Date(session.createdAt).getTime();
+  const candidates = sessions.filter(candidate =>
+    candidate.soleType !== session.soleType &&
+    candidate.patient?.id === patientId &&
+    sameDay(candidate.createdAt, session.createdAt)
+  );
+
+  return candidates.reduce<SessionRecord | null>((closest, candidate) => {
+    if (!closest) return candidate;
+    const distance = (record: SessionRecord) => Math.abs(new Date(record.createdAt).getTime() - measuredAt);
+    return distance(candidate) < distance(closest) ? candidate : closest;
+  }, null);
+};
+
+export const describeSymmetryIndex = (symmetryIndex: number | null): string => {
+  if (symmetryIndex === null) return '—';
+  if (symmetryIndex === 0) return '0%';
+  return `${Math.abs(symmetryIndex)}% ${symmetryIndex > 0 ? 'L' : 'R'}`;
+};
@@ -0,0 +1,132 @@
+import { FramePayload, SoleSide } from './FrameDecoderRegistry';
+import { DeviceTransport } from './DeviceTransport';
+
+// The gateway serves one insole per path, e.g. ws://localhost:8765/left
+export const DEFAULT_GATEWAY_URL = 'ws://localhost:8765';
+const CONNECT_TIMEOUT_MS = 5000;
+
+const gatewayUrlKey = (side: SoleSide) => `foot-pressure-gateway-url-${side}`;
+
+export const getGatewayUrl = (side: SoleSide): string =>
+  localStorage.getItem(gatewayUrlKey(side)) || `${DEFAULT_GATEWAY_URL}/${side}`;
+
+export const setGatewayUrl = (side: SoleSide, url: string): void => {
+  localStorage.setItem(gatewayUrlKey(side), url);
+};
+
+// Returns the URL in canonical form; throws with a readable message otherwise
+export const validateGatewayUrl = (value: string): string => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error(`"${value}" is not a valid URL`);
+  }
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    throw new Error('Gateway URL must start with ws:// or wss://');
+  }
+  return url.toString();
+};
+
+// Insole data relayed by a gateway process on machines where the browser cannot use
+// Bluetooth itself. Each message carries one or more newline-separated frames in the
+// usual formats (binary messages are passed through as they are); commands are sent
+// back as text messages.
+class WebSocketTransport implements DeviceTransport {
+  readonly kind = 'gateway';
+  private readonly url: string;
+  private socket: WebSocket | null = null;
+  private closing = false;
+
+  public onPayload: ((payload: FramePayload) => void) | null = null;
+  public onDisconnect: (() => void) | null = null;
+
+  constructor(url: string) {
+    this.url = validateGatewayUrl(url);
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  connect(): Promise<void> {
+    this.closing = false;
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      socket.binaryType = 'arraybuffer';
+      let opened = false;
+
+      const timeout = setTimeout(() => {
+        socket.close();
+        reject(new Error(`Gateway at ${this.url} did not answer within ${CONNECT_TIMEOUT_MS / 1000} s`));
+      }, CONNECT_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        clearTimeout(timeout);
+        opened = true;
+        this.socket = socket;
+        resolve();
+      };
+
+      socket.onmessage = (event: MessageEvent) => this.receiveMessage(event.data);
+
+      // Not every implementation follows a failed handshake with a close event
+      socket.onerror = () => {
+        if (opened) return;
+        clearTimeout(timeout);
+        reject(new Error(`Could not reach the gateway at ${this.url}`));
+      };
+
+      socket.onclose = (event: CloseEvent) => {
+        clearTimeout(timeout);
+        if (!opened) {
+          reject(new Error(`Could not reach the gateway at ${this.url}${event.reason ? ` (${event.reason})` : ''}`));
+          return;
+        }
+        if (this.socket === socket) this.socket = null;
+        if (!this.closing) {
+          console.warn('⚠️ Gateway connection closed:', event.code, event.reason);
+          this.onDisconnect?.();
+        }
+      };
+    });
+  }
+
+  disconnect(): void {
+    this.closing = true;
+    this.socket?.close(1000, 'Client disconnect');
+    this.socket = null;
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  async write(bytes: Uint8Array): Promise<void> {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('Gateway is not connected');
+    }
+    this.socket.send(new TextDecoder().decode(bytes));
+  }
+
+  setSensorLayout(): void {
+    // The insole behind the gateway decides the frame layout
+  }
+
+  private receiveMessage(data: string | ArrayBuffer): void {
+    if (typeof data !== 'string') {
+      const bytes = new Uint8Array(data);
+      this.onPayload?.({ bytes, text: new TextDecoder().decode(bytes) });
+      return;
+    }
+
+    for (const line of data.split('\n')) {
+      const text = line.replace(/\r$/, '');
+      if (!text.trim()) continue;
+      this.onPayload?.({ bytes: new TextEncoder().encode(text), text });
+    }
+  }
+}
+
+export default WebSocketTransport;